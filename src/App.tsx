@@ -1,10 +1,12 @@
 import PageRoute from "./routes/PageRoutes"
 import { Toaster } from "react-hot-toast";
+import ConfirmDialogHost from "./component/ConfirmDialogHost";
 
 function App() {
   return (
     <>
       <Toaster position="top-right" reverseOrder={false} />
+      <ConfirmDialogHost />
       <PageRoute />
     </>
   );
@@ -0,0 +1,101 @@
+import axios from "axios";
+import { ApiError } from "./generated/core/ApiError";
+import { CancelError } from "./generated/core/CancelablePromise";
+
+// http: the server answered with an error status
+// envelope: HTTP 200 but the ResponseDto code says the call failed
+// network: no response at all (server down, CORS, offline)
+// cancelled: the request was aborted, e.g. on logout; never shown to the user
+export type AppErrorKind = "http" | "envelope" | "network" | "cancelled" | "unknown";
+
+interface AppErrorOptions {
+  kind: AppErrorKind;
+  status?: number;
+  code?: number;
+  cause?: unknown;
+}
+
+// Plain-object form kept in the Redux store, which only holds serializable values
+export interface SerializedAppError {
+  name: "AppError";
+  message: string;
+  kind: AppErrorKind;
+  status?: number;
+  code?: number;
+}
+
+const isSerializedAppError = (error: unknown): error is SerializedAppError =>
+  !!error && typeof error === "object" && (error as { name?: unknown }).name === "AppError" && "kind" in error;
+
+const messageFromBody = (body: unknown): string | undefined => {
+  if (body && typeof body === "object" && "message" in body) {
+    const { message } = body as { message?: unknown };
+    if (typeof message === "string" && message.trim()) return message;
+  }
+  return undefined;
+};
+
+// The single error type the UI deals with. The generated client throws
+// ApiError, raw axios calls throw AxiosError and the envelope check throws
+// this directly; AppError.from folds all of them into one shape.
+export class AppError extends Error {
+  readonly kind: AppErrorKind;
+  readonly status?: number;
+  readonly code?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, { kind, status, code, cause }: AppErrorOptions) {
+    super(message);
+    this.name = "AppError";
+    this.kind = kind;
+    this.status = status;
+    this.code = code;
+    this.cause = cause;
+  }
+
+  get isCancelled(): boolean {
+    return this.kind === "cancelled";
+  }
+
+  toJSON(): SerializedAppError {
+    return { name: "AppError", message: this.message, kind: this.kind, status: this.status, code: this.code };
+  }
+
+  static from(error: unknown, fallbackMessage = "Something went wrong"): AppError {
+    if (error instanceof AppError) return error;
+
+    // Errors coming back out of the store (e.g. an RTK Query mutation's unwrap())
+    if (isSerializedAppError(error)) {
+      const { message, kind, status, code } = error;
+      return new AppError(message, { kind, status, code });
+    }
+
+    if (error instanceof CancelError || axios.isCancel(error)) {
+      return new AppError("Request cancelled", { kind: "cancelled", cause: error });
+    }
+
+    if (error instanceof ApiError) {
+      return new AppError(messageFromBody(error.body) || fallbackMessage, {
+        kind: "http",
+        status: error.status,
+        cause: error,
+      });
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        return new AppError("Unable to reach the server. Check your connection and try again.", {
+          kind: "network",
+          cause: error,
+        });
+      }
+      return new AppError(messageFromBody(error.response.data) || fallbackMessage, {
+        kind: "http",
+        status: error.response.status,
+        cause: error,
+      });
+    }
+
+    return new AppError(fallbackMessage, { kind: "unknown", cause: error });
+  }
+}
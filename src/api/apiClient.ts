@@ -1,26 +1,22 @@
 import { OpenAPI } from "./generated/core/OpenAPI";
 
+// Single sessionStorage key for the JWT. Everything that needs the token
+// (generated services, raw axios calls, the auth slice) reads it from here.
+export const TOKEN_STORAGE_KEY = "token";
+
+export const getAuthToken = (): string | null => sessionStorage.getItem(TOKEN_STORAGE_KEY);
+
 export const setAuthToken = (token: string | null) => {
   if (!token) {
-    console.log("🔑 Clearing auth token");
-    sessionStorage.removeItem("authToken");
-    OpenAPI.TOKEN = undefined;
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
     return;
   }
 
   // Always strip any accidental "Bearer " prefix
   const rawToken = token.replace(/^Bearer\s+/i, "");
-
-  console.log("🔑 Setting auth token:", rawToken);
-
-  // Save to sessionStorage
-  sessionStorage.setItem("authToken", rawToken);
-
-  // Always read latest token from sessionStorage
-  OpenAPI.TOKEN = async () => {
-    const storedToken = sessionStorage.getItem("authToken");
-    const headerValue = storedToken ? `Bearer ${storedToken}` : "";
-    console.log("📤 Authorization header will be:", headerValue);
-    return headerValue;
-  };
+  sessionStorage.setItem(TOKEN_STORAGE_KEY, rawToken);
 };
+
+// The generated client adds the "Bearer " prefix itself, so hand it the raw
+// token. Reading on every request keeps it in sync with login/logout.
+OpenAPI.TOKEN = async () => getAuthToken() ?? "";
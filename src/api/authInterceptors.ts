@@ -0,0 +1,88 @@
+import axios, { type AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from "axios";
+import { api } from "../utils/api";
+import { isTokenExpired } from "../utils/jwt";
+import { sessionExpired } from "../store/slices/authSlice";
+import type { store as appStore } from "../store/store";
+
+type AppStore = typeof appStore;
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+interface PendingRequest {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Requests parked while the re-login prompt is open. They are replayed with
+// the new token after the user signs in again, or dropped on logout.
+let pendingRequests: PendingRequest[] = [];
+
+// Wrong credentials on the login form also come back as 401 and must reach
+// the form untouched
+const isLoginRequest = (config: InternalAxiosRequestConfig) => (config.url ?? "").endsWith("/auth/login");
+
+const waitForNewToken = () =>
+  new Promise<string>((resolve, reject) => {
+    pendingRequests.push({ resolve, reject });
+  });
+
+const setBearer = (config: InternalAxiosRequestConfig, token: string) => {
+  config.headers.set("Authorization", `Bearer ${token}`);
+  return config;
+};
+
+// Hook session handling into the default axios instance (used by the pages
+// and the generated OpenAPI client) and into the shared `api` instance.
+export const setupAuthInterceptors = (store: AppStore) => {
+  const holdUntilReauthenticated = () => {
+    if (!store.getState().auth.sessionExpired) store.dispatch(sessionExpired());
+    return waitForNewToken();
+  };
+
+  // Don't bother the server with a token we already know is expired
+  const onRequest = async (config: InternalAxiosRequestConfig) => {
+    const { token, sessionExpired: expired } = store.getState().auth;
+    if (!token || isLoginRequest(config)) return config;
+    if (!expired && !isTokenExpired(token)) return config;
+
+    return setBearer(config, await holdUntilReauthenticated());
+  };
+
+  const onResponseError = (client: AxiosInstance) => async (error: AxiosError) => {
+    const config = error.config as RetriableRequestConfig | undefined;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config._authRetried ||
+      isLoginRequest(config) ||
+      !store.getState().auth.token
+    ) {
+      return Promise.reject(error);
+    }
+
+    const token = await holdUntilReauthenticated();
+    config._authRetried = true;
+    return client.request(setBearer(config, token));
+  };
+
+  for (const client of [axios, api]) {
+    client.interceptors.request.use(onRequest);
+    client.interceptors.response.use(undefined, onResponseError(client));
+  }
+
+  // Settle parked requests once the prompt is resolved either way
+  store.subscribe(() => {
+    if (pendingRequests.length === 0) return;
+
+    const { token, sessionExpired: expired } = store.getState().auth;
+    if (token && !expired) {
+      const waiting = pendingRequests;
+      pendingRequests = [];
+      waiting.forEach((request) => request.resolve(token));
+    } else if (!token) {
+      const waiting = pendingRequests;
+      pendingRequests = [];
+      waiting.forEach((request) => request.reject(new axios.CanceledError("Session ended")));
+    }
+  });
+};
@@ -0,0 +1,16 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type AssignHistoryResponse = {
+    id?: number;
+    ticketName?: string;
+    assignBy?: string;
+    assignTo?: string;
+    createdOn?: string;
+    /**
+     * set on entries written by an SLA escalation: FLAG or REASSIGN
+     */
+    escalation?: string | null;
+    /**
+     * why the ticket was escalated
+     */
+    reason?: string | null;
+};
@@ -0,0 +1,17 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { AssignmentRuleUserSkills } from './AssignmentRuleUserSkills';
+export type AssignmentRuleRequest = {
+    id?: number;
+    name?: string;
+    /**
+     * ROUND_ROBIN, LEAST_OPEN or SKILL_MATCH
+     */
+    strategy?: string;
+    departmentId?: number;
+    active?: boolean;
+    userSkills?: Array<AssignmentRuleUserSkills>;
+    /**
+     * where round robin picks up on the next assignment
+     */
+    lastAssignedUserId?: number | null;
+};
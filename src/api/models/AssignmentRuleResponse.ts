@@ -0,0 +1,12 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { AssignmentRuleUserSkills } from './AssignmentRuleUserSkills';
+export type AssignmentRuleResponse = {
+    id?: number;
+    name?: string;
+    strategy?: string;
+    departmentId?: number;
+    departmentName?: string;
+    active?: boolean;
+    userSkills?: Array<AssignmentRuleUserSkills>;
+    lastAssignedUserId?: number | null;
+};
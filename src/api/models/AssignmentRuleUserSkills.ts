@@ -0,0 +1,8 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type AssignmentRuleUserSkills = {
+    userId?: number;
+    /**
+     * comma separated, compared case-insensitively with the candidate's skills
+     */
+    skills?: string;
+};
@@ -0,0 +1,20 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { CandidateRequest } from './CandidateRequest';
+export type CandidateMergeRequest = {
+    /**
+     * record that is kept
+     */
+    survivorId?: number;
+    /**
+     * record that is deleted once its tickets have moved to the survivor
+     */
+    duplicateId?: number;
+    /**
+     * winning value of every field, written to the survivor
+     */
+    candidate?: CandidateRequest;
+    /**
+     * resumes of both records; the first becomes the survivor's main resume
+     */
+    resumeLinks?: Array<string>;
+};
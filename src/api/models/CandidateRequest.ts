@@ -0,0 +1,16 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type CandidateRequest = {
+    id?: number;
+    name?: string;
+    email?: string;
+    phone?: string;
+    experience?: string;
+    currentCTC?: string;
+    expectedCTC?: string;
+    noticePeriod?: string;
+    skills?: string;
+    linkedInProfile?: string;
+    notes?: string;
+    status?: string;
+    resumeLink?: string | null;
+};
@@ -0,0 +1,25 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type CandidateResponse = {
+    id?: number;
+    name?: string;
+    email?: string;
+    phone?: string;
+    experience?: string;
+    currentCTC?: string;
+    expectedCTC?: string;
+    noticePeriod?: string;
+    skills?: string;
+    resumeLink?: string | null;
+    status?: string;
+    /**
+     * pipeline stage key, see PipelineStage
+     */
+    stage?: string;
+    stageChangedOn?: string;
+    /**
+     * set while the candidate is in a rejected stage
+     */
+    rejectionReason?: string | null;
+    linkedInProfile?: string;
+    notes?: string;
+};
@@ -0,0 +1,10 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type CandidateStageChangeRequest = {
+    candidateId?: number;
+    stage?: string;
+    /**
+     * required when moving to a rejected stage
+     */
+    rejectionReason?: string;
+    note?: string;
+};
@@ -0,0 +1,11 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type CandidateStageHistoryResponse = {
+    id?: number;
+    candidateId?: number;
+    fromStage?: string | null;
+    toStage?: string;
+    rejectionReason?: string | null;
+    note?: string | null;
+    changedBy?: string;
+    changedOn?: string;
+};
@@ -0,0 +1,8 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type LogHistoryRequest = {
+    id?: number;
+    ticketId?: number;
+    status?: string;
+    remarks?: string;
+    nextFollowUpDate?: string;
+};
@@ -0,0 +1,10 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type LogHistoryResponse = {
+    id?: number;
+    ticketId?: number;
+    status?: string;
+    remarks?: string;
+    nextFollowUpDate?: string;
+    createdBy?: string;
+    createdOn?: string;
+};
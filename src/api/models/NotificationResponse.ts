@@ -0,0 +1,14 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type NotificationResponse = {
+    id?: number;
+    /**
+     * what happened, e.g. `MENTION`
+     */
+    type?: string;
+    message?: string;
+    ticketId?: number;
+    commentId?: number;
+    createdBy?: string;
+    createdOn?: string;
+    read?: boolean;
+};
@@ -0,0 +1,9 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { CandidateResponse } from './CandidateResponse';
+export type PageCandidateResponse = {
+    content?: Array<CandidateResponse>;
+    totalElements?: number;
+    totalPages?: number;
+    number?: number;
+    size?: number;
+};
@@ -0,0 +1,9 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketResponse } from './TicketResponse';
+export type PageTicketResponse = {
+    content?: Array<TicketResponse>;
+    totalElements?: number;
+    totalPages?: number;
+    number?: number;
+    size?: number;
+};
@@ -0,0 +1,10 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PipelineStage } from './PipelineStage';
+export type PipelineRequest = {
+    companyId?: number;
+    /**
+     * in pipeline order
+     */
+    stages?: Array<PipelineStage>;
+    rejectionReasons?: Array<string>;
+};
@@ -0,0 +1,8 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PipelineStage } from './PipelineStage';
+export type PipelineResponse = {
+    companyId?: number;
+    companyName?: string;
+    stages?: Array<PipelineStage>;
+    rejectionReasons?: Array<string>;
+};
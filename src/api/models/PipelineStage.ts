@@ -0,0 +1,12 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type PipelineStage = {
+    /**
+     * stable id stored on candidates; the label can change
+     */
+    key?: string;
+    label?: string;
+    /**
+     * `OPEN`, `HIRED` or `REJECTED`
+     */
+    kind?: string;
+};
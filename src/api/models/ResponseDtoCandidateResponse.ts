@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { CandidateResponse } from './CandidateResponse';
+export type ResponseDtoCandidateResponse = {
+    code?: number;
+    message?: string;
+    data?: CandidateResponse;
+};
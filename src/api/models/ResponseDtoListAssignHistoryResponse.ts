@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { AssignHistoryResponse } from './AssignHistoryResponse';
+export type ResponseDtoListAssignHistoryResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<AssignHistoryResponse>;
+};
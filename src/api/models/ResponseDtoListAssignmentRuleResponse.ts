@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { AssignmentRuleResponse } from './AssignmentRuleResponse';
+export type ResponseDtoListAssignmentRuleResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<AssignmentRuleResponse>;
+};
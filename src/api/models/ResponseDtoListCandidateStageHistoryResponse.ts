@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { CandidateStageHistoryResponse } from './CandidateStageHistoryResponse';
+export type ResponseDtoListCandidateStageHistoryResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<CandidateStageHistoryResponse>;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { LogHistoryResponse } from './LogHistoryResponse';
+export type ResponseDtoListLogHistoryResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<LogHistoryResponse>;
+};
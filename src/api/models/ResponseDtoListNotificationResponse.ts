@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { NotificationResponse } from './NotificationResponse';
+export type ResponseDtoListNotificationResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<NotificationResponse>;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { SlaPolicyResponse } from './SlaPolicyResponse';
+export type ResponseDtoListSlaPolicyResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<SlaPolicyResponse>;
+};
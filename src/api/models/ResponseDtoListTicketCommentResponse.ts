@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketCommentResponse } from './TicketCommentResponse';
+export type ResponseDtoListTicketCommentResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<TicketCommentResponse>;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketUserCountResponse } from './TicketUserCountResponse';
+export type ResponseDtoListTicketUserCountResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<TicketUserCountResponse>;
+};
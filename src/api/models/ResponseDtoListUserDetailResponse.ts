@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { UserDetailResponse } from '../generated/models/UserDetailResponse';
+export type ResponseDtoListUserDetailResponse = {
+    code?: number;
+    message?: string;
+    data?: Array<UserDetailResponse>;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { LogHistoryResponse } from './LogHistoryResponse';
+export type ResponseDtoLogHistoryResponse = {
+    code?: number;
+    message?: string;
+    data?: LogHistoryResponse;
+};
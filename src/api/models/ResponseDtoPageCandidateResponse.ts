@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PageCandidateResponse } from './PageCandidateResponse';
+export type ResponseDtoPageCandidateResponse = {
+    code?: number;
+    message?: string;
+    data?: PageCandidateResponse;
+};
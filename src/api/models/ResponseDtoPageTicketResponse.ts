@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PageTicketResponse } from './PageTicketResponse';
+export type ResponseDtoPageTicketResponse = {
+    code?: number;
+    message?: string;
+    data?: PageTicketResponse;
+};
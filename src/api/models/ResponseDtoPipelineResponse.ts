@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PipelineResponse } from './PipelineResponse';
+export type ResponseDtoPipelineResponse = {
+    code?: number;
+    message?: string;
+    data?: PipelineResponse;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { SavedViewResponse } from './SavedViewResponse';
+export type ResponseDtoSavedViewResponse = {
+    code?: number;
+    message?: string;
+    data?: SavedViewResponse;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketCommentResponse } from './TicketCommentResponse';
+export type ResponseDtoTicketCommentResponse = {
+    code?: number;
+    message?: string;
+    data?: TicketCommentResponse;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketResponse } from './TicketResponse';
+export type ResponseDtoTicketResponse = {
+    code?: number;
+    message?: string;
+    data?: TicketResponse;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketStatusCountResponse } from './TicketStatusCountResponse';
+export type ResponseDtoTicketStatusCountResponse = {
+    code?: number;
+    message?: string;
+    data?: TicketStatusCountResponse;
+};
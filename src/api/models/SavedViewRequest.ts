@@ -0,0 +1,13 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type SavedViewRequest = {
+    id?: number;
+    name?: string;
+    /**
+     * list the view belongs to, e.g. `TICKET`
+     */
+    scope?: string;
+    /**
+     * the list's URL query string, without the page number
+     */
+    query?: string;
+};
@@ -0,0 +1,7 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type SavedViewResponse = {
+    id?: number;
+    name?: string;
+    scope?: string;
+    query?: string;
+};
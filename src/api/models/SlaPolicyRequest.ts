@@ -0,0 +1,27 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type SlaPolicyRequest = {
+    id?: number;
+    name?: string;
+    /**
+     * the ticket status the policy watches
+     */
+    status?: string;
+    /**
+     * TIME_IN_STATUS or FOLLOW_UP_OVERDUE
+     */
+    metric?: string;
+    limitHours?: number;
+    /**
+     * how long before the limit a ticket shows as due soon
+     */
+    warnHours?: number;
+    /**
+     * FLAG or REASSIGN
+     */
+    escalation?: string;
+    /**
+     * who a breach is escalated to, usually the department head
+     */
+    escalateToUserId?: number;
+    active?: boolean;
+};
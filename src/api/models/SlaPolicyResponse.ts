@@ -0,0 +1,13 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type SlaPolicyResponse = {
+    id?: number;
+    name?: string;
+    status?: string;
+    metric?: string;
+    limitHours?: number;
+    warnHours?: number;
+    escalation?: string;
+    escalateToUserId?: number;
+    escalateToName?: string;
+    active?: boolean;
+};
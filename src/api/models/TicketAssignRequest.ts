@@ -0,0 +1,5 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketAssignRequest = {
+    userId?: number;
+    candidateIds?: Array<number>;
+};
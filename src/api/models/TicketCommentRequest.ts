@@ -0,0 +1,21 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketCommentRequest = {
+    id?: number;
+    ticketId?: number;
+    /**
+     * comment being replied to; replies are one level deep
+     */
+    parentId?: number | null;
+    /**
+     * markdown; mentions are written `@[Name](userId)`
+     */
+    body?: string;
+    /**
+     * users mentioned in the body, each notified once
+     */
+    mentionedUserIds?: Array<number>;
+    /**
+     * internal notes are only shown to the ticket's team
+     */
+    internal?: boolean;
+};
@@ -0,0 +1,16 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketCommentResponse = {
+    id?: number;
+    ticketId?: number;
+    parentId?: number | null;
+    body?: string;
+    mentionedUserIds?: Array<number>;
+    internal?: boolean;
+    createdById?: number;
+    createdBy?: string;
+    createdOn?: string;
+    /**
+     * set once the comment has been edited
+     */
+    updatedOn?: string | null;
+};
@@ -0,0 +1,11 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketEscalationRequest = {
+    ticketId?: number;
+    slaPolicyId?: number;
+    /**
+     * FLAG or REASSIGN
+     */
+    action?: string;
+    userId?: number;
+    reason?: string;
+};
@@ -0,0 +1,9 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketRequest = {
+    id?: number;
+    candidateId?: number;
+    userId?: number;
+    status?: string;
+    remarks?: string;
+    nextFollowUpDate?: string;
+};
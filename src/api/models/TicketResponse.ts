@@ -0,0 +1,20 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketResponse = {
+    id?: number;
+    ticketId?: string;
+    candidateId?: number;
+    candidateName?: string;
+    assignedTo?: string;
+    status?: string;
+    nextFollowUpDate?: string;
+    remarks?: string;
+    createdOn?: string;
+    /**
+     * when the ticket entered its current status
+     */
+    statusChangedOn?: string;
+    /**
+     * set once the current SLA breach has been escalated; cleared when the status changes
+     */
+    escalatedOn?: string | null;
+};
@@ -0,0 +1,8 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+export type TicketStatusCountResponse = {
+    OPEN?: number;
+    PENDING?: number;
+    INPROGRESS?: number;
+    CLOSED?: number;
+    COMPLETED?: number;
+};
@@ -0,0 +1,17 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketStatusCountResponse } from './TicketStatusCountResponse';
+export type TicketUserCountResponse = {
+    /**
+     * Missing for tickets whose assignee matches no user
+     */
+    userId?: number;
+    statusCounts?: TicketStatusCountResponse;
+    /**
+     * Open tickets with a next follow up before today
+     */
+    overdue?: number;
+    /**
+     * Tickets completed or closed on or after `finishedSince`
+     */
+    finishedSince?: number;
+};
@@ -0,0 +1,72 @@
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  field: string;
+  direction: SortDirection;
+}
+
+// What a paged list asks the server for. `page` is 1-based like the page
+// buttons; the services translate it to the backend's 0-based index.
+export interface PageQuery<F extends Record<string, string> = Record<string, string>> {
+  page: number;
+  size: number;
+  sort?: SortState;
+  filters: F;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  page: number;
+  size: number;
+  totalElements: number;
+  totalPages: number;
+}
+
+// Shape of a Spring Data Page as the backend serializes it
+export interface SpringPage<T> {
+  content?: Array<T>;
+  totalElements?: number;
+  totalPages?: number;
+  number?: number;
+  size?: number;
+}
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100, 200];
+
+// Spring's `sort` parameter: "field,asc"
+export const toSortParam = (sort?: SortState) => (sort ? `${sort.field},${sort.direction}` : undefined);
+
+export const parseSortParam = (value: string | null): SortState | undefined => {
+  if (!value) return undefined;
+  const [field, direction] = value.split(",");
+  if (!field) return undefined;
+  return { field, direction: direction === "desc" ? "desc" : "asc" };
+};
+
+// Header clicks cycle ascending -> descending -> unsorted
+export const nextSort = (current: SortState | undefined, field: string): SortState | undefined => {
+  if (current?.field !== field) return { field, direction: "asc" };
+  if (current.direction === "asc") return { field, direction: "desc" };
+  return undefined;
+};
+
+// Empty filter values mean "no filter" and are left off the request
+export const toFilterParam = (value: string | undefined) => value?.trim() || undefined;
+
+// Numeric filters arrive from the URL as text; anything unparseable is dropped
+export const toNumberParam = (value: string | undefined) => {
+  const trimmed = value?.trim();
+  return trimmed && Number.isFinite(Number(trimmed)) ? Number(trimmed) : undefined;
+};
+
+export const toPageResult = <T>(page: SpringPage<T>, query: PageQuery<Record<string, string>>): PageResult<T> => {
+  const size = page.size || query.size;
+  const totalElements = page.totalElements ?? page.content?.length ?? 0;
+  return {
+    items: page.content ?? [],
+    page: page.number !== undefined ? page.number + 1 : query.page,
+    size,
+    totalElements,
+    totalPages: page.totalPages ?? Math.ceil(totalElements / size),
+  };
+};
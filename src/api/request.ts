@@ -0,0 +1,59 @@
+import type { AxiosRequestConfig } from "axios";
+import { api } from "../utils/api";
+import { getAuthToken } from "./apiClient";
+import { AppError } from "./AppError";
+
+// Shape shared by every ResponseDto* model
+export interface ResponseDto<T> {
+  code?: number;
+  message?: string;
+  data?: T;
+}
+
+export interface ApiResult<T> {
+  data?: T;
+  message?: string;
+}
+
+// Most controllers answer code 1, the role controller answers 200
+export const isSuccessCode = (code?: number) => code === 1 || code === 200;
+
+// Resolve a ResponseDto call to its data and message, throwing AppError when
+// either the request or the envelope code fails. Use for actions where the
+// payload is optional (deletes, updates that only return a message).
+export const unwrapResult = async <T>(
+  request: PromiseLike<ResponseDto<T>>,
+  fallbackMessage: string
+): Promise<ApiResult<T>> => {
+  let response: ResponseDto<T>;
+  try {
+    response = await request;
+  } catch (error) {
+    throw AppError.from(error, fallbackMessage);
+  }
+
+  if (!isSuccessCode(response?.code)) {
+    throw new AppError(response?.message || fallbackMessage, { kind: "envelope", code: response?.code });
+  }
+
+  return { data: response.data, message: response.message };
+};
+
+// Like unwrapResult but for calls that must return data
+export const unwrap = async <T>(request: PromiseLike<ResponseDto<T>>, fallbackMessage: string): Promise<T> => {
+  const { data } = await unwrapResult(request, fallbackMessage);
+  if (data === undefined || data === null) {
+    throw new AppError(fallbackMessage, { kind: "envelope" });
+  }
+  return data;
+};
+
+// For endpoints that have no generated or hand-written service. Goes through
+// the shared `api` instance so the auth interceptors apply.
+export const apiRequest = async <T>(config: AxiosRequestConfig): Promise<ResponseDto<T>> => {
+  const res = await api.request<ResponseDto<T>>({
+    ...config,
+    headers: { Authorization: `Bearer ${getAuthToken()}`, ...config.headers },
+  });
+  return res.data;
+};
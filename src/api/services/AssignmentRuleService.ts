@@ -0,0 +1,66 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { AssignmentRuleRequest } from '../models/AssignmentRuleRequest';
+import type { ResponseDtoAssignmentRuleResponse } from '../models/ResponseDtoAssignmentRuleResponse';
+import type { ResponseDtoListAssignmentRuleResponse } from '../models/ResponseDtoListAssignmentRuleResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class AssignmentRuleService {
+    /**
+     * @returns ResponseDtoListAssignmentRuleResponse OK
+     * @throws ApiError
+     */
+    public static getAllRules(): CancelablePromise<ResponseDtoListAssignmentRuleResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/assignment-rule/get-all',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoAssignmentRuleResponse OK
+     * @throws ApiError
+     */
+    public static addRule(
+        requestBody: AssignmentRuleRequest,
+    ): CancelablePromise<ResponseDtoAssignmentRuleResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/assignment-rule/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoAssignmentRuleResponse OK
+     * @throws ApiError
+     */
+    public static updateRule(
+        requestBody: AssignmentRuleRequest,
+    ): CancelablePromise<ResponseDtoAssignmentRuleResponse> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/assignment-rule/update',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteRule(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/assignment-rule/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
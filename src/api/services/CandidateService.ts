@@ -0,0 +1,272 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { CandidateMergeRequest } from '../models/CandidateMergeRequest';
+import type { CandidateRequest } from '../models/CandidateRequest';
+import type { CandidateStageChangeRequest } from '../models/CandidateStageChangeRequest';
+import type { ResponseDtoCandidateResponse } from '../models/ResponseDtoCandidateResponse';
+import type { ResponseDtoListCandidateResponse } from '../models/ResponseDtoListCandidateResponse';
+import type { ResponseDtoPageCandidateResponse } from '../models/ResponseDtoPageCandidateResponse';
+import type { ResponseDtoListCandidateStageHistoryResponse } from '../models/ResponseDtoListCandidateStageHistoryResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class CandidateService {
+    /**
+     * @returns ResponseDtoListCandidateResponse OK
+     * @throws ApiError
+     */
+    public static getAllCandidates(): CancelablePromise<ResponseDtoListCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/candidates/get-all',
+        });
+    }
+    /**
+     * @param page zero-based page index
+     * @param size
+     * @param sort property and direction, e.g. `name,asc`
+     * @param search
+     * @param stage pipeline stage key
+     * @param experienceMin years
+     * @param experienceMax years
+     * @param currentCtcMin lakhs per annum
+     * @param currentCtcMax lakhs per annum
+     * @param expectedCtcMin lakhs per annum
+     * @param expectedCtcMax lakhs per annum
+     * @param noticePeriod notice period bucket, e.g. `UP_TO_30`
+     * @param skills comma separated
+     * @param skillsMatch `all` or `any` of `skills`
+     * @param status
+     * @param hasResume
+     * @returns ResponseDtoPageCandidateResponse OK
+     * @throws ApiError
+     */
+    public static getCandidatePage(
+        page: number,
+        size: number,
+        sort?: string,
+        search?: string,
+        stage?: string,
+        experienceMin?: number,
+        experienceMax?: number,
+        currentCtcMin?: number,
+        currentCtcMax?: number,
+        expectedCtcMin?: number,
+        expectedCtcMax?: number,
+        noticePeriod?: string,
+        skills?: string,
+        skillsMatch?: string,
+        status?: string,
+        hasResume?: boolean,
+    ): CancelablePromise<ResponseDtoPageCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/candidates/get-page',
+            query: {
+                'page': page,
+                'size': size,
+                'sort': sort,
+                'search': search,
+                'stage': stage,
+                'experienceMin': experienceMin,
+                'experienceMax': experienceMax,
+                'currentCtcMin': currentCtcMin,
+                'currentCtcMax': currentCtcMax,
+                'expectedCtcMin': expectedCtcMin,
+                'expectedCtcMax': expectedCtcMax,
+                'noticePeriod': noticePeriod,
+                'skills': skills,
+                'skillsMatch': skillsMatch,
+                'status': status,
+                'hasResume': hasResume,
+            },
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoCandidateResponse OK
+     * @throws ApiError
+     */
+    public static getCandidateById(
+        id: number,
+    ): CancelablePromise<ResponseDtoCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/candidates/get-by-id/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoCandidateResponse OK
+     * @throws ApiError
+     */
+    public static addCandidate(
+        requestBody: CandidateRequest,
+    ): CancelablePromise<ResponseDtoCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/candidates/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoCandidateResponse OK
+     * @throws ApiError
+     */
+    public static updateCandidate(
+        requestBody: CandidateRequest,
+    ): CancelablePromise<ResponseDtoCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/candidates/update',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteCandidate(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/candidates/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @param candidateId
+     * @param formData
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static uploadResume(
+        candidateId: number,
+        formData: {
+            file: Blob;
+        },
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/candidates/upload-single',
+            query: {
+                'candidateId': candidateId,
+            },
+            formData: formData,
+        });
+    }
+    /**
+     * @param email
+     * @param phone
+     * @param linkedInProfile
+     * @param excludeId candidate to leave out, e.g. the one being edited
+     * @returns ResponseDtoListCandidateResponse candidates matching any of the given values
+     * @throws ApiError
+     */
+    public static findDuplicates(
+        email?: string,
+        phone?: string,
+        linkedInProfile?: string,
+        excludeId?: number,
+    ): CancelablePromise<ResponseDtoListCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/candidates/find-duplicates',
+            query: {
+                'email': email,
+                'phone': phone,
+                'linkedInProfile': linkedInProfile,
+                'excludeId': excludeId,
+            },
+        });
+    }
+    /**
+     * @param requestBody emails to look up, matched case-insensitively
+     * @returns ResponseDtoListCandidateResponse every candidate with one of the emails
+     * @throws ApiError
+     */
+    public static findByEmails(
+        requestBody: Array<string>,
+    ): CancelablePromise<ResponseDtoListCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/candidates/find-by-emails',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoCandidateResponse the surviving candidate
+     * @throws ApiError
+     */
+    public static mergeCandidates(
+        requestBody: CandidateMergeRequest,
+    ): CancelablePromise<ResponseDtoCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/candidates/merge',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoCandidateResponse OK
+     * @throws ApiError
+     */
+    public static changeStage(
+        requestBody: CandidateStageChangeRequest,
+    ): CancelablePromise<ResponseDtoCandidateResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/candidates/change-stage',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param candidateId
+     * @returns ResponseDtoListCandidateStageHistoryResponse OK
+     * @throws ApiError
+     */
+    public static getStageHistory(
+        candidateId: number,
+    ): CancelablePromise<ResponseDtoListCandidateStageHistoryResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/candidates/stage-history',
+            query: {
+                'candidateId': candidateId,
+            },
+        });
+    }
+    /**
+     * Bulk import from an .xlsx workbook; the first sheet is headed by the
+     * candidate field keys
+     * @param formData
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static importCandidates(
+        formData: {
+            candidatesFile: Blob;
+        },
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/import/candidates',
+            formData: formData,
+        });
+    }
+}
@@ -0,0 +1,40 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { LogHistoryRequest } from '../models/LogHistoryRequest';
+import type { ResponseDtoListLogHistoryResponse } from '../models/ResponseDtoListLogHistoryResponse';
+import type { ResponseDtoLogHistoryResponse } from '../models/ResponseDtoLogHistoryResponse';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class LogHistoryService {
+    /**
+     * @param requestBody
+     * @returns ResponseDtoLogHistoryResponse OK
+     * @throws ApiError
+     */
+    public static addLogHistory(
+        requestBody: LogHistoryRequest,
+    ): CancelablePromise<ResponseDtoLogHistoryResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/log-history/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param ticketId
+     * @returns ResponseDtoListLogHistoryResponse OK
+     * @throws ApiError
+     */
+    public static getByTicketId(
+        ticketId: number,
+    ): CancelablePromise<ResponseDtoListLogHistoryResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/log-history/get-by-ticket-id',
+            query: {
+                'ticketId': ticketId,
+            },
+        });
+    }
+}
@@ -0,0 +1,44 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { ResponseDtoListNotificationResponse } from '../models/ResponseDtoListNotificationResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class NotificationService {
+    /**
+     * @returns ResponseDtoListNotificationResponse OK
+     * @throws ApiError
+     */
+    public static getMyNotifications(): CancelablePromise<ResponseDtoListNotificationResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/notification/get-all',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static markRead(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/notification/mark-read/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static markAllRead(): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/notification/mark-all-read',
+        });
+    }
+}
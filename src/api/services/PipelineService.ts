@@ -0,0 +1,39 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { PipelineRequest } from '../models/PipelineRequest';
+import type { ResponseDtoPipelineResponse } from '../models/ResponseDtoPipelineResponse';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class PipelineService {
+    /**
+     * @param companyId
+     * @returns ResponseDtoPipelineResponse OK
+     * @throws ApiError
+     */
+    public static getPipeline(
+        companyId: number,
+    ): CancelablePromise<ResponseDtoPipelineResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/pipeline/get-by-company/{companyId}',
+            path: {
+                'companyId': companyId,
+            },
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoPipelineResponse OK
+     * @throws ApiError
+     */
+    public static updatePipeline(
+        requestBody: PipelineRequest,
+    ): CancelablePromise<ResponseDtoPipelineResponse> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/pipeline/update',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+}
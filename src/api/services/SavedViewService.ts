@@ -0,0 +1,57 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { SavedViewRequest } from '../models/SavedViewRequest';
+import type { ResponseDtoSavedViewResponse } from '../models/ResponseDtoSavedViewResponse';
+import type { ResponseDtoListSavedViewResponse } from '../models/ResponseDtoListSavedViewResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class SavedViewService {
+    /**
+     * @param scope list the logged in user's views are for, e.g. `TICKET`
+     * @returns ResponseDtoListSavedViewResponse OK
+     * @throws ApiError
+     */
+    public static getAllViews(
+        scope: string,
+    ): CancelablePromise<ResponseDtoListSavedViewResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/saved-view/get-all',
+            query: {
+                'scope': scope,
+            },
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoSavedViewResponse OK
+     * @throws ApiError
+     */
+    public static addView(
+        requestBody: SavedViewRequest,
+    ): CancelablePromise<ResponseDtoSavedViewResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/saved-view/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteView(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/saved-view/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
@@ -0,0 +1,66 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { SlaPolicyRequest } from '../models/SlaPolicyRequest';
+import type { ResponseDtoSlaPolicyResponse } from '../models/ResponseDtoSlaPolicyResponse';
+import type { ResponseDtoListSlaPolicyResponse } from '../models/ResponseDtoListSlaPolicyResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class SlaPolicyService {
+    /**
+     * @returns ResponseDtoListSlaPolicyResponse OK
+     * @throws ApiError
+     */
+    public static getAllPolicies(): CancelablePromise<ResponseDtoListSlaPolicyResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/sla-policy/get-all',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoSlaPolicyResponse OK
+     * @throws ApiError
+     */
+    public static addPolicy(
+        requestBody: SlaPolicyRequest,
+    ): CancelablePromise<ResponseDtoSlaPolicyResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/sla-policy/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoSlaPolicyResponse OK
+     * @throws ApiError
+     */
+    public static updatePolicy(
+        requestBody: SlaPolicyRequest,
+    ): CancelablePromise<ResponseDtoSlaPolicyResponse> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/sla-policy/update',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deletePolicy(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/sla-policy/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
@@ -0,0 +1,58 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketAssignRequest } from '../models/TicketAssignRequest';
+import type { TicketEscalationRequest } from '../models/TicketEscalationRequest';
+import type { ResponseDtoListAssignHistoryResponse } from '../models/ResponseDtoListAssignHistoryResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class TicketAssignmentService {
+    /**
+     * @param requestBody
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static assignTickets(
+        requestBody: TicketAssignRequest,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/status/assign',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Flags the ticket to, or reassigns it to, the escalation user and records
+     * the escalation in the assign history
+     * @param requestBody
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static escalateTicket(
+        requestBody: TicketEscalationRequest,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/status/escalate',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param ticketId
+     * @returns ResponseDtoListAssignHistoryResponse OK
+     * @throws ApiError
+     */
+    public static getAssignHistory(
+        ticketId: number,
+    ): CancelablePromise<ResponseDtoListAssignHistoryResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/status/assign-history/{ticketId}',
+            path: {
+                'ticketId': ticketId,
+            },
+        });
+    }
+}
@@ -0,0 +1,72 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketCommentRequest } from '../models/TicketCommentRequest';
+import type { ResponseDtoTicketCommentResponse } from '../models/ResponseDtoTicketCommentResponse';
+import type { ResponseDtoListTicketCommentResponse } from '../models/ResponseDtoListTicketCommentResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class TicketCommentService {
+    /**
+     * @param ticketId
+     * @returns ResponseDtoListTicketCommentResponse OK
+     * @throws ApiError
+     */
+    public static getByTicketId(
+        ticketId: number,
+    ): CancelablePromise<ResponseDtoListTicketCommentResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket-comment/get-by-ticket-id',
+            query: {
+                'ticketId': ticketId,
+            },
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoTicketCommentResponse OK
+     * @throws ApiError
+     */
+    public static addComment(
+        requestBody: TicketCommentRequest,
+    ): CancelablePromise<ResponseDtoTicketCommentResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/ticket-comment/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoTicketCommentResponse OK
+     * @throws ApiError
+     */
+    public static updateComment(
+        requestBody: TicketCommentRequest,
+    ): CancelablePromise<ResponseDtoTicketCommentResponse> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/ticket-comment/update',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteComment(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/ticket-comment/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
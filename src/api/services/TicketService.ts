@@ -0,0 +1,182 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { TicketRequest } from '../models/TicketRequest';
+import type { ResponseDtoListTicketResponse } from '../models/ResponseDtoListTicketResponse';
+import type { ResponseDtoListTicketUserCountResponse } from '../models/ResponseDtoListTicketUserCountResponse';
+import type { ResponseDtoPageTicketResponse } from '../models/ResponseDtoPageTicketResponse';
+import type { ResponseDtoTicketResponse } from '../models/ResponseDtoTicketResponse';
+import type { ResponseDtoTicketStatusCountResponse } from '../models/ResponseDtoTicketStatusCountResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class TicketService {
+    /**
+     * @returns ResponseDtoListTicketResponse OK
+     * @throws ApiError
+     */
+    public static getAllTickets(): CancelablePromise<ResponseDtoListTicketResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/get-all',
+        });
+    }
+    /**
+     * @param page zero-based page index
+     * @param size
+     * @param sort property and direction, e.g. `nextFollowUpDate,asc`
+     * @param search
+     * @param status one status, or several separated by commas
+     * @param assignedTo assignee name or email
+     * @param candidate candidate name
+     * @param followUpFrom first next follow up date to include, `YYYY-MM-DD`
+     * @param followUpTo last next follow up date to include, `YYYY-MM-DD`
+     * @param createdFrom first creation date to include, `YYYY-MM-DD`
+     * @param createdTo last creation date to include, `YYYY-MM-DD`
+     * @returns ResponseDtoPageTicketResponse OK
+     * @throws ApiError
+     */
+    public static getTicketPage(
+        page: number,
+        size: number,
+        sort?: string,
+        search?: string,
+        status?: string,
+        assignedTo?: string,
+        candidate?: string,
+        followUpFrom?: string,
+        followUpTo?: string,
+        createdFrom?: string,
+        createdTo?: string,
+    ): CancelablePromise<ResponseDtoPageTicketResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/get-page',
+            query: {
+                'page': page,
+                'size': size,
+                'sort': sort,
+                'search': search,
+                'status': status,
+                'assignedTo': assignedTo,
+                'candidate': candidate,
+                'followUpFrom': followUpFrom,
+                'followUpTo': followUpTo,
+                'createdFrom': createdFrom,
+                'createdTo': createdTo,
+            },
+        });
+    }
+    /**
+     * Open tickets past an active SLA policy that nobody has escalated yet
+     * @param page zero-based page index
+     * @param size
+     * @returns ResponseDtoPageTicketResponse OK
+     * @throws ApiError
+     */
+    public static getSlaBreaches(
+        page: number,
+        size: number,
+    ): CancelablePromise<ResponseDtoPageTicketResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/sla-breaches',
+            query: {
+                'page': page,
+                'size': size,
+            },
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoTicketResponse OK
+     * @throws ApiError
+     */
+    public static getTicketById(
+        id: number,
+    ): CancelablePromise<ResponseDtoTicketResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/get-by-id/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @param requestBody
+     * @returns ResponseDtoTicketResponse OK
+     * @throws ApiError
+     */
+    public static addTicket(
+        requestBody: TicketRequest,
+    ): CancelablePromise<ResponseDtoTicketResponse> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/ticket/add',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteTicket(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/ticket/delete/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @returns ResponseDtoTicketStatusCountResponse OK
+     * @throws ApiError
+     */
+    public static getTicketStatusCount(): CancelablePromise<ResponseDtoTicketStatusCountResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/ticket-status-count',
+        });
+    }
+    /**
+     * Ticket counts per assignee, matched to users by name or email
+     * @param finishedSince first day that counts towards `finishedSince`, `YYYY-MM-DD`
+     * @returns ResponseDtoListTicketUserCountResponse OK
+     * @throws ApiError
+     */
+    public static getTicketCountByUser(
+        finishedSince?: string,
+    ): CancelablePromise<ResponseDtoListTicketUserCountResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/ticket/count-by-user',
+            query: {
+                'finishedSince': finishedSince,
+            },
+        });
+    }
+    /**
+     * @param email
+     * @param candidateId
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static sendCandidateDetail(
+        email: string,
+        candidateId: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/ticket/send-candidate-detail',
+            query: {
+                'email': email,
+                'candidateId': candidateId,
+            },
+        });
+    }
+}
@@ -0,0 +1,51 @@
+/* hand-written in the generated style -- endpoint not in the OpenAPI spec yet */
+import type { ResponseDtoListUserDetailResponse } from '../models/ResponseDtoListUserDetailResponse';
+import type { ResponseDtoUserDetailResponse } from '../generated/models/ResponseDtoUserDetailResponse';
+import type { ResponseDtoString } from '../generated/models/ResponseDtoString';
+import type { CancelablePromise } from '../generated/core/CancelablePromise';
+import { OpenAPI } from '../generated/core/OpenAPI';
+import { request as __request } from '../generated/core/request';
+export class UserService {
+    /**
+     * @returns ResponseDtoListUserDetailResponse OK
+     * @throws ApiError
+     */
+    public static getAllUsers(): CancelablePromise<ResponseDtoListUserDetailResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/auth/get-all',
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoUserDetailResponse OK
+     * @throws ApiError
+     */
+    public static getUserById(
+        id: number,
+    ): CancelablePromise<ResponseDtoUserDetailResponse> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/auth/getById/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * @param id
+     * @returns ResponseDtoString OK
+     * @throws ApiError
+     */
+    public static deleteUser(
+        id: number,
+    ): CancelablePromise<ResponseDtoString> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/auth/deleteById/{id}',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
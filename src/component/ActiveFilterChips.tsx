@@ -0,0 +1,41 @@
+import { X } from "lucide-react";
+import type { ActiveFilter } from "../utils/activeFilters";
+
+interface ActiveFilterChipsProps<F> {
+  // What the list shows, e.g. "tickets"
+  noun: string;
+  filters: ActiveFilter<F>[];
+  onClear: (clear: Partial<F>) => void;
+  onClearAll: () => void;
+}
+
+// The filters narrowing a list, whether set on the page or by a link or saved
+// view, each with its own clear button
+const ActiveFilterChips = <F,>({ noun, filters, onClear, onClearAll }: ActiveFilterChipsProps<F>) => {
+  if (filters.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-blue-800">
+        <i className="fas fa-info-circle mr-2"></i>
+        Showing {noun} with
+      </span>
+      {filters.map((filter) => (
+        <span
+          key={filter.label}
+          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-white border border-blue-200 text-blue-800"
+        >
+          {filter.label}
+          <button onClick={() => onClear(filter.clear)} aria-label={`Clear ${filter.label}`}>
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <button onClick={onClearAll} className="ml-1 text-blue-600 hover:text-blue-800 underline text-xs">
+        Clear filters
+      </button>
+    </div>
+  );
+};
+
+export default ActiveFilterChips;
@@ -0,0 +1,69 @@
+import DataTable, { type Column } from "./DataTable";
+import type { PlannedAssignment } from "../utils/autoAssign";
+
+// One candidate can have several tickets in a batch, so rows are keyed by position
+type PreviewRow = PlannedAssignment & { index: number };
+
+const columns: Column<PreviewRow>[] = [
+  {
+    id: "candidate",
+    header: "Candidate",
+    cell: ({ candidate }) => candidate.name || "N/A",
+    sortValue: ({ candidate }) => candidate.name,
+    sortable: true,
+  },
+  {
+    id: "skills",
+    header: "Skills",
+    cell: ({ candidate }) => (
+      <div className="truncate max-w-[200px]" title={candidate.skills}>
+        {candidate.skills || "-"}
+      </div>
+    ),
+  },
+  {
+    id: "user",
+    header: "Assign To",
+    cell: ({ user }) => (user ? user.name : <span className="text-red-600">Nobody</span>),
+    sortValue: ({ user }) => user?.name,
+    sortable: true,
+  },
+  { id: "reason", header: "Why", cell: ({ reason }) => <span className="text-gray-500">{reason}</span> },
+];
+
+// What a rule would do, shown before anything is assigned
+const AssignmentPreview = ({ plan }: { plan: PlannedAssignment[] }) => {
+  const perUser = new Map<string, number>();
+  for (const { user } of plan) {
+    if (!user) continue;
+    const name = user.name ?? `#${user.id}`;
+    perUser.set(name, (perUser.get(name) ?? 0) + 1);
+  }
+  const unassigned = plan.filter(({ user }) => !user).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        {[...perUser].map(([name, count]) => (
+          <span key={name} className="px-2 py-1 rounded-full bg-blue-50 text-blue-800">
+            {name}: <strong>{count}</strong>
+          </span>
+        ))}
+        {unassigned > 0 && (
+          <span className="px-2 py-1 rounded-full bg-red-50 text-red-700">
+            Can't be assigned: <strong>{unassigned}</strong>
+          </span>
+        )}
+      </div>
+      <DataTable
+        columns={columns}
+        data={plan.map((planned, index) => ({ ...planned, index }))}
+        rowKey={({ index }) => index}
+        emptyMessage="Nothing to assign"
+        pagination={false}
+      />
+    </div>
+  );
+};
+
+export default AssignmentPreview;
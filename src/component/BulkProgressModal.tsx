@@ -0,0 +1,68 @@
+import type { ReactNode } from "react";
+import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from "lucide-react";
+import Modal from "./Modal";
+import type { BulkItemResult, BulkItemState } from "../hooks/useBulkOperation";
+
+const stateIcons: Record<BulkItemState, ReactNode> = {
+  pending: <Circle className="w-4 h-4 text-gray-300" />,
+  running: <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-green-600" />,
+  skipped: <MinusCircle className="w-4 h-4 text-amber-500" />,
+  failed: <XCircle className="w-4 h-4 text-red-600" />,
+};
+
+interface BulkProgressModalProps {
+  title: string;
+  results: BulkItemResult[];
+  running: boolean;
+  onClose: () => void;
+}
+
+// Row by row outcome of a bulk action. It can't be closed mid-run, so the
+// user sees how every row ended.
+const BulkProgressModal = ({ title, results, running, onClose }: BulkProgressModalProps) => {
+  const count = (state: BulkItemState) => results.filter((result) => result.state === state).length;
+  const finished = results.length - count("pending") - count("running");
+
+  return (
+    <Modal title={title} onClose={() => !running && onClose()} size="lg">
+      <div className="space-y-3">
+        <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${results.length ? (finished / results.length) * 100 : 0}%` }}
+          />
+        </div>
+        <p className="text-sm text-gray-600">
+          {finished} of {results.length} processed · <span className="text-green-700">{count("done")} succeeded</span>
+          {count("skipped") > 0 && <> · <span className="text-amber-700">{count("skipped")} skipped</span></>}
+          {count("failed") > 0 && <> · <span className="text-red-700">{count("failed")} failed</span></>}
+        </p>
+
+        <ul className="max-h-80 overflow-y-auto divide-y border rounded">
+          {results.map((result) => (
+            <li key={result.key} className="flex items-start gap-2 px-3 py-2 text-sm">
+              <span className="mt-0.5 shrink-0">{stateIcons[result.state]}</span>
+              <span className="font-medium text-gray-800">{result.label}</span>
+              {result.message && (
+                <span className={result.state === "failed" ? "text-red-600" : "text-gray-500"}>{result.message}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={onClose}
+          disabled={running}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {running ? "Working..." : "Close"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default BulkProgressModal;
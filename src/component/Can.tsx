@@ -0,0 +1,18 @@
+import type { ReactNode } from "react";
+import { usePermission } from "../hooks/usePermission";
+import type { Permission } from "../utils/permissions";
+
+interface CanProps {
+  permission: Permission;
+  children: ReactNode;
+  // Rendered instead of children when the permission is missing
+  fallback?: ReactNode;
+}
+
+// Render children only when the logged in user holds the permission
+const Can = ({ permission, children, fallback = null }: CanProps) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { ArrowLeftRight } from "lucide-react";
+import { notifyError } from "../utils/notify";
+import { confirm } from "../utils/confirm";
+import { useMergeCandidatesMutation } from "../store/slices/apiSlice";
+import { MERGE_FIELDS, defaultMergeWinners, type MergeField } from "../utils/candidateDuplicates";
+import type { CandidateResponse } from "../api/models/CandidateResponse";
+import Modal from "./Modal";
+
+type Side = "survivor" | "duplicate";
+
+const candidateLabel = (candidate: CandidateResponse) =>
+  `${candidate.name || "Unnamed"} (#${candidate.id})`;
+
+// Fold one candidate into another. Every field is taken from whichever record
+// the user picks, both resumes are kept and the duplicate's tickets move over
+// before it is deleted.
+const CandidateMergeModal = ({
+  candidates,
+  onClose,
+  onMerged,
+}: {
+  // A duplicate group; the user picks the pair to merge when it has more than two
+  candidates: CandidateResponse[];
+  onClose: () => void;
+  onMerged?: (survivorId: number, duplicateId: number) => void;
+}) => {
+  const [mergeCandidates, { isLoading: merging }] = useMergeCandidatesMutation();
+  const [survivorId, setSurvivorId] = useState(candidates[0]?.id);
+  const [duplicateId, setDuplicateId] = useState(candidates[1]?.id);
+  const survivor = candidates.find((c) => c.id === survivorId);
+  const duplicate = candidates.find((c) => c.id === duplicateId);
+  const [winners, setWinners] = useState(() =>
+    survivor && duplicate ? defaultMergeWinners(survivor, duplicate) : undefined
+  );
+  const [mainResume, setMainResume] = useState<Side>(survivor?.resumeLink ? "survivor" : "duplicate");
+
+  const choosePair = (nextSurvivorId: number | undefined, nextDuplicateId: number | undefined) => {
+    setSurvivorId(nextSurvivorId);
+    setDuplicateId(nextDuplicateId);
+    const nextSurvivor = candidates.find((c) => c.id === nextSurvivorId);
+    const nextDuplicate = candidates.find((c) => c.id === nextDuplicateId);
+    setWinners(nextSurvivor && nextDuplicate ? defaultMergeWinners(nextSurvivor, nextDuplicate) : undefined);
+    setMainResume(nextSurvivor?.resumeLink ? "survivor" : "duplicate");
+  };
+
+  const pick = (field: MergeField, side: Side) => winners && setWinners({ ...winners, [field]: side });
+
+  const handleMerge = async () => {
+    if (!survivor?.id || !duplicate?.id || !winners || survivor.id === duplicate.id) {
+      toast.error("Pick two different candidates");
+      return;
+    }
+
+    const confirmed = await confirm({
+      title: "Merge Candidates",
+      message: (
+        <>
+          <b>{candidateLabel(duplicate)}</b> will be deleted and its tickets moved to{" "}
+          <b>{candidateLabel(survivor)}</b>. This cannot be undone.
+        </>
+      ),
+      confirmLabel: "Merge",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    const merged = Object.fromEntries(
+      MERGE_FIELDS.map(({ key }) => [key, (winners[key] === "survivor" ? survivor : duplicate)[key] ?? ""])
+    );
+    const resumes = mainResume === "survivor" ? [survivor, duplicate] : [duplicate, survivor];
+    const resumeLinks = resumes.map((c) => c.resumeLink).filter((link): link is string => !!link);
+
+    try {
+      await mergeCandidates({
+        survivorId: survivor.id,
+        duplicateId: duplicate.id,
+        candidate: { ...merged, id: survivor.id, resumeLink: resumeLinks[0] ?? null },
+        resumeLinks,
+      }).unwrap();
+      toast.success("Candidates merged");
+      onMerged?.(survivor.id, duplicate.id);
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to merge candidates");
+    }
+  };
+
+  const valueCell = (field: MergeField, side: Side, candidate: CandidateResponse) => {
+    const value = candidate[field];
+    return (
+      <label
+        className={`flex items-start gap-2 p-2 rounded cursor-pointer ${
+          winners?.[field] === side ? "bg-blue-50 ring-1 ring-blue-300" : "hover:bg-gray-50"
+        }`}
+      >
+        <input
+          type="radio"
+          name={`merge-${field}`}
+          checked={winners?.[field] === side}
+          onChange={() => pick(field, side)}
+          className="mt-1"
+        />
+        <span className={`break-words ${value ? "text-gray-900" : "text-gray-400 italic"}`}>{value || "empty"}</span>
+      </label>
+    );
+  };
+
+  return (
+    <Modal title="Merge Candidates" onClose={onClose} size="lg">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex-1 min-w-[12rem]">
+            <span className="text-sm font-medium text-gray-700">Keep</span>
+            <select
+              value={survivorId ?? ""}
+              onChange={(e) => choosePair(Number(e.target.value), duplicateId)}
+              className="mt-1 w-full border rounded p-2"
+            >
+              {candidates.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {candidateLabel(c)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => choosePair(duplicateId, survivorId)}
+            className="p-2 mb-0.5 text-gray-600 hover:text-gray-900 rounded hover:bg-gray-100"
+            title="Swap"
+          >
+            <ArrowLeftRight className="w-5 h-5" />
+          </button>
+          <label className="flex-1 min-w-[12rem]">
+            <span className="text-sm font-medium text-gray-700">Merge in and delete</span>
+            <select
+              value={duplicateId ?? ""}
+              onChange={(e) => choosePair(survivorId, Number(e.target.value))}
+              className="mt-1 w-full border rounded p-2"
+            >
+              {candidates.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {candidateLabel(c)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {survivor && duplicate && survivor.id !== duplicate.id ? (
+          <>
+            <table className="w-full text-sm table-fixed">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="w-32 pb-2 font-medium">Field</th>
+                  <th className="pb-2 font-medium">{candidateLabel(survivor)}</th>
+                  <th className="pb-2 font-medium">{candidateLabel(duplicate)}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {MERGE_FIELDS.map(({ key, label }) => (
+                  <tr key={key} className="align-top">
+                    <td className="py-1 pr-2 font-medium text-gray-700">{label}</td>
+                    <td className="py-1 pr-2">{valueCell(key, "survivor", survivor)}</td>
+                    <td className="py-1">{valueCell(key, "duplicate", duplicate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Resumes</h3>
+              {survivor.resumeLink || duplicate.resumeLink ? (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">Both are kept. Pick the one shown as the main resume.</p>
+                  {(["survivor", "duplicate"] as const).map((side) => {
+                    const link = (side === "survivor" ? survivor : duplicate).resumeLink;
+                    if (!link) return null;
+                    return (
+                      <label key={side} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="radio"
+                          name="merge-main-resume"
+                          checked={mainResume === side}
+                          onChange={() => setMainResume(side)}
+                        />
+                        <a href={link} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline truncate">
+                          {link}
+                        </a>
+                      </label>
+                    );
+                  })}
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Neither record has a resume.</p>
+              )}
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Tickets and stage history of <b>{candidateLabel(duplicate)}</b> move to the record that is kept.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">Pick two different candidates to compare.</p>
+        )}
+      </div>
+
+      <div className="mt-6 flex justify-end space-x-3">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={handleMerge}
+          disabled={merging || !survivor || !duplicate || survivor.id === duplicate.id}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {merging ? "Merging..." : "Merge"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default CandidateMergeModal;
@@ -0,0 +1,24 @@
+import { findStage, isStageKind, stageLabel, type StageKind } from "../utils/pipeline";
+import type { PipelineStage } from "../api/models/PipelineStage";
+
+const badgeClasses: Record<StageKind, string> = {
+  OPEN: "bg-indigo-100 text-indigo-800",
+  HIRED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
+// Stages that are no longer in the pipeline render in neutral grey
+const CandidateStageBadge = ({ stage, stages }: { stage?: string | null; stages: PipelineStage[] }) => {
+  const kind = findStage(stages, stage)?.kind;
+  return (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${
+        isStageKind(kind) ? badgeClasses[kind] : "bg-gray-100 text-gray-800"
+      }`}
+    >
+      {stage ? stageLabel(stages, stage) : "Not set"}
+    </span>
+  );
+};
+
+export default CandidateStageBadge;
@@ -0,0 +1,45 @@
+import { ArrowRight } from "lucide-react";
+import { useNotifyError } from "../hooks/useNotifyError";
+import { usePipeline } from "../hooks/usePipeline";
+import { useGetCandidateStageHistoryQuery } from "../store/slices/apiSlice";
+import { formatDateTime, toTimestamp } from "../utils/date";
+import CandidateStageBadge from "./CandidateStageBadge";
+
+// Every stage change of one candidate, newest first
+const CandidateStageHistory = ({ candidateId }: { candidateId: number }) => {
+  const { stages } = usePipeline();
+  const { data: history = [], isLoading, error } = useGetCandidateStageHistoryQuery(candidateId);
+
+  useNotifyError(error, "Failed to fetch stage history");
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading history...</p>;
+  if (history.length === 0) return <p className="text-sm text-gray-500">No stage changes yet.</p>;
+
+  const sorted = [...history].sort((a, b) => (toTimestamp(b.changedOn) ?? 0) - (toTimestamp(a.changedOn) ?? 0));
+
+  return (
+    <ol className="space-y-2 max-h-56 overflow-y-auto">
+      {sorted.map((entry, index) => (
+        <li key={entry.id ?? index} className="p-2 rounded border bg-gray-50 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            {entry.fromStage && (
+              <>
+                <CandidateStageBadge stage={entry.fromStage} stages={stages} />
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+              </>
+            )}
+            <CandidateStageBadge stage={entry.toStage} stages={stages} />
+          </div>
+          {entry.rejectionReason && <p className="mt-1 text-red-700">Reason: {entry.rejectionReason}</p>}
+          {entry.note && <p className="mt-1 text-gray-700 whitespace-pre-line">{entry.note}</p>}
+          <p className="mt-1 text-xs text-gray-500">
+            {formatDateTime(entry.changedOn)}
+            {entry.changedBy && <> &middot; {entry.changedBy}</>}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CandidateStageHistory;
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { ArrowRight } from "lucide-react";
+import { notifyError } from "../utils/notify";
+import { usePipeline } from "../hooks/usePipeline";
+import { useChangeCandidateStageMutation } from "../store/slices/apiSlice";
+import { findStage } from "../utils/pipeline";
+import Modal from "./Modal";
+import CandidateStageBadge from "./CandidateStageBadge";
+import CandidateStageHistory from "./CandidateStageHistory";
+
+// Move a candidate to another pipeline stage. Rejections need a reason from
+// the company's list so they can be reported on.
+const CandidateStageModal = ({
+  candidate,
+  onClose,
+}: {
+  candidate: { id: number; name: string; stage?: string | null };
+  onClose: () => void;
+}) => {
+  const { stages, rejectionReasons } = usePipeline();
+  const [changeStage, { isLoading: saving }] = useChangeCandidateStageMutation();
+  const [stage, setStage] = useState(candidate.stage ?? "");
+  const [reason, setReason] = useState("");
+  const [note, setNote] = useState("");
+
+  const rejecting = findStage(stages, stage)?.kind === "REJECTED";
+
+  const handleSave = async () => {
+    if (!stage || stage === candidate.stage) {
+      toast.error("Pick a different stage");
+      return;
+    }
+    if (rejecting && !reason) {
+      toast.error("Select a rejection reason");
+      return;
+    }
+
+    try {
+      await changeStage({
+        candidateId: candidate.id,
+        stage,
+        rejectionReason: rejecting ? reason : undefined,
+        note: note.trim() || undefined,
+      }).unwrap();
+      toast.success("Stage updated");
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to change stage");
+    }
+  };
+
+  return (
+    <Modal title={`Stage of ${candidate.name}`} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <CandidateStageBadge stage={candidate.stage} stages={stages} />
+          <ArrowRight className="w-4 h-4 text-gray-400" />
+          <CandidateStageBadge stage={stage || null} stages={stages} />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {stages.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => setStage(option.key ?? "")}
+              className={`px-3 py-1.5 text-sm rounded-full border ${
+                stage === option.key
+                  ? option.kind === "REJECTED"
+                    ? "bg-red-600 text-white border-red-600"
+                    : "bg-blue-600 text-white border-blue-600"
+                  : "bg-white hover:bg-gray-50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {rejecting && (
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Rejection reason *</span>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1 w-full border rounded p-2"
+            >
+              <option value="">Select a reason</option>
+              {rejectionReasons.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Note</span>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            className="mt-1 w-full border rounded p-2"
+            placeholder="Optional"
+          />
+        </label>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">History</h3>
+          <CandidateStageHistory candidateId={candidate.id} />
+        </div>
+      </div>
+
+      <div className="mt-6 flex justify-end space-x-3">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default CandidateStageModal;
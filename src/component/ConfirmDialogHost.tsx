@@ -0,0 +1,55 @@
+import { useSyncExternalStore } from "react";
+import * as AlertDialog from "@radix-ui/react-alert-dialog";
+import { getConfirmRequests, subscribeToConfirms, type ConfirmRequest } from "../utils/confirm";
+
+const ConfirmDialog = ({ request }: { request: ConfirmRequest }) => {
+  const { title, message, confirmLabel = "Confirm", cancelLabel = "Cancel", tone = "default", settle } = request;
+
+  return (
+    <AlertDialog.Root open onOpenChange={(open) => !open && settle(false)}>
+      <AlertDialog.Portal>
+        <AlertDialog.Overlay className="fixed inset-0 z-[110] bg-black/40 backdrop-blur-sm" />
+        <AlertDialog.Content className="fixed left-1/2 top-1/2 z-[110] w-[calc(100vw-2rem)] max-w-md -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl p-6 focus:outline-none">
+          <div className="text-center">
+            {tone === "danger" && (
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 mb-4">
+                <i className="fas fa-exclamation-triangle text-red-600 text-xl"></i>
+              </div>
+            )}
+            <AlertDialog.Title className="text-lg font-medium text-gray-900 mb-2">{title}</AlertDialog.Title>
+            <AlertDialog.Description asChild>
+              <div className="text-gray-600 mb-6">{message}</div>
+            </AlertDialog.Description>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <AlertDialog.Cancel className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+              {cancelLabel}
+            </AlertDialog.Cancel>
+            <AlertDialog.Action
+              onClick={() => settle(true)}
+              className={`px-4 py-2 text-white rounded ${
+                tone === "danger" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+              }`}
+            >
+              {confirmLabel}
+            </AlertDialog.Action>
+          </div>
+        </AlertDialog.Content>
+      </AlertDialog.Portal>
+    </AlertDialog.Root>
+  );
+};
+
+// Renders whatever confirm() is waiting on. Mounted once, next to the Toaster.
+const ConfirmDialogHost = () => {
+  const requests = useSyncExternalStore(subscribeToConfirms, getConfirmRequests);
+  return (
+    <>
+      {requests.map((request) => (
+        <ConfirmDialog key={request.id} request={request} />
+      ))}
+    </>
+  );
+};
+
+export default ConfirmDialogHost;
@@ -0,0 +1,383 @@
+import { Fragment, useState, type CSSProperties, type Key, type ReactNode, type Ref } from "react";
+import { ChevronDown, ChevronRight, Columns3 } from "lucide-react";
+import Pagination, { PageSizeBar } from "./Pagination";
+import SortableHeader from "./SortableHeader";
+import { PAGE_SIZE_OPTIONS, nextSort, type SortState } from "../api/pagination";
+
+export interface Column<T> {
+  // Stable id; also the sort field sent to the server for sortable columns
+  id: string;
+  header: string;
+  // `index` counts across pages, so row numbers keep going on page 2
+  cell: (row: T, index: number) => ReactNode;
+  // Pixel width. Required for sticky columns so the next one knows its offset.
+  width?: number;
+  // Frozen to the left while the rest scrolls; sticky columns go first
+  sticky?: boolean;
+  sortable?: boolean;
+  // Value compared when the table sorts its own rows (no `onSortChange`)
+  sortValue?: (row: T) => string | number | null | undefined;
+  // Hidden until switched on from the column menu
+  defaultHidden?: boolean;
+  // Set to false for columns like Actions that must stay visible
+  hideable?: boolean;
+  className?: string;
+}
+
+// Page state owned by the caller, for lists paged on the server
+export interface ServerPagination {
+  page: number;
+  size: number;
+  totalElements: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  onSizeChange: (size: number) => void;
+}
+
+export interface RowSelection<K extends Key = Key> {
+  selectedKeys: ReadonlySet<K>;
+  onChange: (keys: Set<K>) => void;
+}
+
+export interface ExpandableRows<T> {
+  render: (row: T) => ReactNode;
+  // Fired when a row opens, e.g. to load its details
+  onExpand?: (row: T) => void;
+}
+
+interface DataTableProps<T, K extends Key> {
+  columns: Column<T>[];
+  data: T[];
+  rowKey: (row: T) => K;
+  loading?: boolean;
+  emptyMessage?: ReactNode;
+  // Search box above the table. Pass `search` to own its value (server-side
+  // filtering); pass `getSearchText` to let the table filter the rows itself.
+  search?: { value: string; onChange: (value: string) => void };
+  searchPlaceholder?: string;
+  getSearchText?: (row: T) => string;
+  // Extra controls shown next to the search box
+  toolbar?: ReactNode;
+  // Controlled sort for server-side lists; without it the table sorts `data`
+  sort?: SortState;
+  onSortChange?: (field: string) => void;
+  // Server page state, or false to show every row on one page
+  pagination?: ServerPagination | false;
+  selection?: RowSelection<K>;
+  expandable?: ExpandableRows<T>;
+  minWidth?: number;
+  containerRef?: Ref<HTMLDivElement>;
+  containerStyle?: CSSProperties;
+}
+
+const SELECT_COLUMN_WIDTH = 40;
+
+const compareValues = (a: string | number | null | undefined, b: string | number | null | undefined) => {
+  if (a == null || a === "") return b == null || b === "" ? 0 : 1;
+  if (b == null || b === "") return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+};
+
+// Table used by every Show page. Lists small enough to load whole are
+// searched, sorted and paged in memory; server-paged lists hand the table
+// their `sort` and `pagination` state and it only renders.
+const DataTable = <T, K extends Key = Key>({
+  columns,
+  data,
+  rowKey,
+  loading = false,
+  emptyMessage = "No records found",
+  search,
+  searchPlaceholder = "Search...",
+  getSearchText,
+  toolbar,
+  sort: controlledSort,
+  onSortChange,
+  pagination,
+  selection,
+  expandable,
+  minWidth,
+  containerRef,
+  containerStyle,
+}: DataTableProps<T, K>) => {
+  const [localSearch, setLocalSearch] = useState("");
+  const [localSort, setLocalSort] = useState<SortState>();
+  const [localPage, setLocalPage] = useState(1);
+  const [localSize, setLocalSize] = useState(PAGE_SIZE_OPTIONS[0]);
+  const [hiddenColumns, setHiddenColumns] = useState(
+    () => new Set(columns.filter((column) => column.defaultHidden).map((column) => column.id))
+  );
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [expandedKey, setExpandedKey] = useState<K | null>(null);
+
+  const searchValue = search?.value ?? localSearch;
+  const sort = onSortChange ? controlledSort : localSort;
+  const serverPaged = !!pagination;
+
+  const handleSearchChange = (value: string) => {
+    if (search) search.onChange(value);
+    else setLocalSearch(value);
+    setLocalPage(1);
+  };
+
+  const handleSort = (field: string) => {
+    if (onSortChange) onSortChange(field);
+    else setLocalSort(nextSort(localSort, field));
+  };
+
+  const visibleColumns = columns.filter((column) => !hiddenColumns.has(column.id));
+  const hideableColumns = columns.filter((column) => column.hideable !== false);
+
+  // Search and sort in memory unless the server already did
+  const rows = (() => {
+    let result = data;
+    const query = searchValue.trim().toLowerCase();
+    if (getSearchText && query) {
+      result = result.filter((row) => getSearchText(row).toLowerCase().includes(query));
+    }
+
+    const sortColumn = !onSortChange && sort ? columns.find((column) => column.id === sort.field) : undefined;
+    if (sortColumn?.sortValue && sort) {
+      const value = sortColumn.sortValue;
+      const direction = sort.direction === "asc" ? 1 : -1;
+      result = [...result].sort((a, b) => direction * compareValues(value(a), value(b)));
+    }
+    return result;
+  })();
+
+  const totalElements = serverPaged ? pagination.totalElements : rows.length;
+  const size = serverPaged ? pagination.size : pagination === false ? Math.max(rows.length, 1) : localSize;
+  const totalPages = serverPaged ? pagination.totalPages : Math.ceil(rows.length / size);
+  const page = serverPaged ? pagination.page : Math.min(localPage, Math.max(totalPages, 1));
+  const offset = (page - 1) * size;
+  const pageRows = serverPaged || pagination === false ? rows : rows.slice(offset, offset + size);
+
+  const setPage = serverPaged ? pagination.onPageChange : setLocalPage;
+  const setSize = serverPaged
+    ? pagination.onSizeChange
+    : (nextSize: number) => {
+        setLocalSize(nextSize);
+        setLocalPage(1);
+      };
+
+  const toggleColumn = (id: string) => {
+    setHiddenColumns((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleExpanded = (row: T) => {
+    const key = rowKey(row);
+    if (expandedKey === key) {
+      setExpandedKey(null);
+    } else {
+      setExpandedKey(key);
+      expandable?.onExpand?.(row);
+    }
+  };
+
+  // Select-all works on the rows on screen
+  const pageKeys = pageRows.map(rowKey);
+  const allSelected = !!selection && pageKeys.length > 0 && pageKeys.every((key) => selection.selectedKeys.has(key));
+
+  const toggleAll = () => {
+    if (!selection) return;
+    const next = new Set(selection.selectedKeys);
+    pageKeys.forEach((key) => (allSelected ? next.delete(key) : next.add(key)));
+    selection.onChange(next);
+  };
+
+  const toggleRow = (key: K) => {
+    if (!selection) return;
+    const next = new Set(selection.selectedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    selection.onChange(next);
+  };
+
+  // Offsets for the frozen columns, stacked left to right
+  const hasSticky = visibleColumns.some((column) => column.sticky);
+  const stickyLeft = new Map<string, number>();
+  let left = selection && hasSticky ? SELECT_COLUMN_WIDTH : 0;
+  for (const column of visibleColumns) {
+    if (!column.sticky) continue;
+    stickyLeft.set(column.id, left);
+    left += column.width ?? 0;
+  }
+
+  const columnStyle = (column: Column<T>): CSSProperties => ({
+    minWidth: column.width,
+    width: column.width,
+    left: stickyLeft.get(column.id),
+  });
+
+  const colSpan = visibleColumns.length + (selection ? 1 : 0) + (expandable ? 1 : 0);
+  const showSearch = !!search || !!getSearchText;
+
+  return (
+    <div>
+      {/* Search, page-specific controls and the column menu */}
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2 flex-1">
+          {showSearch && (
+            <input
+              type="text"
+              placeholder={searchPlaceholder}
+              value={searchValue}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className="flex-1 max-w-md border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          {toolbar}
+        </div>
+
+        {hideableColumns.length > 1 && (
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowColumnMenu(!showColumnMenu)}
+              className="px-3 py-2 bg-white border rounded-lg hover:bg-gray-50 flex items-center gap-2 text-sm"
+            >
+              <Columns3 className="w-4 h-4" /> Columns
+            </button>
+            {showColumnMenu && (
+              <>
+                <div className="fixed inset-0 z-30" onClick={() => setShowColumnMenu(false)} />
+                <div className="absolute right-0 mt-1 bg-white border rounded-lg shadow-lg min-w-[180px] z-40 py-1">
+                  {hideableColumns.map((column) => (
+                    <label
+                      key={column.id}
+                      className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-gray-50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!hiddenColumns.has(column.id)}
+                        onChange={() => toggleColumn(column.id)}
+                      />
+                      {column.header}
+                    </label>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {pagination !== false && (
+        <PageSizeBar page={page} size={size} totalElements={totalElements} onSizeChange={setSize} />
+      )}
+
+      <div
+        ref={containerRef}
+        className="overflow-auto max-h-[70vh] shadow rounded-lg bg-white border border-gray-200"
+        style={containerStyle}
+      >
+        <table className="w-full border-collapse" style={{ minWidth }}>
+          <thead className="bg-gray-100 sticky top-0 z-20">
+            <tr className="text-center text-sm">
+              {selection && (
+                <th
+                  className={`p-2 border bg-gray-100 ${hasSticky ? "sticky left-0 z-30" : ""}`}
+                  style={{ width: SELECT_COLUMN_WIDTH, minWidth: SELECT_COLUMN_WIDTH }}
+                >
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all rows" />
+                </th>
+              )}
+              {visibleColumns.map((column) => (
+                <th
+                  key={column.id}
+                  className={`p-3 border bg-gray-100 font-semibold ${column.sticky ? "sticky z-30" : ""}`}
+                  style={columnStyle(column)}
+                  aria-sort={
+                    sort?.field === column.id ? (sort.direction === "asc" ? "ascending" : "descending") : undefined
+                  }
+                >
+                  {column.sortable ? (
+                    <SortableHeader label={column.header} field={column.id} sort={sort} onSort={handleSort} />
+                  ) : (
+                    column.header
+                  )}
+                </th>
+              ))}
+              {expandable && <th className="p-3 border bg-gray-100 font-semibold w-[80px]">Expand</th>}
+            </tr>
+          </thead>
+          <tbody className={loading && pageRows.length ? "opacity-60" : ""}>
+            {pageRows.length ? (
+              pageRows.map((row, idx) => {
+                const key = rowKey(row);
+                const expanded = expandable && expandedKey === key;
+                return (
+                  <Fragment key={key}>
+                    <tr className="text-center text-sm hover:bg-gray-50 border-b">
+                      {selection && (
+                        <td className={`p-2 border bg-white ${hasSticky ? "sticky left-0 z-10" : ""}`}>
+                          <input
+                            type="checkbox"
+                            checked={selection.selectedKeys.has(key)}
+                            onChange={() => toggleRow(key)}
+                            aria-label="Select row"
+                          />
+                        </td>
+                      )}
+                      {visibleColumns.map((column) => (
+                        <td
+                          key={column.id}
+                          className={`p-3 border ${column.sticky ? "bg-white sticky z-10 font-medium" : ""} ${column.className ?? ""}`}
+                          style={columnStyle(column)}
+                        >
+                          {column.cell(row, offset + idx)}
+                        </td>
+                      ))}
+                      {expandable && (
+                        <td className="p-2 border">
+                          <button
+                            type="button"
+                            onClick={() => toggleExpanded(row)}
+                            className="text-blue-600 hover:text-blue-800 p-1"
+                            aria-expanded={!!expanded}
+                          >
+                            {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={colSpan} className="p-0 border-b">
+                          {expandable.render(row)}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })
+            ) : (
+              <tr>
+                <td className="p-6 text-center text-gray-500" colSpan={colSpan}>
+                  {loading ? (
+                    <span className="inline-flex items-center">
+                      <span className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-3"></span>
+                      Loading...
+                    </span>
+                  ) : (
+                    emptyMessage
+                  )}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pagination !== false && <Pagination page={page} totalPages={totalPages} onPageChange={setPage} />}
+    </div>
+  );
+};
+
+export default DataTable;
@@ -0,0 +1,62 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle } from "lucide-react";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useNotifyError } from "../hooks/useNotifyError";
+import { useFindDuplicateCandidatesQuery } from "../store/slices/apiSlice";
+import { DUPLICATE_FIELD_LABELS, duplicateLookup, matchingFields } from "../utils/candidateDuplicates";
+
+const LOOKUP_DEBOUNCE_MS = 400;
+
+interface DuplicateCandidateWarningProps {
+  email: string;
+  phone: string;
+  linkedInProfile: string;
+  // Leave the candidate being edited out of its own matches
+  excludeId?: number;
+}
+
+// Warns while a candidate form is filled in that the person already exists
+const DuplicateCandidateWarning = ({ email, phone, linkedInProfile, excludeId }: DuplicateCandidateWarningProps) => {
+  const identity = { email, phone, linkedInProfile };
+  const lookup = useDebouncedValue(JSON.stringify(duplicateLookup(identity) ?? null), LOOKUP_DEBOUNCE_MS);
+  const params = JSON.parse(lookup) as ReturnType<typeof duplicateLookup> | null;
+  const { data: matches = [], error } = useFindDuplicateCandidatesQuery(
+    { ...params, excludeId },
+    { skip: !params }
+  );
+
+  useNotifyError(error, "Failed to check for duplicates");
+
+  // The lookup lags the form by the debounce; only show matches that still hold
+  const current = matches
+    .map((candidate) => ({ candidate, fields: matchingFields(identity, candidate) }))
+    .filter(({ fields }) => fields.length > 0);
+
+  if (!params || current.length === 0) return null;
+
+  return (
+    <div className="p-4 rounded-lg border border-amber-300 bg-amber-50">
+      <p className="flex items-center gap-2 font-medium text-amber-800">
+        <AlertTriangle className="w-4 h-4" />
+        {current.length === 1 ? "This candidate may already exist" : `${current.length} existing candidates match`}
+      </p>
+      <ul className="mt-2 space-y-1 text-sm">
+        {current.map(({ candidate, fields }) => (
+          <li key={candidate.id} className="flex flex-wrap items-center gap-x-2">
+            <Link
+              to={`/home/candidate/show?search=${encodeURIComponent(candidate.email || candidate.name || "")}`}
+              className="font-medium text-blue-600 hover:underline"
+            >
+              {candidate.name || "Unnamed candidate"}
+            </Link>
+            <span className="text-gray-600">
+              same {fields.map((field) => DUPLICATE_FIELD_LABELS[field].toLowerCase()).join(", ")}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateCandidateWarning;
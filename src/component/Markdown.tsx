@@ -0,0 +1,92 @@
+import { Fragment, useMemo } from "react";
+import { parseMarkdown, type MarkdownInline } from "../utils/markdown";
+
+const Inline = ({ nodes }: { nodes: MarkdownInline[] }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <Fragment key={index}>{node.text}</Fragment>;
+        case "code":
+          return (
+            <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-[0.85em] font-mono">
+              {node.text}
+            </code>
+          );
+        case "strong":
+          return (
+            <strong key={index}>
+              <Inline nodes={node.children} />
+            </strong>
+          );
+        case "em":
+          return (
+            <em key={index}>
+              <Inline nodes={node.children} />
+            </em>
+          );
+        case "link":
+          return (
+            <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              <Inline nodes={node.children} />
+            </a>
+          );
+        case "mention":
+          return (
+            <span key={index} className="px-1 rounded bg-blue-50 text-blue-700 font-medium">
+              @{node.name}
+            </span>
+          );
+      }
+    })}
+  </>
+);
+
+const Lines = ({ lines }: { lines: MarkdownInline[][] }) => (
+  <>
+    {lines.map((line, index) => (
+      <Fragment key={index}>
+        {index > 0 && <br />}
+        <Inline nodes={line} />
+      </Fragment>
+    ))}
+  </>
+);
+
+// Comment text with its formatting, see utils/markdown
+const Markdown = ({ source, className = "" }: { source: string; className?: string }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        if (block.type === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={index} className={`pl-5 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <Inline nodes={item} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+        if (block.type === "quote") {
+          return (
+            <blockquote key={index} className="pl-3 border-l-4 border-gray-200 text-gray-600">
+              <Lines lines={block.lines} />
+            </blockquote>
+          );
+        }
+        return (
+          <p key={index}>
+            <Lines lines={block.lines} />
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Markdown;
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import { activeMention, mentionToken } from "../utils/mentions";
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+
+const MAX_SUGGESTIONS = 6;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: UserDetailResponse[];
+  placeholder?: string;
+  rows?: number;
+  autoFocus?: boolean;
+  // Ctrl/Cmd+Enter
+  onSubmit?: () => void;
+}
+
+// Textarea that offers matching users after an "@" and inserts the picked one
+// as a mention token
+const MentionTextarea = ({ value, onChange, users, placeholder, rows = 3, autoFocus, onSubmit }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  // Where the caret goes once an inserted mention has rendered
+  const pendingCaret = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (pendingCaret.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    pendingCaret.current = null;
+  }, [value]);
+
+  const query = mention?.query.toLowerCase() ?? "";
+  const suggestions = mention
+    ? users
+        .filter((user) => user.name?.toLowerCase().includes(query) || user.email?.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const trackMention = (text: string, caret: number) => {
+    setMention(activeMention(text, caret));
+    setHighlighted(0);
+  };
+
+  const pick = (user: UserDetailResponse) => {
+    const element = textareaRef.current;
+    if (!mention || !element) return;
+    const token = `${mentionToken(user)} `;
+    const caret = element.selectionStart;
+    pendingCaret.current = mention.start + token.length;
+    onChange(value.slice(0, mention.start) + token + value.slice(caret));
+    setMention(null);
+    element.focus();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        pick(suggestions[highlighted]);
+        return;
+      }
+      if (event.key === "Escape") {
+        // Keep Esc from closing a surrounding modal
+        event.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey) && onSubmit) {
+      event.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        rows={rows}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          trackMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => trackMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        className="w-full border rounded p-2 text-sm focus:ring-2 focus:ring-blue-500"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 mt-1 w-72 bg-white border rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                // Before the textarea's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(user);
+                }}
+                className={`w-full text-left px-3 py-2 text-sm ${index === highlighted ? "bg-blue-50" : "hover:bg-gray-50"}`}
+              >
+                <span className="font-medium text-gray-900">{user.name}</span>
+                <span className="block text-xs text-gray-500">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
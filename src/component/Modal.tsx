@@ -0,0 +1,51 @@
+import type { ReactNode } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { X } from "lucide-react";
+
+export type ModalSize = "sm" | "md" | "lg" | "xl";
+
+interface ModalProps {
+  title: string;
+  children: ReactNode;
+  onClose: () => void;
+  // Pages usually mount the modal conditionally; pass `open` to keep it mounted
+  open?: boolean;
+  description?: string;
+  size?: ModalSize;
+}
+
+const sizeClasses: Record<ModalSize, string> = {
+  sm: "max-w-md",
+  md: "max-w-lg",
+  lg: "max-w-3xl",
+  xl: "max-w-5xl",
+};
+
+// Radix traps focus inside the dialog, closes it on Esc or a backdrop click,
+// locks page scroll while it is open and gives it the dialog role. A modal
+// opened from inside another one stacks above it; Esc closes the top one.
+const Modal = ({ title, children, onClose, open = true, description, size = "md" }: ModalProps) => (
+  <Dialog.Root open={open} onOpenChange={(next) => !next && onClose()}>
+    <Dialog.Portal>
+      <Dialog.Overlay className="fixed inset-0 z-[100] bg-black/40 backdrop-blur-sm" />
+      <Dialog.Content
+        className={`fixed left-1/2 top-1/2 z-[100] w-[calc(100vw-2rem)] ${sizeClasses[size]} -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg shadow-xl max-h-[90vh] flex flex-col focus:outline-none`}
+        // Without a description Radix warns unless this is explicitly unset
+        {...(description ? {} : { "aria-describedby": undefined })}
+      >
+        <div className="flex justify-between items-center px-6 py-4 border-b">
+          <Dialog.Title className="text-lg font-bold text-gray-900">{title}</Dialog.Title>
+          <Dialog.Close className="hover:bg-gray-100 rounded-full p-2 transition-colors" aria-label="Close">
+            <X className="w-5 h-5 text-gray-600 hover:text-gray-800" />
+          </Dialog.Close>
+        </div>
+        {description && (
+          <Dialog.Description className="px-6 pt-4 text-sm text-gray-600">{description}</Dialog.Description>
+        )}
+        <div className="p-6 overflow-y-auto">{children}</div>
+      </Dialog.Content>
+    </Dialog.Portal>
+  </Dialog.Root>
+);
+
+export default Modal;
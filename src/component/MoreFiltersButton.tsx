@@ -0,0 +1,23 @@
+import { SlidersHorizontal } from "lucide-react";
+
+interface MoreFiltersButtonProps {
+  open: boolean;
+  // Filters set in the panel, so a closed panel still shows there are some
+  count: number;
+  onToggle: () => void;
+}
+
+// Opens and closes a list's filter panel
+const MoreFiltersButton = ({ open, count, onToggle }: MoreFiltersButtonProps) => (
+  <button
+    onClick={onToggle}
+    className={`px-4 py-2 border rounded-lg flex items-center gap-2 ${
+      open ? "bg-blue-50 border-blue-300 text-blue-700" : "bg-white hover:bg-gray-50"
+    }`}
+  >
+    <SlidersHorizontal className="w-4 h-4" />
+    More Filters{count > 0 && ` (${count})`}
+  </button>
+);
+
+export default MoreFiltersButton;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import * as Popover from "@radix-ui/react-popover";
+import { AtSign, Bell } from "lucide-react";
+import { notifyError } from "../utils/notify";
+import {
+  useGetNotificationsQuery,
+  useMarkAllNotificationsReadMutation,
+  useMarkNotificationReadMutation,
+} from "../store/slices/apiSlice";
+import { formatDateTime } from "../utils/date";
+import type { NotificationResponse } from "../api/models/NotificationResponse";
+
+// New mentions show up without a reload
+const POLL_INTERVAL_MS = 60_000;
+
+// Header bell listing the logged in user's notifications, unread first
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { data: notifications = [] } = useGetNotificationsQuery(undefined, { pollingInterval: POLL_INTERVAL_MS });
+  const [markRead] = useMarkNotificationReadMutation();
+  const [markAllRead, { isLoading: markingAll }] = useMarkAllNotificationsReadMutation();
+
+  const unread = notifications.filter((notification) => !notification.read).length;
+  const sorted = [...notifications].sort((a, b) => Number(!!a.read) - Number(!!b.read));
+
+  const handleOpen = async (notification: NotificationResponse) => {
+    setOpen(false);
+    if (notification.ticketId) {
+      navigate(`/home/ticket/${notification.ticketId}${notification.commentId ? `#comment-${notification.commentId}` : ""}`);
+    }
+    if (notification.read) return;
+    try {
+      await markRead(notification.id!).unwrap();
+    } catch (error) {
+      notifyError(error, "Failed to update notification");
+    }
+  };
+
+  const handleMarkAll = async () => {
+    try {
+      await markAllRead(undefined).unwrap();
+    } catch (error) {
+      notifyError(error, "Failed to update notifications");
+    }
+  };
+
+  return (
+    <Popover.Root open={open} onOpenChange={setOpen}>
+      <Popover.Trigger
+        className="relative p-2.5 bg-white/60 rounded-2xl border border-white/30 shadow-lg hover:shadow-xl transition"
+        aria-label={unread ? `${unread} unread notifications` : "Notifications"}
+      >
+        <Bell className="w-5 h-5 text-slate-700" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 w-96 max-h-[70vh] flex flex-col bg-white rounded-lg shadow-xl border focus:outline-none"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h2 className="font-semibold text-gray-900">Notifications</h2>
+            {unread > 0 && (
+              <button
+                onClick={handleMarkAll}
+                disabled={markingAll}
+                className="text-xs text-blue-600 hover:underline disabled:text-gray-400"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {sorted.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-center text-gray-500">You're all caught up.</p>
+          ) : (
+            <ul className="overflow-y-auto divide-y">
+              {sorted.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 ${notification.read ? "" : "bg-blue-50/60"}`}
+                  >
+                    <AtSign className={`w-4 h-4 mt-0.5 shrink-0 ${notification.read ? "text-gray-400" : "text-blue-600"}`} />
+                    <span className="min-w-0">
+                      <span className={`block text-sm ${notification.read ? "text-gray-600" : "text-gray-900 font-medium"}`}>
+                        {notification.message || "You were mentioned in a comment"}
+                      </span>
+                      <span className="block text-xs text-gray-500 mt-0.5">
+                        {notification.createdBy && <>{notification.createdBy} &middot; </>}
+                        {formatDateTime(notification.createdOn)}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+};
+
+export default NotificationBell;
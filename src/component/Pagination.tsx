@@ -0,0 +1,112 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PAGE_SIZE_OPTIONS } from "../api/pagination";
+
+const navButtonClass =
+  "flex items-center px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed";
+const pageButtonClass =
+  "px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700";
+
+interface PageSizeBarProps {
+  page: number;
+  size: number;
+  totalElements: number;
+  onSizeChange: (size: number) => void;
+}
+
+// "Show [10] entries" on the left, "Showing 11 to 20 of 57 entries" on the right
+export const PageSizeBar = ({ page, size, totalElements, onSizeChange }: PageSizeBarProps) => (
+  <div className="flex items-center justify-between mb-4">
+    <div className="flex items-center space-x-2">
+      <span className="text-sm text-gray-600">Show</span>
+      <select
+        value={size}
+        onChange={(e) => onSizeChange(Number(e.target.value))}
+        className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500"
+      >
+        {PAGE_SIZE_OPTIONS.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-gray-600">entries</span>
+    </div>
+
+    <div className="text-sm text-gray-600">
+      {totalElements === 0
+        ? "No entries found"
+        : `Showing ${Math.min((page - 1) * size + 1, totalElements)} to ${Math.min(page * size, totalElements)} of ${totalElements} entries`}
+    </div>
+  </div>
+);
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// Previous / numbered window of five pages / Next, with jumps to the first
+// and last page once they scroll out of the window
+const Pagination = ({ page, totalPages, onPageChange }: PaginationProps) => {
+  if (totalPages <= 1) return null;
+
+  const goToPage = (target: number) => {
+    if (target >= 1 && target <= totalPages && target !== page) onPageChange(target);
+  };
+
+  const windowStart = totalPages <= 5 || page <= 3 ? 1 : page >= totalPages - 2 ? totalPages - 4 : page - 2;
+  const pageNumbers = Array.from({ length: Math.min(5, totalPages) }, (_, i) => windowStart + i);
+
+  return (
+    <div className="flex items-center justify-between mt-4">
+      <div className="flex items-center space-x-2">
+        <button onClick={() => goToPage(page - 1)} disabled={page === 1} className={navButtonClass}>
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Previous
+        </button>
+
+        <div className="flex items-center space-x-1">
+          {page > 3 && totalPages > 5 && (
+            <>
+              <button onClick={() => goToPage(1)} className={pageButtonClass}>
+                1
+              </button>
+              {page > 4 && <span className="px-2 py-2 text-sm text-gray-500">...</span>}
+            </>
+          )}
+
+          {pageNumbers.map((pageNum) => (
+            <button
+              key={pageNum}
+              onClick={() => goToPage(pageNum)}
+              className={`px-3 py-2 text-sm font-medium rounded-lg ${
+                page === pageNum
+                  ? "text-blue-600 bg-blue-50 border border-blue-300"
+                  : "text-gray-500 bg-white border border-gray-300 hover:bg-gray-50 hover:text-gray-700"
+              }`}
+            >
+              {pageNum}
+            </button>
+          ))}
+
+          {page < totalPages - 2 && totalPages > 5 && (
+            <>
+              {page < totalPages - 3 && <span className="px-2 py-2 text-sm text-gray-500">...</span>}
+              <button onClick={() => goToPage(totalPages)} className={pageButtonClass}>
+                {totalPages}
+              </button>
+            </>
+          )}
+        </div>
+
+        <button onClick={() => goToPage(page + 1)} disabled={page >= totalPages} className={navButtonClass}>
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Check, Loader2, Sparkles, X } from "lucide-react";
+import { ResumeTextError, extractResumeText } from "../utils/resumeText";
+import {
+  SUGGESTION_FIELDS,
+  suggestCandidateFields,
+  type FieldSuggestions,
+  type SuggestionField,
+} from "../utils/resumeFields";
+
+interface ResumeSuggestionsProps {
+  file: File;
+  // Current form values, to hide suggestions already in place and show what a
+  // suggestion would replace
+  values: Record<SuggestionField, string>;
+  onAccept: (field: SuggestionField, value: string) => void;
+}
+
+type ExtractState =
+  | { status: "reading" }
+  | { status: "failed"; message: string }
+  | { status: "done"; suggestions: FieldSuggestions; empty: boolean };
+
+// Reads the chosen resume in the browser and offers the details it finds for
+// the add form, one at a time; nothing is filled in until the user accepts it.
+// Key it by the file so a new resume starts from a clean slate.
+const ResumeSuggestions = ({ file, values, onAccept }: ResumeSuggestionsProps) => {
+  const [state, setState] = useState<ExtractState>({ status: "reading" });
+  const [dismissed, setDismissed] = useState<SuggestionField[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    extractResumeText(file)
+      .then((text) => {
+        if (!cancelled) setState({ status: "done", suggestions: suggestCandidateFields(text), empty: !text.trim() });
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setState({
+          status: "failed",
+          message: error instanceof ResumeTextError ? error.message : "Couldn't read text from this resume",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  if (state.status === "reading") {
+    return (
+      <p className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" /> Reading resume…
+      </p>
+    );
+  }
+  if (state.status === "failed") {
+    return <p className="text-sm text-gray-500">{state.message}. Fill in the details by hand.</p>;
+  }
+  if (state.empty) {
+    return (
+      <p className="text-sm text-gray-500">
+        No text found in this resume; it may be a scanned image. Fill in the details by hand.
+      </p>
+    );
+  }
+
+  const pending = SUGGESTION_FIELDS.flatMap(({ key, label }) => {
+    const value = state.suggestions[key];
+    if (!value || dismissed.includes(key) || values[key].trim() === value) return [];
+    return [{ key, label, value, current: values[key].trim() }];
+  });
+  if (pending.length === 0) return null;
+
+  const dismiss = (field: SuggestionField) => setDismissed((prev) => [...prev, field]);
+  // Filling in at once never overwrites what the user already typed; those
+  // suggestions still need their own "Use"
+  const fillable = pending.filter(({ current }) => !current);
+
+  return (
+    <div className="p-4 rounded-lg border border-blue-200 bg-blue-50">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 font-medium text-blue-800">
+          <Sparkles className="w-4 h-4" /> Found in the resume
+        </p>
+        {fillable.length > 1 && (
+          <button
+            type="button"
+            onClick={() => fillable.forEach(({ key, value }) => onAccept(key, value))}
+            className="text-sm font-medium text-blue-600 hover:underline"
+          >
+            Fill {fillable.length} empty fields
+          </button>
+        )}
+      </div>
+      <ul className="mt-2 divide-y divide-blue-100 text-sm">
+        {pending.map(({ key, label, value, current }) => (
+          <li key={key} className="flex items-start justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <span className="text-gray-500">{label}: </span>
+              <span className="font-medium text-gray-800 break-words">{value}</span>
+              {current && <p className="text-xs text-gray-500 truncate">Replaces “{current}”</p>}
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <button
+                type="button"
+                onClick={() => onAccept(key, value)}
+                className="flex items-center px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Check className="w-3 h-3 mr-1" /> Use
+              </button>
+              <button
+                type="button"
+                onClick={() => dismiss(key)}
+                className="flex items-center px-2 py-1 rounded border text-gray-600 hover:bg-gray-100"
+              >
+                <X className="w-3 h-3 mr-1" /> Ignore
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ResumeSuggestions;
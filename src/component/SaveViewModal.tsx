@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { notifyError } from "../utils/notify";
+import { useAddSavedViewMutation } from "../store/slices/apiSlice";
+import Modal from "./Modal";
+import type { SavedViewScope } from "../utils/savedViews";
+
+// Name the list's current filters so they can be reopened from the sidebar
+const SaveViewModal = ({
+  scope,
+  query,
+  onClose,
+  placeholder = "e.g. My overdue pending",
+}: {
+  scope: SavedViewScope;
+  query: string;
+  onClose: () => void;
+  placeholder?: string;
+}) => {
+  const [name, setName] = useState("");
+  const [addSavedView, { isLoading: saving }] = useAddSavedViewMutation();
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("View name is required");
+      return;
+    }
+
+    try {
+      await addSavedView({ name: name.trim(), scope, query }).unwrap();
+      toast.success("View saved");
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to save view");
+    }
+  };
+
+  return (
+    <Modal title="Save View" onClose={onClose} size="sm">
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">Name</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          autoFocus
+          className="mt-1 w-full border rounded p-2"
+          placeholder={placeholder}
+        />
+      </label>
+      <p className="mt-2 text-xs text-gray-500">Saved views are listed in the sidebar.</p>
+
+      <div className="mt-6 flex justify-end space-x-3">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default SaveViewModal;
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { useNavigate } from "react-router-dom";
+import { Eye, EyeOff, Loader2, Lock } from "lucide-react";
+import { AuthControllerService } from "../api/generated/services/AuthControllerService";
+import { unwrap } from "../api/request";
+import { notifyError } from "../utils/notify";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { login, logout } from "../store/slices/authSlice";
+
+// Shown over the current page when the session expires. The page stays
+// mounted underneath, so whatever the user was typing is still there once
+// they sign in again and any request that hit the 401 is replayed.
+const SessionExpiredModal = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { sessionExpired, user } = useAppSelector((state) => state.auth);
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  if (!sessionExpired) return null;
+
+  // Signing back in as someone else would hand this user's unsaved work to
+  // another account, so the email is fixed when we know it
+  const accountEmail = user?.email || email;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!accountEmail.trim() || !password.trim()) {
+      toast.error("Email and password are required");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await unwrap(
+        AuthControllerService.login({ email: accountEmail, password }),
+        "Login failed"
+      );
+
+      if (data.token) {
+        dispatch(login(data.token, { ...user, ...data, menulist: data.menulist ?? user?.menulist }));
+        setPassword("");
+        toast.success("Signed in again");
+      } else {
+        toast.error("Invalid login credentials - No token received");
+      }
+    } catch (error) {
+      notifyError(error, "Login failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogout = () => {
+    setPassword("");
+    dispatch(logout());
+    navigate("/", { replace: true });
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/40 backdrop-blur-sm z-[100] p-4">
+      <div className="bg-white rounded-lg shadow-lg max-w-md w-full p-6 relative">
+        <h2 className="text-lg font-bold mb-1">Session expired</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Your session has timed out. Sign in again to continue where you left off - unsaved changes are kept.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="email"
+            value={accountEmail}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={!!user?.email}
+            placeholder="Email"
+            className="w-full border rounded p-2 disabled:bg-gray-100 disabled:text-gray-600"
+          />
+
+          <div className="relative">
+            <Lock className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type={showPassword ? "text" : "password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+              className="w-full border rounded p-2 pl-9 pr-10"
+              autoFocus
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+            >
+              {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={handleLogout} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+              Log out
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-60 flex items-center"
+            >
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {loading ? "Signing in..." : "Sign in"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiredModal;
@@ -0,0 +1,38 @@
+import { AlertOctagon, Clock, Flag } from "lucide-react";
+import { formatDateTime } from "../utils/date";
+import { describeBreach, formatDuration, type SlaState, type TicketSla } from "../utils/sla";
+import type { TicketResponse } from "../api/models/TicketResponse";
+
+const badgeClasses: Record<SlaState, string> = {
+  ok: "bg-gray-100 text-gray-700",
+  warning: "bg-amber-100 text-amber-800",
+  breached: "bg-red-100 text-red-800",
+};
+
+// Countdown to the ticket's next SLA deadline, or how long ago it was missed
+const SlaBadge = ({ ticket, sla }: { ticket: TicketResponse; sla: TicketSla | undefined }) => {
+  if (!sla) return <span className="text-gray-400">-</span>;
+
+  const breached = sla.state === "breached";
+  return (
+    <span className="inline-flex items-center gap-1 flex-wrap">
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${badgeClasses[sla.state]}`}
+        title={breached ? describeBreach(sla) : `${sla.policy.name || "SLA"} due ${formatDateTime(new Date(sla.dueAt).toISOString())}`}
+      >
+        {breached ? <AlertOctagon className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+        {breached ? `Breached ${formatDuration(sla.remainingMs)}` : `${formatDuration(sla.remainingMs)} left`}
+      </span>
+      {breached && ticket.escalatedOn && (
+        <span
+          className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-800"
+          title={`Escalated ${formatDateTime(ticket.escalatedOn)}`}
+        >
+          <Flag className="w-3 h-3" /> Escalated
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default SlaBadge;
@@ -0,0 +1,28 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { SortState } from "../api/pagination";
+
+interface SortableHeaderProps {
+  label: string;
+  field: string;
+  sort?: SortState;
+  onSort: (field: string) => void;
+}
+
+// Column title that toggles the server-side sort; goes inside the <th>
+const SortableHeader = ({ label, field, sort, onSort }: SortableHeaderProps) => {
+  const active = sort?.field === field;
+  const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSort(field)}
+      className="inline-flex items-center gap-1 hover:text-blue-600"
+    >
+      {label}
+      <Icon className={`w-3 h-3 ${active ? "text-blue-600" : "text-gray-400"}`} />
+    </button>
+  );
+};
+
+export default SortableHeader;
@@ -0,0 +1,48 @@
+import { useState } from "react";
+
+// Truncated text that shows the full value in a tooltip on hover
+export const TooltipCell = ({ content, maxLength = 30 }: { content: string; maxLength?: number }) => {
+  const [showTooltip, setShowTooltip] = useState(false);
+  const displayText = content && content.length > maxLength ? content.substring(0, maxLength) + "..." : content || "N/A";
+  const shouldShowTooltip = content && content.length > maxLength;
+
+  return (
+    <div
+      className="relative"
+      onMouseEnter={() => shouldShowTooltip && setShowTooltip(true)}
+      onMouseLeave={() => setShowTooltip(false)}
+    >
+      <span className="cursor-pointer">{displayText}</span>
+      {showTooltip && (
+        <div className="absolute z-10 p-2 bg-gray-800 text-white text-sm rounded shadow-lg bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-64 max-w-xs break-words">
+          {content}
+          <div className="absolute top-full left-1/2 transform -translate-x-1/2 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-800"></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Users paste profile links without a scheme ("www.linkedin.com/in/..."),
+// which the browser would otherwise resolve relative to the app
+const withProtocol = (url: string) => {
+  const trimmed = url.trim();
+  return trimmed.startsWith("http://") || trimmed.startsWith("https://") ? trimmed : `https://${trimmed}`;
+};
+
+// External link opened in a new tab, or N/A when there is none
+export const LinkCell = ({ url, text }: { url: string | null | undefined; text: string }) => {
+  if (!url) return <span className="text-gray-400">N/A</span>;
+
+  return (
+    <a
+      href={withProtocol(url)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 hover:text-blue-800 underline"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {text}
+    </a>
+  );
+};
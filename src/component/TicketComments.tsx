@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { Lock, MessageSquare } from "lucide-react";
+import { notifyError } from "../utils/notify";
+import { useNotifyError } from "../hooks/useNotifyError";
+import { useCurrentUser } from "../hooks/useCurrentUser";
+import {
+  useAddTicketCommentMutation,
+  useDeleteTicketCommentMutation,
+  useGetTicketCommentsQuery,
+  useGetUsersQuery,
+  useUpdateTicketCommentMutation,
+} from "../store/slices/apiSlice";
+import { confirm } from "../utils/confirm";
+import { formatDateTime, toTimestamp } from "../utils/date";
+import { mentionedUserIds } from "../utils/mentions";
+import Markdown from "./Markdown";
+import MentionTextarea from "./MentionTextarea";
+import type { TicketCommentResponse } from "../api/models/TicketCommentResponse";
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+
+interface CommentEditorProps {
+  users: UserDetailResponse[];
+  initialBody?: string;
+  initialInternal?: boolean;
+  // Replies follow their thread, so only top-level comments offer the choice
+  showInternal?: boolean;
+  submitLabel: string;
+  saving: boolean;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string, internal: boolean) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+const CommentEditor = ({
+  users,
+  initialBody = "",
+  initialInternal = false,
+  showInternal = false,
+  submitLabel,
+  saving,
+  placeholder = "Write a comment...",
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentEditorProps) => {
+  const [body, setBody] = useState(initialBody);
+  const [internal, setInternal] = useState(initialInternal);
+
+  const handleSubmit = async () => {
+    if (!body.trim()) {
+      toast.error("Comment can't be empty");
+      return;
+    }
+    if (await onSubmit(body.trim(), internal)) setBody("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={body}
+        onChange={setBody}
+        users={users}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        onSubmit={handleSubmit}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          **bold**, *italic*, `code`, - lists and [links](https://...). Type @ to mention someone.
+        </p>
+        <div className="flex items-center gap-3">
+          {showInternal && (
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input type="checkbox" checked={internal} onChange={(e) => setInternal(e.target.checked)} />
+              Internal note
+            </label>
+          )}
+          {onCancel && (
+            <button onClick={onCancel} className="px-3 py-1.5 text-sm bg-gray-200 rounded hover:bg-gray-300">
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {saving ? "Saving..." : submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const byCreated = (a: TicketCommentResponse, b: TicketCommentResponse) =>
+  (toTimestamp(a.createdOn) ?? 0) - (toTimestamp(b.createdOn) ?? 0);
+
+// Discussion on a ticket that doesn't touch its status: comments, one level
+// of replies, and internal notes. Mentioned users are notified by the server.
+const TicketComments = ({ ticketId }: { ticketId: number }) => {
+  const { userId } = useCurrentUser();
+  const { data: comments = [], isLoading, error } = useGetTicketCommentsQuery(ticketId);
+  const { data: users = [], error: usersError } = useGetUsersQuery();
+  const [addComment, { isLoading: adding }] = useAddTicketCommentMutation();
+  const [updateComment, { isLoading: updating }] = useUpdateTicketCommentMutation();
+  const [deleteComment] = useDeleteTicketCommentMutation();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const { hash } = useLocation();
+
+  useNotifyError(error, "Failed to fetch comments");
+  useNotifyError(usersError, "Failed to fetch users");
+
+  // Notifications link to #comment-<id>; the comment only exists once loaded
+  useEffect(() => {
+    if (!hash.startsWith("#comment-") || comments.length === 0) return;
+    document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [hash, comments.length]);
+
+  const threads = comments
+    .filter((comment) => !comment.parentId)
+    .sort(byCreated)
+    .map((comment) => ({
+      comment,
+      replies: comments.filter((reply) => reply.parentId === comment.id).sort(byCreated),
+    }));
+
+  const handleAdd = async (body: string, internal: boolean, parentId?: number) => {
+    try {
+      await addComment({ ticketId, parentId, body, internal, mentionedUserIds: mentionedUserIds(body) }).unwrap();
+      setReplyingTo(null);
+      return true;
+    } catch (error) {
+      notifyError(error, "Failed to add comment");
+      return false;
+    }
+  };
+
+  const handleUpdate = async (comment: TicketCommentResponse, body: string, internal: boolean) => {
+    try {
+      await updateComment({ ...comment, body, internal, mentionedUserIds: mentionedUserIds(body) }).unwrap();
+      setEditingId(null);
+      return true;
+    } catch (error) {
+      notifyError(error, "Failed to update comment");
+      return false;
+    }
+  };
+
+  const handleDelete = async (comment: TicketCommentResponse, replyCount: number) => {
+    const confirmed = await confirm({
+      title: "Delete Comment",
+      message: replyCount
+        ? `Delete this comment and its ${replyCount} repl${replyCount === 1 ? "y" : "ies"}?`
+        : "Are you sure you want to delete this comment?",
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteComment({ id: comment.id!, ticketId }).unwrap();
+      toast.success("Comment deleted");
+    } catch (error) {
+      notifyError(error, "Failed to delete comment");
+    }
+  };
+
+  const renderComment = (comment: TicketCommentResponse, replyCount = 0) => {
+    const own = userId !== null && comment.createdById === userId;
+    return (
+      <div
+        id={`comment-${comment.id}`}
+        className={`p-3 rounded border ${comment.internal ? "bg-amber-50 border-amber-200" : "bg-white"} ${
+          hash === `#comment-${comment.id}` ? "ring-2 ring-blue-400" : ""
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 mb-2">
+          <span className="font-semibold text-gray-800">{comment.createdBy || "Unknown user"}</span>
+          <span>{formatDateTime(comment.createdOn)}</span>
+          {comment.updatedOn && <span title={`Edited ${formatDateTime(comment.updatedOn)}`}>(edited)</span>}
+          {comment.internal && (
+            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">
+              <Lock className="w-3 h-3" /> Internal
+            </span>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <CommentEditor
+            users={users}
+            initialBody={comment.body}
+            initialInternal={comment.internal}
+            showInternal={!comment.parentId}
+            submitLabel="Save"
+            saving={updating}
+            autoFocus
+            onSubmit={(body, internal) => handleUpdate(comment, body, internal)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <Markdown source={comment.body ?? ""} className="text-sm text-gray-800" />
+        )}
+
+        {editingId !== comment.id && (
+          <div className="mt-2 flex gap-3 text-xs">
+            {!comment.parentId && (
+              <button onClick={() => setReplyingTo(comment.id!)} className="text-blue-600 hover:underline">
+                Reply
+              </button>
+            )}
+            {own && (
+              <>
+                <button onClick={() => setEditingId(comment.id!)} className="text-gray-600 hover:underline">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(comment, replyCount)} className="text-red-600 hover:underline">
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-gray-500">Loading comments...</p>
+      ) : threads.length === 0 ? (
+        <p className="flex items-center gap-2 text-gray-500">
+          <MessageSquare className="w-4 h-4" /> No comments yet. Start the discussion below.
+        </p>
+      ) : (
+        threads.map(({ comment, replies }) => (
+          <div key={comment.id} className="space-y-2">
+            {renderComment(comment, replies.length)}
+            {(replies.length > 0 || replyingTo === comment.id) && (
+              <div className="ml-6 pl-4 border-l-2 border-gray-200 space-y-2">
+                {replies.map((reply) => (
+                  <div key={reply.id}>{renderComment(reply)}</div>
+                ))}
+                {replyingTo === comment.id && (
+                  <CommentEditor
+                    users={users}
+                    initialInternal={comment.internal}
+                    submitLabel="Reply"
+                    saving={adding}
+                    placeholder="Write a reply..."
+                    autoFocus
+                    onSubmit={(body) => handleAdd(body, !!comment.internal, comment.id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="pt-2 border-t">
+        <CommentEditor
+          users={users}
+          showInternal
+          submitLabel="Comment"
+          saving={adding && replyingTo === null}
+          onSubmit={(body, internal) => handleAdd(body, internal)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TicketComments;
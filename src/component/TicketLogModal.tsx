@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { notifyError } from "../utils/notify";
+import { usePermission } from "../hooks/usePermission";
+import { useAddLogHistoryMutation } from "../store/slices/apiSlice";
+import {
+  TICKET_STATUS_LABELS,
+  nextTicketStatuses,
+  requiredTicketFields,
+  toTicketStatus,
+  validateTicketTransition,
+  type TicketStatus,
+  type TicketStatusField,
+} from "../utils/ticketStatus";
+import { dateKeyOf } from "../utils/date";
+import Modal from "./Modal";
+import type { LogHistoryRequest } from "../api/models/LogHistoryRequest";
+import type { TicketResponse } from "../api/models/TicketResponse";
+
+interface TicketLogModalProps {
+  ticket: TicketResponse;
+  onClose: () => void;
+  // Preselected target, e.g. the column a card was dropped on
+  initialStatus?: TicketStatus;
+  // Preselected follow up, e.g. the day a ticket was rescheduled to
+  initialFollowUpDate?: string;
+  title?: string;
+}
+
+// Logs a follow up against a ticket, optionally moving it to another status.
+// Only the statuses the workflow allows from the current one are offered.
+const TicketLogModal = ({
+  ticket,
+  onClose,
+  initialStatus,
+  initialFollowUpDate,
+  title = "Add Log History",
+}: TicketLogModalProps) => {
+  const [addLogHistory, { isLoading: saving }] = useAddLogHistoryMutation();
+  const canReopen = usePermission("ticket.reopen");
+  const fromStatus = ticket.status;
+
+  const [form, setForm] = useState<Required<LogHistoryRequest>>({
+    id: 0,
+    ticketId: ticket.id!,
+    remarks: "",
+    // Unrecognised legacy values are treated as a fresh ticket
+    status: initialStatus ?? toTicketStatus(ticket.status) ?? "OPEN",
+    nextFollowUpDate: initialFollowUpDate ?? dateKeyOf(ticket.nextFollowUpDate) ?? "",
+  });
+
+  // Fields the chosen status asks for; unchanged statuses need none
+  const isRequired = (field: TicketStatusField) => {
+    const to = toTicketStatus(form.status);
+    return !!to && to !== toTicketStatus(fromStatus) && requiredTicketFields(to).includes(field);
+  };
+
+  const handleSave = async () => {
+    const invalid = validateTicketTransition(fromStatus, form.status, form, { canReopen });
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    try {
+      await addLogHistory(form).unwrap();
+      toast.success("Log history added successfully");
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to add log history");
+    }
+  };
+
+  return (
+    <Modal title={title} onClose={onClose}>
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Status</span>
+          <select
+            value={form.status}
+            onChange={(e) => setForm({ ...form, status: e.target.value })}
+            className="w-full border p-2 rounded mt-1"
+          >
+            {nextTicketStatuses(fromStatus, { canReopen }).map((status) => (
+              <option key={status} value={status}>
+                {TICKET_STATUS_LABELS[status]}
+                {status === toTicketStatus(fromStatus) ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">
+            Remarks{isRequired("remarks") && <span className="text-red-500"> *</span>}
+          </span>
+          <textarea
+            value={form.remarks}
+            onChange={(e) => setForm({ ...form, remarks: e.target.value })}
+            placeholder="Remarks"
+            className="w-full border p-2 rounded mt-1"
+            rows={4}
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">
+            Next Follow Up{isRequired("nextFollowUpDate") && <span className="text-red-500"> *</span>}
+          </span>
+          <input
+            type="date"
+            value={form.nextFollowUpDate}
+            onChange={(e) => setForm({ ...form, nextFollowUpDate: e.target.value })}
+            className="w-full border p-2 rounded mt-1"
+          />
+        </label>
+      </div>
+
+      <div className="mt-4 flex justify-end space-x-2">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+export default TicketLogModal;
@@ -0,0 +1,25 @@
+import { ticketStatusLabel, toTicketStatus, type TicketStatus } from "../utils/ticketStatus";
+
+const badgeClasses: Record<TicketStatus, string> = {
+  OPEN: "bg-blue-100 text-blue-800",
+  INPROGRESS: "bg-yellow-100 text-yellow-800",
+  PENDING: "bg-orange-100 text-orange-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  CLOSED: "bg-gray-200 text-gray-800",
+};
+
+// Unknown strings from old records still render, in neutral grey
+const TicketStatusBadge = ({ status }: { status?: string | null }) => {
+  const known = toTicketStatus(status);
+  return (
+    <span
+      className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${
+        known ? badgeClasses[known] : "bg-gray-100 text-gray-800"
+      }`}
+    >
+      {ticketStatusLabel(status) || "N/A"}
+    </span>
+  );
+};
+
+export default TicketStatusBadge;
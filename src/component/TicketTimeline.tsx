@@ -0,0 +1,102 @@
+import { AlertOctagon, ArrowRight, CalendarClock, MessageSquare, UserCheck } from "lucide-react";
+import { useNotifyError } from "../hooks/useNotifyError";
+import { useGetAssignHistoryQuery, useGetLogHistoryQuery } from "../store/slices/apiSlice";
+import { buildTicketTimeline, type TicketTimelineEvent } from "../utils/ticketTimeline";
+import { formatDate, formatDateTime } from "../utils/date";
+import TicketStatusBadge from "./TicketStatusBadge";
+
+const EventMeta = ({ event }: { event: TicketTimelineEvent }) => (
+  <p className="text-xs text-gray-500 mt-1">
+    {event.at ? formatDateTime(event.at) : "Date unknown"}
+    {event.by && <> &middot; {event.by}</>}
+  </p>
+);
+
+const LogEvent = ({ event }: { event: Extract<TicketTimelineEvent, { kind: "log" }> }) => (
+  <div className="space-y-2">
+    {event.statusChanged ? (
+      <p className="flex flex-wrap items-center gap-2 text-sm text-gray-900">
+        {event.previousStatus ? (
+          <>
+            <span className="font-medium">Status changed</span>
+            <TicketStatusBadge status={event.previousStatus} />
+            <ArrowRight className="w-3 h-3 text-gray-400" />
+          </>
+        ) : (
+          <span className="font-medium">Status set to</span>
+        )}
+        <TicketStatusBadge status={event.status} />
+      </p>
+    ) : (
+      <p className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900">
+        <MessageSquare className="w-4 h-4 text-gray-500" /> Follow up logged
+      </p>
+    )}
+    {event.remarks && <p className="text-gray-800 whitespace-pre-line">{event.remarks}</p>}
+    {event.followUpChanged && (
+      <p className="flex items-center gap-2 text-sm text-gray-600">
+        <CalendarClock className="w-4 h-4" />
+        Next follow up {event.previousFollowUp ? "moved to" : "set for"} {formatDate(event.followUp)}
+        {event.previousFollowUp && <span className="text-gray-400">(was {formatDate(event.previousFollowUp)})</span>}
+      </p>
+    )}
+    <EventMeta event={event} />
+  </div>
+);
+
+const AssignmentEvent = ({ event }: { event: Extract<TicketTimelineEvent, { kind: "assignment" }> }) => (
+  <div>
+    <p className="flex items-center gap-2 text-sm text-gray-900">
+      {event.escalation ? (
+        <AlertOctagon className="w-4 h-4 text-red-600" />
+      ) : (
+        <UserCheck className="w-4 h-4 text-green-600" />
+      )}
+      <span>
+        {event.escalation === "FLAG" ? "Escalated to " : event.escalation ? "Escalated and reassigned to " : "Assigned to "}
+        <span className="font-medium">{event.to || "Unknown user"}</span>
+      </span>
+    </p>
+    {event.reason && <p className="mt-1 text-sm text-red-700">{event.reason}</p>}
+    <EventMeta event={event} />
+  </div>
+);
+
+// Status changes, remarks, follow-up changes and assignments of one ticket,
+// oldest first
+const TicketTimeline = ({ ticketId }: { ticketId: number }) => {
+  const { data: logs, isLoading: logsLoading, error: logsError } = useGetLogHistoryQuery(ticketId);
+  const { data: assignments, isLoading: assignmentsLoading, error: assignmentsError } =
+    useGetAssignHistoryQuery(ticketId);
+
+  useNotifyError(logsError, "Failed to fetch log history");
+  useNotifyError(assignmentsError, "Failed to fetch assign history");
+
+  if (logsLoading || assignmentsLoading) {
+    return <p className="text-gray-500">Loading activity...</p>;
+  }
+
+  const events = buildTicketTimeline(logs, assignments);
+  if (events.length === 0) {
+    return <p className="text-gray-500">No activity recorded for this ticket yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.key} className="ml-5">
+          <span
+            className={`absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full ring-4 ring-white ${
+              event.kind === "log" ? "bg-blue-600" : event.escalation ? "bg-red-600" : "bg-green-600"
+            }`}
+          />
+          <div className="p-3 bg-white rounded shadow-sm">
+            {event.kind === "log" ? <LogEvent event={event} /> : <AssignmentEvent event={event} />}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default TicketTimeline;
@@ -0,0 +1,124 @@
+import { useCallback, useMemo } from "react";
+import { toast } from "react-hot-toast";
+import { AppError } from "../api/AppError";
+import { notifyError } from "../utils/notify";
+import { useNotifyError } from "./useNotifyError";
+import {
+  useAssignTicketsMutation,
+  useGetAssignmentRulesQuery,
+  useGetCandidatesQuery,
+  useGetTicketCountByUserQuery,
+  useGetUsersQuery,
+  useUpdateAssignmentRuleMutation,
+} from "../store/slices/apiSlice";
+import {
+  candidateIdsByUser,
+  lastPlannedUserId,
+  planAssignments,
+  type PlannedAssignment,
+} from "../utils/autoAssign";
+import { openLoadByUser, throughputSince } from "../utils/workload";
+import type { AssignmentRuleResponse } from "../api/models/AssignmentRuleResponse";
+import type { CandidateResponse } from "../api/models/CandidateResponse";
+import type { TicketResponse } from "../api/models/TicketResponse";
+
+// The active assignment rules, and what planning with the chosen one needs:
+// users, their open ticket counts and, for skill match, candidate skills.
+// Only the rules load until `selectedRuleId` names one, and nothing at all
+// while `enabled` is false, e.g. until a dialog opens.
+export const useAutoAssignment = (enabled = true, selectedRuleId = "") => {
+  const { data: rules = [], isLoading: rulesLoading, error: rulesError } = useGetAssignmentRulesQuery(undefined, {
+    skip: !enabled,
+  });
+  const activeRules = useMemo(() => rules.filter((rule) => rule.active !== false), [rules]);
+  const rule = activeRules.find((r) => String(r.id) === selectedRuleId);
+
+  const skip = !enabled || !rule;
+  const { data: users = [], isLoading: usersLoading, error: usersError } = useGetUsersQuery(undefined, { skip });
+  const {
+    data: counts = [],
+    isLoading: countsLoading,
+    error: countsError,
+  } = useGetTicketCountByUserQuery(throughputSince(), { skip });
+  const { data: candidates = [], error: candidatesError } = useGetCandidatesQuery(undefined, {
+    skip: skip || rule.strategy !== "SKILL_MATCH",
+  });
+  const [updateRule] = useUpdateAssignmentRuleMutation();
+  const [assignTickets] = useAssignTicketsMutation();
+
+  useNotifyError(rulesError, "Failed to fetch assignment rules");
+  useNotifyError(usersError, "Failed to fetch users");
+  useNotifyError(countsError, "Failed to fetch ticket counts");
+  useNotifyError(candidatesError, "Failed to fetch candidates");
+
+  const openLoad = useMemo(() => openLoadByUser(counts), [counts]);
+
+  const plan = useCallback(
+    (rule: AssignmentRuleResponse, toAssign: CandidateResponse[]) => planAssignments(rule, toAssign, { users, openLoad }),
+    [users, openLoad]
+  );
+
+  // Tickets only name their candidate; skill match needs the full record
+  const candidatesOf = useCallback(
+    (toAssign: TicketResponse[]): CandidateResponse[] =>
+      toAssign.map(
+        (ticket) =>
+          candidates.find((candidate) => candidate.id === ticket.candidateId) ?? {
+            id: ticket.candidateId,
+            name: ticket.candidateName,
+          }
+      ),
+    [candidates]
+  );
+
+  // Round robin resumes after the last user it handed a ticket to. The
+  // tickets are already assigned by now, so a failure here only warns.
+  const recordPlan = async (rule: AssignmentRuleResponse, committed: PlannedAssignment[]) => {
+    const lastAssignedUserId = lastPlannedUserId(committed);
+    if (rule.strategy !== "ROUND_ROBIN" || lastAssignedUserId == null) return;
+    try {
+      await updateRule({ ...rule, lastAssignedUserId }).unwrap();
+    } catch (error) {
+      notifyError(error, "Tickets were assigned, but the rule's rotation could not be saved");
+    }
+  };
+
+  // Hands each user their share of the plan, one call per user. A failed
+  // call doesn't undo the ones before it, so the rest still go out and only
+  // what went through is recorded; the toast says who got what.
+  const assignPlan = async (rule: AssignmentRuleResponse, planned: PlannedAssignment[]) => {
+    const assignedUserIds = new Set<number>();
+    const failures: string[] = [];
+    for (const [userId, candidateIds] of candidateIdsByUser(planned)) {
+      try {
+        await assignTickets({ userId, candidateIds }).unwrap();
+        assignedUserIds.add(userId);
+      } catch (error) {
+        const name = planned.find(({ user }) => user?.id === userId)?.user?.name ?? `User ${userId}`;
+        failures.push(`${name} (${AppError.from(error, "Failed to assign tickets").message})`);
+      }
+    }
+
+    const committed = planned.filter(({ user }) => user?.id != null && assignedUserIds.has(user.id));
+    const failed = planned.filter((assignment) => !committed.includes(assignment));
+    await recordPlan(rule, committed);
+    if (failures.length) {
+      const names = [...new Set(committed.map(({ user }) => user?.name))].join(", ");
+      toast.error(
+        `${failed.length} ticket(s) weren't assigned: ${failures.join("; ")}.` +
+          (committed.length ? ` The other ${committed.length} went to ${names}.` : "")
+      );
+    }
+    return { committed, failed };
+  };
+
+  return {
+    rules: activeRules,
+    rule,
+    loading: rulesLoading || usersLoading || countsLoading,
+    plan,
+    candidatesOf,
+    recordPlan,
+    assignPlan,
+  };
+};
@@ -0,0 +1,74 @@
+import { useCallback, useState } from "react";
+import { AppError } from "../api/AppError";
+import { useAppDispatch } from "../store/hooks";
+import { apiSlice } from "../store/slices/apiSlice";
+
+export type BulkItemState = "pending" | "running" | "done" | "skipped" | "failed";
+
+export interface BulkItemResult {
+  key: string | number;
+  label: string;
+  state: BulkItemState;
+  message?: string;
+}
+
+interface BulkRun<T> {
+  title: string;
+  items: T[];
+  key: (item: T) => string | number;
+  label: (item: T) => string;
+  // Why an item can't take part, checked before any call; null to go ahead
+  check?: (item: T) => string | null;
+  task: (item: T) => Promise<unknown>;
+  // Fallback for failures the server gives no message for
+  errorMessage: string;
+  // Invalidated once the last call is done, for tasks made with `inBulk`
+  invalidates?: Parameters<typeof apiSlice.util.invalidateTags>[0];
+}
+
+// Applies one call per item and records how each went. Calls go out one at a
+// time so the progress reads top to bottom and a failure doesn't stop the rest.
+export const useBulkOperation = () => {
+  const dispatch = useAppDispatch();
+  const [title, setTitle] = useState("");
+  const [results, setResults] = useState<BulkItemResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const update = (index: number, patch: Partial<BulkItemResult>) =>
+    setResults((previous) => previous.map((result, i) => (i === index ? { ...result, ...patch } : result)));
+
+  const run = useCallback(
+    async <T,>({ title, items, key, label, check, task, errorMessage, invalidates }: BulkRun<T>) => {
+      setTitle(title);
+      setResults(items.map((item) => ({ key: key(item), label: label(item), state: "pending" })));
+      setRunning(true);
+
+      for (const [index, item] of items.entries()) {
+        const reason = check?.(item);
+        if (reason) {
+          update(index, { state: "skipped", message: reason });
+          continue;
+        }
+
+        update(index, { state: "running" });
+        try {
+          await task(item);
+          update(index, { state: "done" });
+        } catch (error) {
+          update(index, { state: "failed", message: AppError.from(error, errorMessage).message });
+        }
+      }
+
+      if (invalidates?.length) dispatch(apiSlice.util.invalidateTags(invalidates));
+      setRunning(false);
+    },
+    [dispatch]
+  );
+
+  const reset = useCallback(() => {
+    setTitle("");
+    setResults([]);
+  }, []);
+
+  return { title, results, running, run, reset };
+};
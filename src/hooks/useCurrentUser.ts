@@ -0,0 +1,28 @@
+import { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchCurrentUser } from "../store/slices/authSlice";
+import { decodeJwt, getUserIdFromClaims } from "../utils/jwt";
+
+// The logged in user, read from the auth slice. If the session only has a
+// token (or a partial user) the details are fetched once from /auth/getById.
+export const useCurrentUser = () => {
+  const dispatch = useAppDispatch();
+  const { token, user, loading, error } = useAppSelector((state) => state.auth);
+
+  const needsFetch = !!token && !user?.departmentId;
+
+  useEffect(() => {
+    if (needsFetch && !loading && !error) {
+      dispatch(fetchCurrentUser());
+    }
+  }, [needsFetch, loading, error, dispatch]);
+
+  return {
+    user,
+    userId: user?.id ?? (token ? getUserIdFromClaims(decodeJwt(token)) : null),
+    departmentId: user?.departmentId ?? null,
+    isAuthenticated: !!token,
+    loading,
+    error,
+  };
+};
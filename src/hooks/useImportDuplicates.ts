@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNotifyError } from "./useNotifyError";
+import { useLazyFindDuplicateCandidatesQuery } from "../store/slices/apiSlice";
+import { groupMatches, type DuplicateLookup } from "../utils/candidateDuplicates";
+import type { CandidateResponse } from "../api/models/CandidateResponse";
+
+// Duplicate groups involving the identities a bulk import uploaded. The server
+// matches each identity in turn, one request at a time so a large import
+// doesn't flood it; `checked` counts how far it has got.
+export const useImportDuplicates = (lookups: DuplicateLookup[] | undefined) => {
+  const [findDuplicates] = useLazyFindDuplicateCandidatesQuery();
+  const [matches, setMatches] = useState<CandidateResponse[][]>([]);
+  const [error, setError] = useState<unknown>();
+
+  useEffect(() => {
+    if (!lookups) return;
+    let cancelled = false;
+    const found: CandidateResponse[][] = [];
+    const run = async () => {
+      for (const lookup of lookups) {
+        try {
+          found.push(await findDuplicates(lookup).unwrap());
+        } catch (lookupError) {
+          if (!cancelled) setError(lookupError);
+          return;
+        }
+        if (cancelled) return;
+        setMatches([...found]);
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [lookups, findDuplicates]);
+
+  useNotifyError(error, "Failed to check for duplicates");
+
+  // A merged-away record is gone; drop it rather than ask again for everything
+  const removeCandidate = useCallback(
+    (id: number) => setMatches((previous) => previous.map((match) => match.filter((candidate) => candidate.id !== id))),
+    []
+  );
+
+  return {
+    groups: useMemo(() => groupMatches(matches), [matches]),
+    checked: matches.length,
+    total: lookups?.length ?? 0,
+    done: !!lookups && (matches.length === lookups.length || !!error),
+    removeCandidate,
+  };
+};
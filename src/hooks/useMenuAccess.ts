@@ -0,0 +1,20 @@
+import { useCallback, useMemo } from "react";
+import { useCurrentUser } from "./useCurrentUser";
+import { buildAllowedRoutes, isPathAllowed } from "../utils/menuAccess";
+
+// Route permissions derived from the logged in user's menulist
+export const useMenuAccess = () => {
+  const { user, loading, error } = useCurrentUser();
+  const menulist = user?.menulist;
+
+  const allowedRoutes = useMemo(() => buildAllowedRoutes(menulist), [menulist]);
+
+  const canAccess = useCallback((pathname: string) => isPathAllowed(pathname, allowedRoutes), [allowedRoutes]);
+
+  return {
+    allowedRoutes,
+    canAccess,
+    // Nothing to decide on until the user (and their menus) is known
+    ready: !!menulist || !!error || (!loading && !!user?.departmentId),
+  };
+};
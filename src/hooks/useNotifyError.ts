@@ -0,0 +1,10 @@
+import { useEffect } from "react";
+import { notifyError } from "../utils/notify";
+
+// Report a query's error once, when it appears. Queries live outside the
+// page's own try/catch, so this is their equivalent of calling notifyError.
+export const useNotifyError = (error: unknown, fallbackMessage: string) => {
+  useEffect(() => {
+    if (error) notifyError(error, fallbackMessage);
+  }, [error, fallbackMessage]);
+};
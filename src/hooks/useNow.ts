@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The current time, refreshed every `intervalMs` so countdowns keep moving
+export const useNow = (intervalMs = 60_000) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  PAGE_SIZE_OPTIONS,
+  nextSort,
+  parseSortParam,
+  toSortParam,
+  type PageQuery,
+  type PageResult,
+  type SortState,
+} from "../api/pagination";
+import { useDebouncedValue } from "./useDebouncedValue";
+
+// The parts of an RTK Query hook result this hook relies on
+interface PageQueryResult<T> {
+  data?: PageResult<T>;
+  isLoading: boolean;
+  isFetching: boolean;
+  error?: unknown;
+  refetch: () => unknown;
+}
+
+interface PaginatedQueryOptions<F> {
+  // Also names the filters kept in the URL. Declare it outside the component
+  // so it keeps its identity between renders.
+  defaultFilters: F;
+  defaultSize?: number;
+  defaultSort?: SortState;
+}
+
+// Typing in a filter box shouldn't fire a request per keystroke
+const FILTER_DEBOUNCE_MS = 300;
+
+const readPositiveInt = (value: string | null) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+// Drive a server-paged list from the URL: page, size, sort and every filter
+// in `defaultFilters` live in the query string, so reloading, sharing a link
+// or pressing Back lands on the same slice of data. Values equal to their
+// default are left out of the URL.
+export const usePaginatedQuery = <T, F extends Record<string, string>>(
+  useQuery: (args: PageQuery<F>) => PageQueryResult<T>,
+  { defaultFilters, defaultSize = PAGE_SIZE_OPTIONS[0], defaultSort }: PaginatedQueryOptions<F>
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const page = readPositiveInt(searchParams.get("page")) ?? 1;
+  const requestedSize = readPositiveInt(searchParams.get("size"));
+  const size = requestedSize && PAGE_SIZE_OPTIONS.includes(requestedSize) ? requestedSize : defaultSize;
+  const sort = searchParams.has("sort") ? parseSortParam(searchParams.get("sort")) : defaultSort;
+
+  const filters = useMemo(() => {
+    const current = { ...defaultFilters };
+    for (const key of Object.keys(defaultFilters) as Array<keyof F & string>) {
+      const value = searchParams.get(key);
+      if (value !== null) current[key] = value as F[keyof F & string];
+    }
+    return current;
+  }, [searchParams, defaultFilters]);
+
+  // Debounce on the serialized filters so paging doesn't restart the timer
+  const debouncedFilters = useDebouncedValue(JSON.stringify(filters), FILTER_DEBOUNCE_MS);
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    page,
+    size,
+    sort,
+    filters: JSON.parse(debouncedFilters) as F,
+  });
+
+  // Write `changes` into the URL, dropping values that match their default.
+  // Anything that changes the result set goes back to the first page.
+  const updateParams = useCallback(
+    (changes: Record<string, string | undefined>, defaults: Record<string, string | undefined>, resetPage: boolean) => {
+      setSearchParams(
+        (previous) => {
+          const next = new URLSearchParams(previous);
+          for (const [key, value] of Object.entries(changes)) {
+            if (value === undefined || value === defaults[key]) next.delete(key);
+            else next.set(key, value);
+          }
+          if (resetPage) next.delete("page");
+          return next;
+        },
+        // Only page moves get a history entry; filters change on every keystroke
+        { replace: resetPage }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const setPage = useCallback(
+    (nextPage: number) => updateParams({ page: String(nextPage) }, { page: "1" }, false),
+    [updateParams]
+  );
+
+  const setSize = useCallback(
+    (nextSize: number) => updateParams({ size: String(nextSize) }, { size: String(defaultSize) }, true),
+    [updateParams, defaultSize]
+  );
+
+  const setSort = useCallback(
+    (nextSort: SortState | undefined) =>
+      // An explicit "none" has to survive in the URL when there is a default sort
+      updateParams({ sort: toSortParam(nextSort) ?? (defaultSort ? "" : undefined) }, { sort: toSortParam(defaultSort) }, true),
+    [updateParams, defaultSort]
+  );
+
+  const toggleSort = useCallback((field: string) => setSort(nextSort(sort, field)), [sort, setSort]);
+
+  const setFilter = useCallback(
+    (key: keyof F & string, value: string) => updateParams({ [key]: value }, defaultFilters, true),
+    [updateParams, defaultFilters]
+  );
+
+  // Several filters in one URL update; separate setFilter calls in the same
+  // tick would each start from the same params and undo one another
+  const setFilters = useCallback(
+    (changes: Partial<F>) => updateParams(changes, defaultFilters, true),
+    [updateParams, defaultFilters]
+  );
+
+  // Deleting the last row of the last page (or a stale link) can leave the
+  // URL pointing past the end
+  const totalPages = data?.totalPages ?? 0;
+  useEffect(() => {
+    if (!isFetching && totalPages > 0 && page > totalPages) setPage(totalPages);
+  }, [isFetching, totalPages, page, setPage]);
+
+  return {
+    items: data?.items ?? [],
+    totalElements: data?.totalElements ?? 0,
+    totalPages,
+    page,
+    size,
+    sort,
+    filters,
+    setPage,
+    setSize,
+    toggleSort,
+    setFilter,
+    setFilters,
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+  };
+};
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchRolePermissions } from "../store/slices/permissionSlice";
+import { resolvePermissions, type Permission } from "../utils/permissions";
+import { useCurrentUser } from "./useCurrentUser";
+
+// The logged in user's capabilities. The role mapping is fetched once per
+// role and shared through the store.
+export const usePermissions = () => {
+  const dispatch = useAppDispatch();
+  const { user, departmentId } = useCurrentUser();
+  const roleId = user?.roleId;
+
+  const { byRoleId, loadingRoleIds } = useAppSelector((state) => state.permission);
+  const loaded = roleId != null && roleId in byRoleId;
+  const loading = roleId != null && loadingRoleIds.includes(roleId);
+
+  useEffect(() => {
+    if (roleId != null && !loaded && !loading) {
+      dispatch(fetchRolePermissions(roleId));
+    }
+  }, [roleId, loaded, loading, dispatch]);
+
+  const rolePermissions = roleId != null ? byRoleId[roleId] : null;
+  const permissions = useMemo(
+    () => resolvePermissions(rolePermissions, departmentId),
+    [rolePermissions, departmentId]
+  );
+
+  const can = useCallback((permission: Permission) => permissions.has(permission), [permissions]);
+
+  return { permissions, can, loading };
+};
+
+export const usePermission = (permission: Permission): boolean => usePermissions().can(permission);
@@ -0,0 +1,21 @@
+import { useNotifyError } from "./useNotifyError";
+import { useCurrentUser } from "./useCurrentUser";
+import { useGetPipelineQuery } from "../store/slices/apiSlice";
+import { pipelineStages, rejectionReasons } from "../utils/pipeline";
+
+// The recruiting pipeline of a company, the logged in user's by default.
+// Falls back to the default stages while nothing has been configured.
+export const usePipeline = (companyId?: number) => {
+  const { user } = useCurrentUser();
+  const id = companyId ?? user?.companyId;
+  const { data: pipeline, isLoading, error } = useGetPipelineQuery(id ?? 0, { skip: !id });
+
+  useNotifyError(error, "Failed to fetch pipeline");
+
+  return {
+    pipeline,
+    stages: pipelineStages(pipeline),
+    rejectionReasons: rejectionReasons(pipeline),
+    loading: isLoading,
+  };
+};
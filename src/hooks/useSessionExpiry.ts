@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { sessionExpired } from "../store/slices/authSlice";
+import { getTokenExpiry } from "../utils/jwt";
+
+// setTimeout overflows past ~24.8 days and would fire immediately
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Flag the session as expired the moment the token's exp claim passes, so the
+// re-login prompt shows up before the next request fails.
+export const useSessionExpiry = () => {
+  const dispatch = useAppDispatch();
+  const { token, sessionExpired: expired } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    if (!token || expired) return;
+
+    const expiry = getTokenExpiry(token);
+    if (expiry === null) return;
+
+    const remaining = expiry - Date.now();
+    if (remaining <= 0) {
+      dispatch(sessionExpired());
+      return;
+    }
+
+    const timer = setTimeout(() => dispatch(sessionExpired()), Math.min(remaining, MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [token, expired, dispatch]);
+};
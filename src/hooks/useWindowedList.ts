@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState, type UIEvent } from "react";
+
+interface WindowedListOptions {
+  count: number;
+  // Every row has to be this tall, margins included
+  itemHeight: number;
+  // Rows rendered above and below the visible ones so fast scrolling doesn't
+  // flash empty space
+  overscan?: number;
+  // Called while the last rows are in view, to fetch the next page
+  onEndReached?: () => void;
+}
+
+// Render only the rows of a long fixed-height list that are in view. Attach
+// `containerRef` and `onScroll` to the scrolling element, give its content a
+// height of `totalHeight` and place rows start..end at `offset`.
+export const useWindowedList = <E extends HTMLElement = HTMLDivElement>({
+  count,
+  itemHeight,
+  overscan = 5,
+  onEndReached,
+}: WindowedListOptions) => {
+  const containerRef = useRef<E>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const measure = () => setViewportHeight(element.clientHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback(
+    (event: UIEvent<E>) => {
+      const { scrollTop, clientHeight, scrollHeight } = event.currentTarget;
+      setScrollTop(scrollTop);
+      if (onEndReached && scrollTop + clientHeight >= scrollHeight - itemHeight * overscan) onEndReached();
+    },
+    [onEndReached, itemHeight, overscan]
+  );
+
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    offset: start * itemHeight,
+    totalHeight: count * itemHeight,
+  };
+};
@@ -4,9 +4,12 @@ import { Provider } from "react-redux";
 import { BrowserRouter } from "react-router-dom";
 import App from "./App";
 import { store } from "./store/store";
+import { setupAuthInterceptors } from "./api/authInterceptors";
 import "./index.css";
 import "@fortawesome/fontawesome-free/css/all.min.css";
 
+setupAuthInterceptors(store);
+
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <Provider store={store}>
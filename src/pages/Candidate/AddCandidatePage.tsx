@@ -1,7 +1,11 @@
-import { useState, useEffect } from "react";
-import axios from "axios";
+import { useState, type ChangeEvent, type ReactNode } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { downloadBlob } from "../../utils/download";
+import DuplicateCandidateWarning from "../../component/DuplicateCandidateWarning";
+import ResumeSuggestions from "../../component/ResumeSuggestions";
+import { RESUME_EXTENSIONS } from "../../utils/resumeText";
+import { useAddCandidateMutation, useUploadResumeMutation } from "../../store/slices/apiSlice";
 import {
   Save,
   RotateCcw,
@@ -18,15 +22,7 @@ import {
   Upload,
   Download,
 } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-
-interface UserData {
-  id?: number;
-  departmentId: number;
-  departmentName?: string;
-  name: string;
-  email?: string;
-}
+import { Link, useNavigate } from "react-router-dom";
 
 const AddCandidatePage = () => {
   const navigate = useNavigate();
@@ -43,111 +39,10 @@ const AddCandidatePage = () => {
     notes: "",
   });
   const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [addCandidate] = useAddCandidateMutation();
+  const [uploadResume] = useUploadResumeMutation();
   const [loading, setLoading] = useState(false);
-  const [bulkUploadLoading, setBulkUploadLoading] = useState(false);
   const [sampleDownloadLoading, setSampleDownloadLoading] = useState(false);
-  const [userData, setUserData] = useState<UserData | null>(null);
-
-  // Helper function to get user ID from token
-  const getUserIdFromToken = (): number | null => {
-    try {
-      const token = sessionStorage.getItem("token");
-      if (!token) return null;
-
-      const cleanToken = token.replace('Bearer ', '');
-      const payload = JSON.parse(atob(cleanToken.split('.')[1]));
-      
-      // Check different possible locations for user ID in the token
-      if (payload.UserAuthDetails && payload.UserAuthDetails.id) {
-        return payload.UserAuthDetails.id;
-      }
-      if (payload.id) {
-        return payload.id;
-      }
-      if (payload.userId) {
-        return payload.userId;
-      }
-      if (payload.sub) {
-        return parseInt(payload.sub);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error("Error decoding token for user ID:", error);
-      return null;
-    }
-  };
-
-  // Fetch current user data
-  const fetchUserData = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      if (!token) {
-        toast.error("No authentication token found");
-        return;
-      }
-
-      // Get user ID from token
-      const userId = getUserIdFromToken();
-      if (!userId) {
-        toast.error("Unable to get user ID from token");
-        return;
-      }
-
-      console.log("Fetching user data for ID:", userId); // Debug log
-
-      // Fetch current user data using the extracted user ID
-      const res = await axios.get(`${API_BASE}/auth/getById/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      
-      if (res.data.code === 1 && res.data.data) {
-        const user = {
-          id: res.data.data.id,
-          departmentId: res.data.data.departmentId,
-          departmentName: res.data.data.departmentName,
-          name: res.data.data.name,
-          email: res.data.data.email
-        };
-        
-        console.log("User data fetched:", user); // Debug log
-        setUserData(user);
-        console.log(userData)
-        // Store user data in sessionStorage for future use
-        sessionStorage.setItem("userData", JSON.stringify(user));
-      } else {
-        toast.error("Failed to fetch user data");
-      }
-    } catch (error: any) {
-      console.error("Error fetching user data:", error);
-      toast.error(error?.response?.data?.message || "Failed to fetch user data");
-    }
-  };
-
-  // Get user data on component mount
-  useEffect(() => {
-    const initializeUserData = async () => {
-      // Try to get user data from sessionStorage first
-      const storedUserData = sessionStorage.getItem("userData");
-      if (storedUserData) {
-        try {
-          const parsedUserData = JSON.parse(storedUserData);
-          console.log("Using stored user data:", parsedUserData);
-          setUserData(parsedUserData);
-          return;
-        } catch (error) {
-          console.error("Error parsing stored user data:", error);
-          // Remove corrupted data
-          sessionStorage.removeItem("userData");
-        }
-      }
-
-      // If no valid stored user data, fetch from API
-      await fetchUserData();
-    };
-
-    initializeUserData();
-  }, []);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -202,93 +97,24 @@ const AddCandidatePage = () => {
 
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-
       // Step 1: Add candidate
-      const res = await axios.post(`${API_BASE}/candidates/add`, formData, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      });
+      const { data: candidate } = await addCandidate(formData).unwrap();
 
-      if (res.data.code === 1) {
-        const candidateId = res.data.data.id;
-
-        // Step 2: Upload resume if selected
-        if (resumeFile) {
-          const form = new FormData();
-          form.append("file", resumeFile);
-          await axios.post(
-            `${API_BASE}/candidates/upload-single?candidateId=${candidateId}`,
-            form,
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-                "Content-Type": "multipart/form-data",
-              },
-            }
-          );
-        }
-
-        toast.success("Candidate added successfully!");
-        resetForm();
-        navigate("/home/candidate/show")
-      } else {
-        toast.error(res.data.message || "Failed to add candidate");
+      // Step 2: Upload resume if selected
+      if (resumeFile && candidate?.id) {
+        await uploadResume({ candidateId: candidate.id, file: resumeFile }).unwrap();
       }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to add candidate");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Bulk Upload handler - available for all users
-  const handleBulkUpload = async (file: File) => {
-    // Validate file type
-    const allowedTypes = ['.xlsx'];
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    
-    if (!allowedTypes.includes(fileExtension)) {
-      toast.error("Only XLSX files are allowed for bulk upload");
-      return;
-    }
-
-    setBulkUploadLoading(true);
-    const token = sessionStorage.getItem("token");
-    
-    try {
-      const formData = new FormData();
-      formData.append("candidatesFile", file);
 
-      // Using the API_BASE endpoint
-      const res = await axios.post(`${API_BASE}/import/candidates`, formData, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "multipart/form-data",
-        },
-      });
-
-      if (res.data.code === 1) {
-        toast.success(res.data.message || "Bulk upload successful!");
-        navigate("/home/candidate/show")
-      } else {
-        toast.error(res.data.message || "Bulk upload failed");
-      }
-    } catch (error: any) {
-      console.error("Bulk upload error:", error);
-      toast.error(error?.response?.data?.message || "Bulk upload failed");
+      toast.success("Candidate added successfully!");
+      resetForm();
+      navigate("/home/candidate/show")
+    } catch (error) {
+      notifyError(error, "Failed to add candidate");
     } finally {
-      setBulkUploadLoading(false);
+      setLoading(false);
     }
   };
 
-  // Handle bulk upload button click - available for all users
-  const handleBulkUploadClick = () => {
-    document.getElementById("bulkUploadInput")?.click();
-  };
-
   // Download sample data format handler - available for all users
   const handleSampleDownload = async () => {
     setSampleDownloadLoading(true);
@@ -300,19 +126,10 @@ John Doe,john.doe@email.com,9876543210,3 years,5 LPA,7 LPA,1 month,"React, Node.
 Jane Smith,jane.smith@email.com,8765432109,5 years,8 LPA,12 LPA,2 months,"Python, Django, PostgreSQL",https://linkedin.com/in/janesmith,Senior developer with leadership experience
 Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"HTML, CSS, JavaScript, Vue.js",https://linkedin.com/in/mikejohnson,Junior developer eager to learn`;
 
-      // Create blob and download
-      const blob = new Blob([sampleData], { type: 'text/csv;charset=utf-8;' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', 'candidate_sample_format.csv');
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(url);
+      downloadBlob(new Blob([sampleData], { type: 'text/csv;charset=utf-8;' }), 'candidate_sample_format.csv');
       
       toast.success("Sample format downloaded successfully!");
-    } catch (error: any) {
+    } catch (error) {
       console.error("Sample download error:", error);
       toast.error("Failed to download sample format");
     } finally {
@@ -354,35 +171,12 @@ Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"
             </button>
 
             {/* Bulk Upload - Available for all users */}
-            <input
-              id="bulkUploadInput"
-              type="file"
-              accept=".csv,.xlsx"
-              className="hidden"
-              onChange={(e) => {
-                if (e.target.files?.[0]) {
-                  handleBulkUpload(e.target.files[0]);
-                  // Reset the input to allow same file upload again
-                  e.target.value = '';
-                }
-              }}
-            />
-            <button
-              type="button"
-              onClick={handleBulkUploadClick}
-              disabled={bulkUploadLoading}
-              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            <Link
+              to="/home/candidate/import"
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition"
             >
-              {bulkUploadLoading ? (
-                <>
-                  <RotateCcw className="animate-spin w-4 h-4 mr-2" /> Uploading...
-                </>
-              ) : (
-                <>
-                  <Upload className="w-4 h-4 mr-2" /> Bulk Upload
-                </>
-              )}
-            </button>
+              <Upload className="w-4 h-4 mr-2" /> Bulk Upload
+            </Link>
           </div>
         </div>
 
@@ -464,6 +258,12 @@ Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"
               disabled={loading}
             />
 
+            <DuplicateCandidateWarning
+              email={formData.email}
+              phone={formData.phone}
+              linkedInProfile={formData.linkedInProfile}
+            />
+
             <TextAreaField
               label="Notes"
               icon={<Info className="w-4 h-4 mr-2 text-blue-600" />}
@@ -497,7 +297,7 @@ Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"
               <input
                 id="resumeInput"
                 type="file"
-                accept="application/pdf"
+                accept={RESUME_EXTENSIONS.join(",")}
                 onChange={(e) =>
                   setResumeFile(e.target.files ? e.target.files[0] : null)
                 }
@@ -505,6 +305,17 @@ Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"
                 disabled={loading}
               />
             </div>
+
+            {resumeFile && (
+              <ResumeSuggestions
+                key={`${resumeFile.name}-${resumeFile.size}-${resumeFile.lastModified}`}
+                file={resumeFile}
+                values={formData}
+                onAccept={(field, value) =>
+                  setFormData((prev) => ({ ...prev, [field]: value }))
+                }
+              />
+            )}
           </div>
 
           {/* Actions */}
@@ -540,6 +351,15 @@ Mike Johnson,mike.johnson@email.com,7654321098,2 years,3.5 LPA,5 LPA,Immediate,"
   );
 };
 
+interface FieldProps<E extends HTMLElement> {
+  label: string;
+  icon: ReactNode;
+  name: string;
+  value: string;
+  onChange: (e: ChangeEvent<E>) => void;
+  disabled?: boolean;
+}
+
 // Reusable Input Component
 const InputField = ({
   label,
@@ -549,7 +369,7 @@ const InputField = ({
   onChange,
   type = "text",
   disabled = false,
-}: any) => (
+}: FieldProps<HTMLInputElement> & { type?: string }) => (
   <div>
     <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
       {icon} {label}
@@ -573,7 +393,7 @@ const TextAreaField = ({
   value,
   onChange,
   disabled = false,
-}: any) => (
+}: FieldProps<HTMLTextAreaElement>) => (
   <div>
     <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
       {icon} {label}
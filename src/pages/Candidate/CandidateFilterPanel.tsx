@@ -0,0 +1,132 @@
+import type { CandidatePageFilters } from "../../store/slices/apiSlice";
+import {
+  HAS_RESUME_OPTIONS,
+  NOTICE_PERIOD_BUCKETS,
+  SKILLS_MATCH_ANY,
+  isInvertedRange,
+  type CandidateRangeFilter,
+} from "../../utils/candidateFilters";
+
+// The filters beyond search and stage. Every change goes straight to the URL.
+const CandidateFilterPanel = ({
+  filters,
+  onChange,
+}: {
+  filters: CandidatePageFilters;
+  onChange: (changes: Partial<CandidatePageFilters>) => void;
+}) => {
+  const rangeInput = (range: CandidateRangeFilter, label: string, unit: string) => (
+    <div>
+      <span className="text-xs font-medium text-gray-600">
+        {label} <span className="text-gray-400">({unit})</span>
+      </span>
+      <div className="mt-1 grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={filters[`${range}Min`]}
+          onChange={(e) => onChange({ [`${range}Min`]: e.target.value })}
+          placeholder="Min"
+          aria-label={`${label} from`}
+          className="w-full border rounded p-2 text-sm"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={filters[`${range}Max`]}
+          onChange={(e) => onChange({ [`${range}Max`]: e.target.value })}
+          placeholder="Max"
+          aria-label={`${label} to`}
+          className="w-full border rounded p-2 text-sm"
+        />
+      </div>
+      {isInvertedRange(filters, range) && <p className="mt-1 text-xs text-red-600">Min is above max</p>}
+    </div>
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-white border rounded-lg shadow-sm grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+      {rangeInput("experience", "Experience", "years")}
+      {rangeInput("currentCtc", "Current CTC", "LPA")}
+      {rangeInput("expectedCtc", "Expected CTC", "LPA")}
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Notice Period</span>
+        <select
+          value={filters.noticePeriod}
+          onChange={(e) => onChange({ noticePeriod: e.target.value })}
+          className="mt-1 w-full border rounded p-2 text-sm"
+        >
+          <option value="">Any</option>
+          {NOTICE_PERIOD_BUCKETS.map((bucket) => (
+            <option key={bucket.key} value={bucket.key}>
+              {bucket.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="md:col-span-2">
+        <span className="text-xs font-medium text-gray-600">Skills</span>
+        <div className="mt-1 flex gap-2">
+          <input
+            type="text"
+            value={filters.skills}
+            onChange={(e) => onChange({ skills: e.target.value })}
+            placeholder="e.g. Java, Spring Boot, MySQL"
+            aria-label="Skills"
+            className="flex-1 border rounded p-2 text-sm"
+          />
+          <div className="flex rounded border overflow-hidden text-sm" role="group" aria-label="Match skills">
+            {[
+              { value: "", label: "All" },
+              { value: SKILLS_MATCH_ANY, label: "Any" },
+            ].map((option) => (
+              <button
+                key={option.label}
+                onClick={() => onChange({ skillsMatch: option.value })}
+                className={`px-3 ${
+                  filters.skillsMatch === option.value ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">Separate skills with commas</p>
+      </div>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Status</span>
+        <input
+          type="text"
+          value={filters.status}
+          onChange={(e) => onChange({ status: e.target.value })}
+          placeholder="Any status"
+          className="mt-1 w-full border rounded p-2 text-sm"
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Resume</span>
+        <select
+          value={filters.hasResume}
+          onChange={(e) => onChange({ hasResume: e.target.value })}
+          className="mt-1 w-full border rounded p-2 text-sm"
+        >
+          <option value="">Any</option>
+          {HAS_RESUME_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CandidateFilterPanel;
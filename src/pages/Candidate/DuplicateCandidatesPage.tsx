@@ -0,0 +1,161 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import { CheckCircle } from "lucide-react";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useImportDuplicates } from "../../hooks/useImportDuplicates";
+import { usePipeline } from "../../hooks/usePipeline";
+import { useGetCandidatesQuery } from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import CandidateMergeModal from "../../component/CandidateMergeModal";
+import CandidateStageBadge from "../../component/CandidateStageBadge";
+import { LinkCell } from "../../component/TableCells";
+import {
+  AFTER_IMPORT_PARAM,
+  DUPLICATE_FIELD_LABELS,
+  findDuplicateGroups,
+  importedIdentities,
+  matchingFields,
+  type DuplicateGroup,
+} from "../../utils/candidateDuplicates";
+
+// Every set of candidates that share an email, phone or LinkedIn URL, with a
+// merge action per set. After a bulk import only the sets involving the
+// imported rows are shown.
+const DuplicateCandidatesPage = () => {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const afterImport = searchParams.has(AFTER_IMPORT_PARAM);
+  // What the import uploaded; opened any other way, the report checks everyone
+  const imported = importedIdentities(location.state);
+  const { data: candidates = [], isLoading, error } = useGetCandidatesQuery(undefined, { skip: !!imported });
+  const importCheck = useImportDuplicates(imported);
+  const { stages } = usePipeline();
+  const [merging, setMerging] = useState<DuplicateGroup | null>(null);
+  const allGroups = useMemo(() => findDuplicateGroups(candidates), [candidates]);
+  const groups = imported ? importCheck.groups : allGroups;
+  const loading = imported ? !importCheck.done : isLoading;
+
+  useNotifyError(error, "Failed to fetch candidates");
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/candidate/show" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to candidates
+        </Link>
+        <div className="mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Duplicate Candidates</h1>
+          <p className="text-gray-500 mt-1">
+            Candidates sharing an email, phone number or LinkedIn profile. Merge them to keep one record per person.
+          </p>
+        </div>
+
+        {afterImport && !loading && (
+          <div
+            className={`mb-6 p-4 rounded-lg border ${
+              groups.length ? "border-amber-300 bg-amber-50 text-amber-800" : "border-green-300 bg-green-50 text-green-800"
+            }`}
+          >
+            Bulk import finished.{" "}
+            {groups.length
+              ? `${groups.length} set${groups.length === 1 ? "" : "s"} of possible duplicates found.`
+              : "No duplicates found."}
+          </div>
+        )}
+
+        {loading && (
+          <p className="mb-4 text-gray-500">
+            {imported
+              ? `Checking imported candidates... ${importCheck.checked} of ${importCheck.total}`
+              : "Checking candidates..."}
+          </p>
+        )}
+
+        {!loading && groups.length === 0 ? (
+          <div className="flex flex-col items-center py-16 text-gray-500">
+            <CheckCircle className="w-10 h-10 text-green-500 mb-2" />
+            No duplicate candidates.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <section key={group.candidates[0].id} className="bg-white rounded-lg shadow p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <p className="text-sm text-gray-600">
+                    {group.candidates.length} records &middot; same{" "}
+                    {group.fields.map((field) => DUPLICATE_FIELD_LABELS[field].toLowerCase()).join(", ")}
+                  </p>
+                  <Can permission="candidate.merge">
+                    <button
+                      onClick={() => setMerging(group)}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      Merge
+                    </button>
+                  </Can>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Name</th>
+                        <th className="py-2 pr-4 font-medium">Email</th>
+                        <th className="py-2 pr-4 font-medium">Phone</th>
+                        <th className="py-2 pr-4 font-medium">LinkedIn</th>
+                        <th className="py-2 pr-4 font-medium">Resume</th>
+                        <th className="py-2 font-medium">Stage</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {group.candidates.map((candidate) => {
+                        // Highlight the values this record shares with another one in the set
+                        const shared = new Set(
+                          group.candidates
+                            .filter((other) => other !== candidate)
+                            .flatMap((other) => matchingFields(candidate, other))
+                        );
+                        const cell = (field: "email" | "phone") => (
+                          <td className={`py-2 pr-4 ${shared.has(field) ? "font-medium text-amber-700" : ""}`}>
+                            {candidate[field] || "-"}
+                          </td>
+                        );
+                        return (
+                          <tr key={candidate.id}>
+                            <td className="py-2 pr-4 text-gray-900">
+                              {candidate.name || "-"} <span className="text-gray-400">#{candidate.id}</span>
+                            </td>
+                            {cell("email")}
+                            {cell("phone")}
+                            <td className={`py-2 pr-4 ${shared.has("linkedInProfile") ? "font-medium" : ""}`}>
+                              <LinkCell url={candidate.linkedInProfile} text="Profile" />
+                            </td>
+                            <td className="py-2 pr-4">
+                              <LinkCell url={candidate.resumeLink} text="Resume" />
+                            </td>
+                            <td className="py-2">
+                              <CandidateStageBadge stage={candidate.stage} stages={stages} />
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {merging && (
+        <CandidateMergeModal
+          candidates={merging.candidates}
+          onClose={() => setMerging(null)}
+          onMerged={(_survivorId, duplicateId) => importCheck.removeCandidate(duplicateId)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DuplicateCandidatesPage;
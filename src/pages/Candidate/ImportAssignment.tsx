@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import { notifyError } from "../../utils/notify";
+import { useAutoAssignment } from "../../hooks/useAutoAssignment";
+import { useLazyFindCandidatesByEmailsQuery } from "../../store/slices/apiSlice";
+import AssignmentPreview from "../../component/AssignmentPreview";
+import { assignmentStrategyLabel } from "../../utils/autoAssign";
+import { normalizeIdentity } from "../../utils/candidateDuplicates";
+import type { CandidateResponse } from "../../api/models/CandidateResponse";
+
+interface ImportAssignmentProps {
+  // Emails of the rows just imported, blank for rows without one. The import
+  // only answers with a message, so the new records are looked up by them.
+  emails: string[];
+}
+
+// The newest records with an email are the ones the import just created, as
+// many as the file had rows with it
+const importedRecords = (found: CandidateResponse[], emails: string[]) => {
+  const wanted = new Map<string, number>();
+  for (const email of emails) {
+    const key = normalizeIdentity("email", email);
+    if (key) wanted.set(key, (wanted.get(key) ?? 0) + 1);
+  }
+  return [...found]
+    .sort((a, b) => (b.id ?? 0) - (a.id ?? 0))
+    .filter((candidate) => {
+      const key = normalizeIdentity("email", candidate.email);
+      const left = wanted.get(key) ?? 0;
+      if (left === 0) return false;
+      wanted.set(key, left - 1);
+      return true;
+    });
+};
+
+// Offered once a bulk import lands: assign the new candidates' tickets with
+// an assignment rule, after a preview of who would get what
+const ImportAssignment = ({ emails }: ImportAssignmentProps) => {
+  const [ruleId, setRuleId] = useState("");
+  const { rules, rule, plan, assignPlan, loading } = useAutoAssignment(true, ruleId);
+  const [findByEmails] = useLazyFindCandidatesByEmailsQuery();
+  // The imported records, once looked up; null until a rule is first picked
+  const [candidates, setCandidates] = useState<CandidateResponse[] | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [assigning, setAssigning] = useState(false);
+  // How many tickets went through and how many didn't, once assigned
+  const [assigned, setAssigned] = useState<{ committed: number; failed: number } | null>(null);
+
+  const assignmentPlan = useMemo(
+    () => (rule && candidates ? plan(rule, candidates) : []),
+    [rule, candidates, plan]
+  );
+
+  // Rows without a usable email can't be found again, so they're only counted
+  const lookUpCandidates = async () => {
+    const lookup = [...new Set(emails.map((email) => normalizeIdentity("email", email)).filter(Boolean))];
+    setLookingUp(true);
+    try {
+      const found = lookup.length ? await findByEmails(lookup).unwrap() : [];
+      setCandidates(importedRecords(found, emails));
+    } catch (error) {
+      notifyError(error, "Failed to find the imported candidates");
+      setRuleId("");
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const chooseRule = (id: string) => {
+    setRuleId(id);
+    if (id && !candidates && !lookingUp) lookUpCandidates();
+  };
+
+  const handleAssign = async () => {
+    if (!rule) return;
+    const planned = assignmentPlan.filter(({ user }) => user);
+    if (planned.length === 0) {
+      toast.error("The rule can't assign any of the imported candidates");
+      return;
+    }
+
+    try {
+      setAssigning(true);
+      const { committed, failed } = await assignPlan(rule, planned);
+      if (failed.length === 0) toast.success(`${committed.length} ticket(s) assigned using ${rule.name}`);
+      if (committed.length > 0) setAssigned({ committed: committed.length, failed: failed.length });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  if (rules.length === 0) return null;
+
+  const unmatched = candidates ? emails.length - candidates.length : 0;
+
+  if (assigned) {
+    return assigned.failed === 0 ? (
+      <p className="text-sm text-green-700">The imported candidates' tickets were assigned using {rule?.name}.</p>
+    ) : (
+      <p className="text-sm text-amber-700">
+        {assigned.committed} ticket(s) were assigned using {rule?.name}; {assigned.failed} weren't. Assign those from the
+        ticket list.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Assign their tickets using</label>
+        <select
+          value={ruleId}
+          onChange={(e) => chooseRule(e.target.value)}
+          disabled={assigning}
+          className="w-full md:w-96 border p-2 rounded focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Don't assign now</option>
+          {rules.map((r) => (
+            <option key={r.id} value={r.id}>
+              Rule: {r.name} ({assignmentStrategyLabel(r.strategy)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {lookingUp && <p className="text-sm text-gray-500">Finding the imported candidates...</p>}
+
+      {unmatched > 0 && (
+        <p className="text-sm text-amber-700">
+          {unmatched} imported row(s) couldn't be matched to a candidate by email and are left out. Assign their
+          tickets from the ticket list.
+        </p>
+      )}
+
+      {rule && candidates && (
+        <>
+          <h4 className="text-sm font-semibold text-gray-700">
+            Preview: {rule.name} would assign {candidates.length} candidate(s) like this
+          </h4>
+          <AssignmentPreview plan={assignmentPlan} />
+          <div className="flex justify-end">
+            <button
+              onClick={handleAssign}
+              disabled={assigning || loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {assigning ? "Assigning..." : "Assign"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportAssignment;
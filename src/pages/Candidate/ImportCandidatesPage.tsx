@@ -0,0 +1,375 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { AlertCircle, CheckCircle2, FileSpreadsheet, RotateCcw, Upload } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import Can from "../../component/Can";
+import { useImportCandidatesMutation } from "../../store/slices/apiSlice";
+import Pagination from "../../component/Pagination";
+import ImportAssignment from "./ImportAssignment";
+import { AFTER_IMPORT_PARAM, duplicateLookup, type ImportedIdentities } from "../../utils/candidateDuplicates";
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  hasErrors,
+  toImportFile,
+  toImportRows,
+  validateImportRow,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow,
+  type ImportValues,
+} from "../../utils/candidateImport";
+import {
+  SPREADSHEET_EXTENSIONS,
+  SpreadsheetError,
+  isBlankRow,
+  readSpreadsheet,
+  type SheetRows,
+} from "../../utils/spreadsheet";
+
+type Step = "upload" | "map" | "review" | "done";
+
+const STEPS: { key: Step; label: string }[] = [
+  { key: "upload", label: "Choose file" },
+  { key: "map", label: "Map columns" },
+  { key: "review", label: "Review rows" },
+  { key: "done", label: "Finish" },
+];
+
+const ROWS_PER_PAGE = 25;
+const PREVIEW_VALUES = 3;
+
+// 0 -> A, 25 -> Z, 26 -> AA, like the spreadsheet's own column headers
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+// Column headers as shown in the mapping step; blank headers get their letter
+const columnName = (header: string | undefined, index: number) => header?.trim() || `Column ${columnLetter(index)}`;
+
+// The uploaded file keeps the original name, as an .xlsx
+const importFileName = (name: string) => `${name.replace(/\.[^.]*$/, "") || "candidates"}.xlsx`;
+
+// Reads a spreadsheet in the browser, lets the user map its columns to
+// candidate fields and fix or skip bad rows, then uploads the clean rows to
+// the bulk import as one file. Once it lands, the new candidates can be
+// assigned by rule and checked for duplicates.
+const ImportCandidatesPage = () => {
+  const navigate = useNavigate();
+  const [importCandidates] = useImportCandidatesMutation();
+  const [uploading, setUploading] = useState(false);
+  // What went up in the last successful import
+  const [imported, setImported] = useState<ImportValues[]>([]);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [reading, setReading] = useState(false);
+  const [sheet, setSheet] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  // Lines that had errors when "only rows with errors" was ticked. Kept fixed
+  // so a row doesn't vanish from under the user while they correct it.
+  const [errorLines, setErrorLines] = useState<Set<number> | null>(null);
+  const [page, setPage] = useState(1);
+
+  const headers = sheet[0] ?? [];
+  const dataRows = sheet.slice(1).filter((cells) => !isBlankRow(cells));
+  const errors = useMemo(() => rows.map((row) => validateImportRow(row.values)), [rows]);
+  const indexed = rows.map((row, index) => ({ row, index }));
+  const pending = indexed.filter(({ row }) => !row.skipped);
+  const invalid = pending.filter(({ index }) => hasErrors(errors[index]));
+  const ready = pending.filter(({ index }) => !hasErrors(errors[index]));
+  const shown = errorLines ? indexed.filter(({ row }) => errorLines.has(row.line)) : indexed;
+  const totalPages = Math.max(1, Math.ceil(shown.length / ROWS_PER_PAGE));
+  const pageRows = shown.slice((page - 1) * ROWS_PER_PAGE, page * ROWS_PER_PAGE);
+  // Unmapped optional fields would only add empty columns to the review
+  const reviewFields = IMPORT_FIELDS.filter((field) => field.required || mapping[field.key] !== undefined);
+  const unmappedRequired = IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.length < 2 || parsed.slice(1).every(isBlankRow)) {
+        toast.error("The file needs a header row and at least one candidate");
+        return;
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+      setStep("map");
+    } catch (error) {
+      toast.error(error instanceof SpreadsheetError ? error.message : "Couldn't read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const mapColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === "") delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const goToReview = () => {
+    if (unmappedRequired.length) {
+      toast.error(`Map a column to ${unmappedRequired.map((field) => field.label).join(", ")}`);
+      return;
+    }
+    setRows(toImportRows(sheet, mapping));
+    setErrorLines(null);
+    setPage(1);
+    setStep("review");
+  };
+
+  const updateRow = (index: number, changes: Partial<ImportRow>) =>
+    setRows((previous) => previous.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const setValue = (index: number, field: ImportField, value: string) =>
+    updateRow(index, { values: { ...rows[index].values, [field]: value } });
+
+  const skipInvalidRows = () =>
+    setRows((previous) => previous.map((row, i) => (hasErrors(errors[i]) ? { ...row, skipped: true } : row)));
+
+  const startOver = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet([]);
+    setMapping({});
+    setRows([]);
+    setImported([]);
+  };
+
+  const handleImport = async () => {
+    if (invalid.length) {
+      toast.error(`Fix or skip the ${invalid.length} row${invalid.length === 1 ? "" : "s"} with errors first`);
+      return;
+    }
+    setUploading(true);
+    try {
+      const file = toImportFile(ready.map(({ row }) => row.values), importFileName(fileName));
+      const { message } = await importCandidates(file).unwrap();
+      toast.success(message || `${ready.length} candidate${ready.length === 1 ? "" : "s"} imported`);
+      setImported(ready.map(({ row }) => row.values));
+      setStep("done");
+    } catch (error) {
+      notifyError(error, "Bulk upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // The import doesn't check for existing records; show what it duplicated
+  const reviewDuplicates = () => {
+    const state: ImportedIdentities = { imported: imported.flatMap((values) => duplicateLookup(values) ?? []) };
+    navigate(`/home/candidate/duplicates?${AFTER_IMPORT_PARAM}`, { state });
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/candidate/add" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to add candidate
+        </Link>
+        <div className="flex flex-wrap justify-between items-center gap-4 mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Import Candidates</h1>
+          {step !== "upload" && (
+            <button onClick={startOver} className="flex items-center px-4 py-2 bg-white border rounded-lg hover:bg-gray-50">
+              <RotateCcw className="w-4 h-4 mr-2" /> Start over
+            </button>
+          )}
+        </div>
+
+        <ol className="flex gap-2 mb-6 text-sm">
+          {STEPS.map(({ key, label }, index) => (
+            <li
+              key={key}
+              className={`px-3 py-1 rounded-full ${
+                step === key ? "bg-blue-600 text-white" : "bg-white border text-gray-600"
+              }`}
+            >
+              {index + 1}. {label}
+            </li>
+          ))}
+        </ol>
+
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center gap-3 py-16 bg-white border-2 border-dashed rounded-lg cursor-pointer hover:bg-gray-50">
+            <FileSpreadsheet className="w-10 h-10 text-green-600" />
+            <span className="font-medium text-gray-800">{reading ? "Reading file..." : "Choose a .csv or .xlsx file"}</span>
+            <span className="text-sm text-gray-500">The first row must hold the column headers.</span>
+            <input
+              type="file"
+              accept={SPREADSHEET_EXTENSIONS.join(",")}
+              className="hidden"
+              disabled={reading}
+              onChange={(e) => {
+                if (e.target.files?.[0]) handleFile(e.target.files[0]);
+                // Reset the input to allow the same file again
+                e.target.value = "";
+              }}
+            />
+          </label>
+        )}
+
+        {step === "map" && (
+          <section className="bg-white rounded-lg shadow p-6">
+            <p className="text-sm text-gray-600 mb-4">
+              <b>{fileName}</b> has {dataRows.length} row{dataRows.length === 1 ? "" : "s"}. Pick the column that holds each
+              field; fields marked * are required.
+            </p>
+            <div className="divide-y">
+              {IMPORT_FIELDS.map((field) => {
+                const column = mapping[field.key];
+                const samples =
+                  column === undefined
+                    ? []
+                    : dataRows
+                        .map((cells) => cells[column]?.trim())
+                        .filter(Boolean)
+                        .slice(0, PREVIEW_VALUES);
+                return (
+                  <div key={field.key} className="grid gap-2 py-3 md:grid-cols-3 md:items-center">
+                    <span className="font-medium text-gray-700">
+                      {field.label}
+                      {field.required && " *"}
+                    </span>
+                    <select
+                      value={column ?? ""}
+                      onChange={(e) => mapColumn(field.key, e.target.value)}
+                      className={`border rounded p-2 ${field.required && column === undefined ? "border-red-400" : ""}`}
+                    >
+                      <option value="">Don't import</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {columnName(header, index)}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500 truncate">{samples.join(" · ")}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={goToReview}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Review rows
+              </button>
+            </div>
+          </section>
+        )}
+
+        {step === "review" && (
+          <section className="bg-white rounded-lg shadow p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <p className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                <span className="flex items-center gap-1 text-green-700">
+                  <CheckCircle2 className="w-4 h-4" /> {ready.length} ready
+                </span>
+                <span className="flex items-center gap-1 text-red-700">
+                  <AlertCircle className="w-4 h-4" /> {invalid.length} with errors
+                </span>
+                <span className="text-gray-500">{rows.length - pending.length} skipped</span>
+              </p>
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!errorLines}
+                    onChange={(e) => {
+                      setErrorLines(e.target.checked ? new Set(invalid.map(({ row }) => row.line)) : null);
+                      setPage(1);
+                    }}
+                  />
+                  Only rows with errors
+                </label>
+                {invalid.length > 0 && (
+                  <button onClick={skipInvalidRows} className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300">
+                    Skip all rows with errors
+                  </button>
+                )}
+                <button
+                  onClick={handleImport}
+                  disabled={ready.length === 0 || uploading}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  <Upload className="w-4 h-4 mr-2" /> {uploading ? "Uploading..." : `Import ${ready.length}`}
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2 font-medium">Row</th>
+                    {reviewFields.map((field) => (
+                      <th key={field.key} className="py-2 pr-2 font-medium min-w-[9rem]">
+                        {field.label}
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {pageRows.map(({ row, index }) => (
+                    <tr key={row.line} className={`align-top ${row.skipped ? "opacity-50" : ""}`}>
+                      <td className="py-2 pr-2 text-gray-500">{row.line}</td>
+                      {reviewFields.map((field) => {
+                        const error = row.skipped ? undefined : errors[index][field.key];
+                        return (
+                          <td key={field.key} className="py-2 pr-2">
+                            <input
+                              type="text"
+                              value={row.values[field.key]}
+                              onChange={(e) => setValue(index, field.key, e.target.value)}
+                              disabled={row.skipped}
+                              className={`w-full border rounded px-2 py-1 ${error ? "border-red-400 bg-red-50" : ""}`}
+                            />
+                            {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2">
+                        <button
+                          onClick={() => updateRow(index, { skipped: !row.skipped })}
+                          className="px-2 py-1 text-xs border rounded hover:bg-gray-50"
+                        >
+                          {row.skipped ? "Include" : "Skip"}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {pageRows.length === 0 && <p className="py-8 text-center text-gray-500">No rows with errors.</p>}
+            </div>
+            <Pagination page={Math.min(page, totalPages)} totalPages={totalPages} onPageChange={setPage} />
+          </section>
+        )}
+
+        {step === "done" && (
+          <section className="bg-white rounded-lg shadow p-6 space-y-6">
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="w-5 h-5" /> {imported.length} candidate{imported.length === 1 ? "" : "s"} imported
+              from <b>{fileName}</b>.
+            </p>
+            <Can permission="ticket.assign">
+              <ImportAssignment emails={imported.map(({ email }) => email.trim())} />
+            </Can>
+            <div className="flex justify-end">
+              <button onClick={reviewDuplicates} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+                Check for duplicates
+              </button>
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportCandidatesPage;
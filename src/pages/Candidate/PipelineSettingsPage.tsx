@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useCurrentUser } from "../../hooks/useCurrentUser";
+import { usePermission } from "../../hooks/usePermission";
+import { usePipeline } from "../../hooks/usePipeline";
+import { useGetCompaniesQuery, useUpdatePipelineMutation } from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import { confirm } from "../../utils/confirm";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  DEFAULT_REJECTION_REASONS,
+  STAGE_KINDS,
+  STAGE_KIND_LABELS,
+  stageKeyFor,
+} from "../../utils/pipeline";
+import type { PipelineStage } from "../../api/models/PipelineStage";
+
+const PipelineEditor = ({
+  companyId,
+  initialStages,
+  initialReasons,
+}: {
+  companyId: number;
+  initialStages: PipelineStage[];
+  initialReasons: string[];
+}) => {
+  const [stages, setStages] = useState(initialStages);
+  const [reasons, setReasons] = useState(initialReasons);
+  const [newReason, setNewReason] = useState("");
+  const [updatePipeline, { isLoading: saving }] = useUpdatePipelineMutation();
+
+  const setStage = (index: number, changes: PipelineStage) =>
+    setStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+
+  const moveStage = (index: number, step: -1 | 1) => {
+    const next = [...stages];
+    [next[index], next[index + step]] = [next[index + step], next[index]];
+    setStages(next);
+  };
+
+  // New stages get their key when saved, from the label they have by then
+  const addStage = () => setStages([...stages, { label: "", kind: "OPEN" }]);
+
+  const removeStage = async (index: number) => {
+    const stage = stages[index];
+    if (stage.key) {
+      const confirmed = await confirm({
+        title: "Remove Stage",
+        message: (
+          <>
+            Candidates already in <b>{stage.label}</b> keep it until they are moved. Remove it from the pipeline?
+          </>
+        ),
+        confirmLabel: "Remove",
+        tone: "danger",
+      });
+      if (!confirmed) return;
+    }
+    setStages(stages.filter((_, i) => i !== index));
+  };
+
+  const addReason = () => {
+    const reason = newReason.trim();
+    if (!reason) return;
+    if (reasons.some((r) => r.toLowerCase() === reason.toLowerCase())) {
+      toast.error("That reason is already in the list");
+      return;
+    }
+    setReasons([...reasons, reason]);
+    setNewReason("");
+  };
+
+  const resetToDefaults = async () => {
+    const confirmed = await confirm({
+      title: "Reset Pipeline",
+      message: "Replace these stages and rejection reasons with the defaults? Nothing is saved until you click Save.",
+      confirmLabel: "Reset",
+    });
+    if (!confirmed) return;
+    setStages(DEFAULT_PIPELINE_STAGES);
+    setReasons(DEFAULT_REJECTION_REASONS);
+  };
+
+  const handleSave = async () => {
+    const labels = stages.map((stage) => stage.label?.trim() ?? "");
+    if (labels.some((label) => !label)) {
+      toast.error("Every stage needs a name");
+      return;
+    }
+    if (new Set(labels.map((label) => label.toLowerCase())).size !== labels.length) {
+      toast.error("Stage names must be unique");
+      return;
+    }
+    if (!stages.some((stage) => stage.kind === "OPEN")) {
+      toast.error("The pipeline needs at least one in-progress stage");
+      return;
+    }
+    if (stages.some((stage) => stage.kind === "REJECTED") && reasons.length === 0) {
+      toast.error("Add at least one rejection reason");
+      return;
+    }
+
+    const keys = stages.map((stage) => stage.key).filter((key): key is string => !!key);
+    const saved = stages.map((stage, index) => {
+      if (stage.key) return { ...stage, label: labels[index] };
+      const key = stageKeyFor(labels[index], keys);
+      keys.push(key);
+      return { ...stage, key, label: labels[index] };
+    });
+
+    try {
+      await updatePipeline({ companyId, stages: saved, rejectionReasons: reasons }).unwrap();
+      setStages(saved);
+      toast.success("Pipeline saved");
+    } catch (error) {
+      notifyError(error, "Failed to update pipeline");
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <section className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-gray-800">Stages</h2>
+          <button onClick={addStage} className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+            <Plus className="w-4 h-4" /> Add stage
+          </button>
+        </div>
+        <ol className="space-y-2">
+          {stages.map((stage, index) => (
+            <li key={stage.key ?? `new-${index}`} className="flex items-center gap-2">
+              <span className="w-6 text-right text-sm text-gray-500">{index + 1}.</span>
+              <input
+                type="text"
+                value={stage.label ?? ""}
+                onChange={(e) => setStage(index, { label: e.target.value })}
+                placeholder="Stage name"
+                className="flex-1 border rounded p-2"
+              />
+              <select
+                value={stage.kind}
+                onChange={(e) => setStage(index, { kind: e.target.value })}
+                className="border rounded p-2"
+              >
+                {STAGE_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {STAGE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveStage(index, -1)}
+                disabled={index === 0}
+                className="p-2 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                aria-label="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveStage(index, 1)}
+                disabled={index === stages.length - 1}
+                className="p-2 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                aria-label="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => removeStage(index)}
+                className="p-2 text-red-600 hover:text-red-800"
+                aria-label="Remove stage"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <p className="mt-3 text-xs text-gray-500">
+          Moving a candidate to a rejected stage asks for one of the rejection reasons.
+        </p>
+      </section>
+
+      <section className="bg-white rounded-lg shadow p-6 h-fit">
+        <h2 className="font-semibold text-gray-800 mb-4">Rejection Reasons</h2>
+        <ul className="space-y-1 mb-3">
+          {reasons.map((reason) => (
+            <li key={reason} className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-gray-50">
+              <span className="text-sm text-gray-800">{reason}</span>
+              <button
+                onClick={() => setReasons(reasons.filter((r) => r !== reason))}
+                className="text-red-600 hover:text-red-800"
+                aria-label={`Remove ${reason}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addReason()}
+            placeholder="New reason"
+            className="flex-1 border rounded p-2 text-sm"
+          />
+          <button onClick={addReason} className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300">
+            Add
+          </button>
+        </div>
+      </section>
+
+      <div className="lg:col-span-3 flex justify-end gap-3">
+        <button onClick={resetToDefaults} className="px-4 py-2 bg-white border rounded hover:bg-gray-50">
+          Reset to defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// The recruiting stages candidates move through and the reasons they can be
+// rejected for, per company
+const PipelineSettingsPage = () => {
+  const { user } = useCurrentUser();
+  const canSeeAllCompanies = usePermission("company.view-all");
+  const { data: companies = [], error: companiesError } = useGetCompaniesQuery(undefined, { skip: !canSeeAllCompanies });
+  const [selectedCompanyId, setSelectedCompanyId] = useState<number | undefined>();
+  const companyId = selectedCompanyId ?? user?.companyId;
+  const { pipeline, stages, rejectionReasons, loading } = usePipeline(companyId);
+
+  useNotifyError(companiesError, "Failed to fetch companies");
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/candidate/show" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to candidates
+        </Link>
+        <div className="flex flex-wrap justify-between items-center gap-4 mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Candidate Pipeline</h1>
+          {canSeeAllCompanies && (
+            <select
+              value={companyId ?? ""}
+              onChange={(e) => setSelectedCompanyId(e.target.value ? Number(e.target.value) : undefined)}
+              className="border rounded-lg px-3 py-2 bg-white"
+            >
+              {!companyId && <option value="">Select a company</option>}
+              {companies.map((company) => (
+                <option key={company.id} value={company.id}>
+                  {company.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {!companyId ? (
+          <p className="text-gray-500">Select a company to edit its pipeline.</p>
+        ) : loading ? (
+          <p className="text-gray-500">Loading pipeline...</p>
+        ) : (
+          <Can
+            permission="candidate.pipeline"
+            fallback={<p className="text-gray-500">You don't have permission to edit the pipeline.</p>}
+          >
+            {/* Remount per company and once the saved pipeline arrives, so the form starts from it */}
+            <PipelineEditor
+              key={`${companyId}-${pipeline ? "saved" : "default"}`}
+              companyId={companyId}
+              initialStages={stages}
+              initialReasons={rejectionReasons}
+            />
+          </Can>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PipelineSettingsPage;
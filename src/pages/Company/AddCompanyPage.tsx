@@ -1,7 +1,7 @@
 import  { useState } from "react";
-import axios from "axios";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useAddCompanyMutation } from "../../store/slices/apiSlice";
 import { Save, RotateCcw, User, Mail, Phone, MapPin } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 interface CompanyFormData {
@@ -21,6 +21,7 @@ const AddCompanyPage = () => {
     phone: "",
     address: "",
   });
+  const [addCompany] = useAddCompanyMutation();
   const [loading, setLoading] = useState(false);
 
   const handleInputChange = (
@@ -46,23 +47,12 @@ const AddCompanyPage = () => {
 
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.post(`${API_BASE}/company/add`, formData, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (response.data.code === 1 || response.data.code === 200) {
-        toast.success(response.data.message || "Company added successfully!");
-        resetForm();
-        navigate('/home/company/show')
-      } else {
-        toast.error(response.data.message || "Failed to add company");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to add company");
+      const { message } = await addCompany(formData).unwrap();
+      toast.success(message || "Company added successfully!");
+      resetForm();
+      navigate('/home/company/show')
+    } catch (error) {
+      notifyError(error, "Failed to add company");
     } finally {
       setLoading(false);
     }
@@ -1,9 +1,9 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Activity, CheckCircle, XCircle, PlayCircle, AlertCircle } from "lucide-react";
-import axios from "axios";
-import { API_BASE } from "../../utils/api";
-import { toast } from "react-hot-toast";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useGetTicketStatusCountQuery } from "../../store/slices/apiSlice";
+import { ticketStatusLabel } from "../../utils/ticketStatus";
 
 interface DashboardHomeProps {
   onNavigateToTickets?: (status: string) => void;
@@ -11,58 +11,20 @@ interface DashboardHomeProps {
 
 const DashboardHome: React.FC<DashboardHomeProps> = ({ onNavigateToTickets }) => {
   const navigate = useNavigate();
-  const [userName, setUserName] = useState("");
-  const [departmentName, setDepartmentName] = useState("");
-  const [userEmail, setUserEmail] = useState("");
-  const [menuCount, setMenuCount] = useState(0);
-  const [ticketStatusData, setTicketStatusData] = useState({
+  const { data: counts, isLoading: loading, error } = useGetTicketStatusCountQuery();
+  const ticketStatusData = {
     COMPLETED: 0,
     CLOSED: 0,
     INPROGRESS: 0,
     PENDING: 0,
-    OPEN: 0
-  });
-  const [loading, setLoading] = useState(false);
+    OPEN: 0,
+    ...counts,
+  };
 
   // Define the display order for status cards
   const statusOrder = ['OPEN', 'PENDING', 'INPROGRESS', 'CLOSED', 'COMPLETED'];
 
-  useEffect(() => {
-    const userStr = sessionStorage.getItem("user");
-    if (userStr) {
-      try {
-        const user = JSON.parse(userStr);
-        setUserName(user?.name || "");
-        setDepartmentName(user?.departmentName || "");
-        setUserEmail(user?.email || "");
-        setMenuCount(user?.menulist?.length || 0);
-      } catch (error) {
-        console.error("Error parsing user data:", error);
-      }
-    }
-    
-    fetchTicketStatusCounts();
-  }, []);
-
-  const fetchTicketStatusCounts = async () => {
-    try {
-      setLoading(true);
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/ticket/ticket-status-count`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) {
-        setTicketStatusData(res.data.data);
-      } else {
-        toast.error(res.data.message || "Failed to fetch ticket status counts");
-      }
-    } catch (error) {
-      console.error("Error fetching ticket status counts:", error);
-      toast.error("Error fetching ticket status counts");
-    } finally {
-      setLoading(false);
-    }
-  };
+  useNotifyError(error, "Failed to fetch ticket status counts");
 
   // Navigate on card/segment click
   const handleCardClick = (status: string) => {
@@ -219,17 +181,6 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ onNavigateToTickets }) =>
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case 'COMPLETED': return 'Completed';
-      case 'CLOSED': return 'Closed';
-      case 'INPROGRESS': return 'In Progress';
-      case 'PENDING': return 'Pending';
-      case 'OPEN': return 'Open';
-      default: return status;
-    }
-  };
-
   return (
     <div className="space-y-8 relative">
       <div className="relative bg-gradient-to-br from-white/90 to-blue-50/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-white/20 p-12 overflow-hidden group">
@@ -260,7 +211,7 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ onNavigateToTickets }) =>
                       </div>
                     </div>
                     
-                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">{getStatusLabel(status)}</h3>
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">{ticketStatusLabel(status)}</h3>
                     <p className="text-xl font-bold text-slate-800 mb-1">
                       {loading ? 'Loading...' : `${count} Tickets`}
                     </p>
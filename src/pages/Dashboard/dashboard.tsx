@@ -1,6 +1,16 @@
-import { useEffect, useState } from "react";
-import { useNavigate, Outlet, Link } from "react-router-dom";
-import { ChevronDown, Menu, X, User, LogOut, Shield} from "lucide-react";
+import { useState } from "react";
+import { useNavigate, Outlet, Link, useLocation } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { Bookmark, ChevronDown, Menu, X, User, LogOut, Shield} from "lucide-react";
+import { useAppDispatch } from "../../store/hooks";
+import { logout } from "../../store/slices/authSlice";
+import { useDeleteSavedViewMutation, useGetSavedViewsQuery } from "../../store/slices/apiSlice";
+import { useCurrentUser } from "../../hooks/useCurrentUser";
+import NotificationBell from "../../component/NotificationBell";
+import { confirm } from "../../utils/confirm";
+import { notifyError } from "../../utils/notify";
+import { savedViewLink, type SavedViewScope } from "../../utils/savedViews";
+import type { SavedViewResponse } from "../../api/models/SavedViewResponse";
 
 interface SubMenu {
   id: number;
@@ -21,33 +31,23 @@ interface Menu {
 }
 
 const Dashboard = () => {
-  const [menus, setMenus] = useState<Menu[]>([]);
-  const [userName, setUserName] = useState("");
-
-  const [departmentName, setDepartmentName] = useState("");
+  const { user } = useCurrentUser();
+  const menus = (user?.menulist || []) as Menu[];
+  const userName = user?.name || "";
+  const departmentName = user?.departmentName || "";
   const [expandedMenus, setExpandedMenus] = useState<{ [key: number]: boolean }>({});
   const [collapsed, setCollapsed] = useState(false);
   const navigate = useNavigate();
-
-  useEffect(() => {
-    const userStr = sessionStorage.getItem("user");
-    if (!userStr) {
-      console.log("No user data found, redirecting to login");
-      navigate("/");
-      return;
-    }
-
-    try {
-      const user = JSON.parse(userStr);
-      setMenus(user?.menulist || []);
-      setUserName(user?.name || "");
-      
-      setDepartmentName(user?.departmentName || "");
-    } catch (error) {
-      console.error("Error parsing user data:", error);
-      navigate("/");
-    }
-  }, [navigate]);
+  const location = useLocation();
+  const dispatch = useAppDispatch();
+  // Saved views are listed under the menu of the list they open
+  const { data: ticketViews = [] } = useGetSavedViewsQuery("TICKET");
+  const { data: candidateViews = [] } = useGetSavedViewsQuery("CANDIDATE");
+  const savedViewsByMenu: Partial<Record<string, { scope: SavedViewScope; views: SavedViewResponse[] }>> = {
+    ticket: { scope: "TICKET", views: ticketViews },
+    candidate: { scope: "CANDIDATE", views: candidateViews },
+  };
+  const [deleteSavedView] = useDeleteSavedViewMutation();
 
   const handleMenuClick = (menu: Menu) => {
     if (menu.submenulist && menu.submenulist.length > 0) {
@@ -67,8 +67,25 @@ const Dashboard = () => {
     navigate(`/home/${menuUrl}/${subUrl}`);
   };
 
+  const handleDeleteView = async (view: SavedViewResponse) => {
+    const confirmed = await confirm({
+      title: "Delete Saved View",
+      message: <>Are you sure you want to delete <b>{view.name}</b>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteSavedView(view.id!).unwrap();
+      toast.success("Saved view deleted");
+    } catch (error) {
+      notifyError(error, "Failed to delete saved view");
+    }
+  };
+
   const handleLogout = () => {
-    sessionStorage.clear();
+    dispatch(logout());
     navigate("/");
   };
 
@@ -133,6 +150,7 @@ const Dashboard = () => {
         <nav className="flex-1 p-3 space-y-2 overflow-y-auto scrollbar-thin scrollbar-thumb-blue-600 scrollbar-track-transparent">
           {menus.map((menu) => {
             const isExpanded = expandedMenus[menu.id];
+            const savedViews = savedViewsByMenu[menu.url];
             return (
               <div key={menu.id} className="group">
                 <button
@@ -183,6 +201,35 @@ const Dashboard = () => {
                         {sub.name}
                       </button>
                     ))}
+                    {savedViews && savedViews.views.length > 0 && (
+                      <>
+                        <p className="px-2.5 pt-2 text-xs uppercase tracking-wide text-blue-300">Saved Views</p>
+                        {savedViews.views.map((view) => {
+                          const link = savedViewLink(savedViews.scope, view);
+                          const active = `${location.pathname}${location.search}` === link;
+                          return (
+                            <div
+                              key={view.id}
+                              className={`group/view flex items-center rounded-lg transition ${
+                                active ? "bg-blue-700/60 text-white" : "text-blue-200 hover:bg-blue-700/40 hover:text-white"
+                              }`}
+                            >
+                              <Link to={link} className="flex-1 flex items-center gap-2 px-2.5 py-2 text-sm truncate">
+                                <Bookmark className="w-3.5 h-3.5 shrink-0" />
+                                <span className="truncate">{view.name}</span>
+                              </Link>
+                              <button
+                                onClick={() => handleDeleteView(view)}
+                                className="px-2 opacity-0 group-hover/view:opacity-100 hover:text-red-300"
+                                aria-label={`Delete ${view.name}`}
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -211,7 +258,7 @@ const Dashboard = () => {
             </div>
 
             <div className="flex items-center space-x-4">
-             
+              <NotificationBell />
 
               {/* User Info Card */}
               <div className="flex items-center space-x-3 px-4 py-2.5 bg-white/60 backdrop-blur-sm rounded-2xl border border-white/30 shadow-lg hover:shadow-xl transition-all duration-300 group/userinfo">
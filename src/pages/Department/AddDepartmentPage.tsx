@@ -1,13 +1,14 @@
 import  { useState } from "react";
-import axios from "axios";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useAddDepartmentMutation } from "../../store/slices/apiSlice";
 import { Plus, Save, RotateCcw, Briefcase } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 const AddDepartmentPage = () => {
   const navigate = useNavigate();
   const [name, setName] = useState("");
+  const [addDepartment] = useAddDepartmentMutation();
   const [loading, setLoading] = useState(false);
 
   const resetForm = () => setName("");
@@ -20,26 +21,12 @@ const AddDepartmentPage = () => {
 
     try {
       setLoading(true);
-      const token = sessionStorage.getItem("token");
-
-      const body = { name };
-
-      const response = await axios.post(`${API_BASE}/department/add`, body, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (response.data.code === 200 || response.data.code === 1) {
-        toast.success("Department added successfully!");
-        resetForm();
-        navigate("/home/department/show");
-      } else {
-        toast.error(response.data.message || "Failed to add department");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to add department");
+      await addDepartment({ name }).unwrap();
+      toast.success("Department added successfully!");
+      resetForm();
+      navigate("/home/department/show");
+    } catch (error) {
+      notifyError(error, "Failed to add department");
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,31 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { ShieldOff } from "lucide-react";
+
+const ForbiddenPage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  return (
+    <div className="p-6 flex items-center justify-center min-h-[60vh]">
+      <div className="bg-white rounded-lg shadow border p-10 max-w-lg w-full text-center">
+        <div className="w-16 h-16 bg-red-100 rounded-full mx-auto mb-6 flex items-center justify-center">
+          <ShieldOff className="w-8 h-8 text-red-600" />
+        </div>
+        <p className="text-sm font-semibold text-red-600 tracking-wider mb-1">403</p>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-1">You don't have permission to view this page.</p>
+        <p className="text-xs text-gray-400 mb-6 break-all">{location.pathname}</p>
+        <div className="flex justify-center space-x-3">
+          <button onClick={() => navigate(-1)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+            Go back
+          </button>
+          <button onClick={() => navigate("/home")} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Dashboard
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForbiddenPage;
@@ -1,13 +1,14 @@
 import  { useState } from "react";
-import axios from "axios";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useAddRoleMutation } from "../../store/slices/apiSlice";
 import { Plus, Save, RotateCcw, Shield } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
 const AddRolePage = () => {
   const navigate = useNavigate();
   const [name, setName] = useState("");
+  const [addRole] = useAddRoleMutation();
   const [loading, setLoading] = useState(false);
 
   const resetForm = () => setName("");
@@ -20,26 +21,12 @@ const AddRolePage = () => {
 
     try {
       setLoading(true);
-      const token = sessionStorage.getItem("token");
-
-      const body = { name };
-
-      const response = await axios.post(`${API_BASE}/role/add`, body, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (response.data.code === 200 || response.data.code === 1) {
-        toast.success("Role added successfully!");
-        resetForm();
-        navigate("/home/role/show");
-      } else {
-        toast.error(response.data.message || "Failed to add role");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to add role");
+      await addRole({ name }).unwrap();
+      toast.success("Role added successfully!");
+      resetForm();
+      navigate("/home/role/show");
+    } catch (error) {
+      notifyError(error, "Failed to add role");
     } finally {
       setLoading(false);
     }
@@ -1,9 +1,15 @@
-import  { useState, useEffect } from "react";
-import axios from "axios";
+import  { useState } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
-import { X } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useDeleteRoleMutation, useGetRolesQuery, useUpdateRoleMutation } from "../../store/slices/apiSlice";
+import DataTable, { type Column } from "../../component/DataTable";
+import Modal from "../../component/Modal";
+import { confirm } from "../../utils/confirm";
 import { useNavigate } from "react-router-dom";
+import { useAppDispatch } from "../../store/hooks";
+import { fetchRolePermissions, saveRolePermissions } from "../../store/slices/permissionSlice";
+import { PERMISSIONS, isPermission, type Permission } from "../../utils/permissions";
 
 interface Role {
   id: number;
@@ -13,84 +19,128 @@ interface Role {
 
 const ShowRolePage = () => {
   const navigate = useNavigate();
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [search, setSearch] = useState("");
+  const { data, isLoading: loading, error } = useGetRolesQuery();
+  const roles = (data ?? []) as Role[];
+  const [updateRole] = useUpdateRoleMutation();
+  const [deleteRole] = useDeleteRoleMutation();
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
   const [editModal, setEditModal] = useState(false);
-  const [deleteModal, setDeleteModal] = useState(false);
+  const [permissionModal, setPermissionModal] = useState(false);
+  const [rolePermissions, setRolePermissions] = useState<Permission[]>([]);
+  const [hasSavedMapping, setHasSavedMapping] = useState(false);
+  const [permissionLoading, setPermissionLoading] = useState(false);
+  const dispatch = useAppDispatch();
 
-  const fetchRoles = async () => {
-    try {
-      setLoading(true);
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/role/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 200) setRoles(res.data.data || []);
-      else toast.error(res.data.message || "Failed to fetch roles");
-    } catch (err: any) {
-      toast.error(err?.response?.data?.message || "Failed to fetch roles");
-    } finally {
-      setLoading(false);
-    }
-  };
+  useNotifyError(error, "Failed to fetch roles");
 
   const handleUpdate = async () => {
     if (!selectedRole) return;
     try {
-      const token = sessionStorage.getItem("token");
       const body = { id: selectedRole.id, name: selectedRole.name };
-      const res = await axios.put(`${API_BASE}/role/update`, body, {
-        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-      });
-      if (res.data.code === 200) {
-        toast.success("Role updated successfully!");
-        fetchRoles();
-        setEditModal(false);
-      } else toast.error(res.data.message || "Failed to update role");
-    } catch (err: any) {
-      toast.error(err?.response?.data?.message || "Failed to update role");
+      await updateRole(body).unwrap();
+      toast.success("Role updated successfully!");
+      setEditModal(false);
+    } catch (error) {
+      notifyError(error, "Failed to update role");
     }
   };
 
-  const confirmDelete = async () => {
-    if (!selectedRole) return;
+  const confirmDelete = async (role: Role) => {
+    const confirmed = await confirm({
+      title: "Delete Role",
+      message: <>Are you sure you want to delete <b>{role.name}</b>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
     try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.delete(`${API_BASE}/role/delete/${selectedRole.id}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 200) {
-        toast.success("Role deleted successfully!");
-        setRoles((prev) => prev.filter((r) => r.id !== selectedRole.id));
-      } else toast.error(res.data.message || "Failed to delete role");
-    } catch (err: any) {
-      toast.error(err?.response?.data?.message || "Failed to delete role");
-    } finally {
-      setDeleteModal(false);
-      setSelectedRole(null);
+      await deleteRole(role.id).unwrap();
+      toast.success("Role deleted successfully!");
+    } catch (error) {
+      notifyError(error, "Failed to delete role");
     }
   };
 
-  useEffect(() => {
-    fetchRoles();
-  }, []);
+  const openPermissions = async (role: Role) => {
+    setSelectedRole(role);
+    setRolePermissions([]);
+    setPermissionModal(true);
+    setPermissionLoading(true);
 
-  const filteredRoles = roles.filter(
-    (r) =>
-      r.name.toLowerCase().includes(search.toLowerCase()) ||
-      r.companyName.toLowerCase().includes(search.toLowerCase())
-  );
+    const result = await dispatch(fetchRolePermissions(role.id));
+    if (fetchRolePermissions.fulfilled.match(result)) {
+      setHasSavedMapping(result.payload !== null);
+      setRolePermissions((result.payload ?? []).filter(isPermission));
+    } else {
+      setHasSavedMapping(false);
+      toast.error(result.payload || "Failed to fetch role permissions");
+    }
+    setPermissionLoading(false);
+  };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-screen">
-        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
-        <span className="ml-3 text-gray-600">Loading roles...</span>
-      </div>
+  const togglePermission = (permission: Permission) => {
+    setRolePermissions((prev) =>
+      prev.includes(permission) ? prev.filter((p) => p !== permission) : [...prev, permission]
     );
-  }
+  };
+
+  const handleSavePermissions = async () => {
+    if (!selectedRole) return;
+    setPermissionLoading(true);
+
+    const result = await dispatch(saveRolePermissions({ roleId: selectedRole.id, permissions: rolePermissions }));
+    if (saveRolePermissions.fulfilled.match(result)) {
+      toast.success("Permissions updated successfully!");
+      setPermissionModal(false);
+      setSelectedRole(null);
+    } else {
+      toast.error(result.payload || "Failed to save role permissions");
+    }
+    setPermissionLoading(false);
+  };
+
+  const permissionGroups = [...new Set(PERMISSIONS.map((p) => p.group))];
+
+  const columns: Column<Role>[] = [
+    { id: "index", header: "ID", cell: (_role, idx) => idx + 1, hideable: false },
+    { id: "name", header: "Name", cell: (role) => role.name, sortable: true, sortValue: (role) => role.name },
+    {
+      id: "company",
+      header: "Company",
+      cell: (role) => role.companyName,
+      sortable: true,
+      sortValue: (role) => role.companyName,
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (role) => (
+        <div className="flex justify-center space-x-3">
+          <button
+            onClick={() => { setSelectedRole(role); setEditModal(true); }}
+            className="text-blue-600 hover:text-blue-900"
+          >
+            <i className="fas fa-edit"></i>
+          </button>
+          <button
+            onClick={() => openPermissions(role)}
+            className="text-amber-600 hover:text-amber-800"
+            title="Permissions"
+          >
+            <i className="fas fa-key"></i>
+          </button>
+          <button
+            onClick={() => confirmDelete(role)}
+            className="text-red-600 hover:text-red-900"
+          >
+            <i className="fas fa-trash"></i>
+          </button>
+        </div>
+      ),
+    },
+  ];
 
   return (
     <div className="p-6 bg-gray-50 min-h-screen">
@@ -98,65 +148,23 @@ const ShowRolePage = () => {
         {/* Header */}
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold text-gray-800">All Roles</h1>
-          <div className="flex space-x-3">
-            <input
-              type="text"
-              placeholder="Search roles..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
-             <button
-              onClick={() => navigate("/home/role/add")}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center"
-            >
-              <i className="fas fa-plus mr-2"></i> Add
-            </button>
-          </div>
+          <button
+            onClick={() => navigate("/home/role/add")}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center"
+          >
+            <i className="fas fa-plus mr-2"></i> Add
+          </button>
         </div>
 
-        {/* Table */}
-        <div className="bg-white rounded-lg shadow overflow-x-auto border">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ID</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Company</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredRoles.length === 0 ? (
-                <tr>
-                  <td colSpan={4} className="px-6 py-12 text-center text-gray-500">No roles found</td>
-                </tr>
-              ) : (
-                filteredRoles.map((role, idx) => (
-                  <tr key={role.id} className="hover:bg-gray-50 transition">
-                    <td className="px-6 py-4">{idx + 1}</td>
-                    <td className="px-6 py-4">{role.name}</td>
-                    <td className="px-6 py-4">{role.companyName}</td>
-                    <td className="px-6 py-4 flex space-x-3">
-                      <button
-                        onClick={() => { setSelectedRole(role); setEditModal(true); }}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        <i className="fas fa-edit"></i>
-                      </button>
-                      <button
-                        onClick={() => { setSelectedRole(role); setDeleteModal(true); }}
-                        className="text-red-600 hover:text-red-900"
-                      >
-                        <i className="fas fa-trash"></i>
-                      </button>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
+        <DataTable
+          columns={columns}
+          data={roles}
+          rowKey={(role) => role.id}
+          loading={loading}
+          emptyMessage="No roles found"
+          searchPlaceholder="Search roles..."
+          getSearchText={(role) => `${role.name} ${role.companyName}`}
+        />
 
         {/* Edit Modal */}
         {editModal && selectedRole && (
@@ -175,13 +183,50 @@ const ShowRolePage = () => {
           </Modal>
         )}
 
-        {/* Delete Modal */}
-        {deleteModal && selectedRole && (
-          <Modal title="Delete Role" onClose={() => setDeleteModal(false)}>
-            <p className="mb-4">Are you sure you want to delete <b>{selectedRole.name}</b>?</p>
+        {/* Permissions Modal */}
+        {permissionModal && selectedRole && (
+          <Modal title={`Permissions - ${selectedRole.name}`} onClose={() => setPermissionModal(false)}>
+            {permissionLoading && rolePermissions.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-4 mb-4">
+                {!hasSavedMapping && (
+                  <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+                    No permissions saved for this role yet, so its department defaults apply.
+                  </p>
+                )}
+                {permissionGroups.map((group) => (
+                  <div key={group}>
+                    <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{group}</h3>
+                    <div className="space-y-2">
+                      {PERMISSIONS.filter((p) => p.group === group).map((p) => (
+                        <label key={p.key} className="flex items-center space-x-2 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={rolePermissions.includes(p.key)}
+                            onChange={() => togglePermission(p.key)}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                          />
+                          <span className="text-sm text-gray-800">{p.label}</span>
+                          <span className="text-xs text-gray-400">{p.key}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-end space-x-3">
-              <button onClick={() => setDeleteModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
-              <button onClick={confirmDelete} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">Delete</button>
+              <button onClick={() => setPermissionModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
+              <button
+                onClick={handleSavePermissions}
+                disabled={permissionLoading}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-60"
+              >
+                Save
+              </button>
             </div>
           </Modal>
         )}
@@ -190,17 +235,4 @@ const ShowRolePage = () => {
   );
 };
 
-// Reusable Modal Component
-const Modal = ({ title, children, onClose }: any) => (
-  <div className="fixed inset-0 flex items-center justify-center bg-black/30 backdrop-blur-sm z-50 p-4">
-    <div className="bg-white rounded-lg shadow-lg max-w-md w-full p-6 relative">
-      <div className="flex justify-between items-center mb-4">
-        <h2 className="text-lg font-bold">{title}</h2>
-        <button onClick={onClose}><X className="w-5 h-5 text-gray-600 hover:text-gray-800" /></button>
-      </div>
-      {children}
-    </div>
-  </div>
-);
-
 export default ShowRolePage;
@@ -1,7 +1,8 @@
-import  { useState, useEffect } from "react";
-import axios from "axios";
+import  { useState } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useAddSubMenuMutation, useGetMenusQuery } from "../../store/slices/apiSlice";
 import { Save, RotateCcw, Menu, AlertCircle } from "lucide-react";
 
 interface SubMenuFormData {
@@ -23,27 +24,12 @@ const AddSubMenuPage = () => {
     url: "",
     menuId: 0,
   });
-  const [menus, setMenus] = useState<MenuItem[]>([]);
+  const { data, error } = useGetMenusQuery();
+  const menus = (data ?? []) as MenuItem[];
+  const [addSubMenu] = useAddSubMenuMutation();
   const [loading, setLoading] = useState(false);
 
-  // Fetch parent menus
-  const fetchMenus = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.get(`${API_BASE}/menu/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.data.code === 1) {
-        setMenus(response.data.data || []);
-      }
-    } catch (err) {
-      toast.error("Failed to load parent menus");
-    }
-  };
-
-  useEffect(() => {
-    fetchMenus();
-  }, []);
+  useNotifyError(error, "Failed to load parent menus");
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
@@ -68,26 +54,11 @@ const AddSubMenuPage = () => {
 
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.post(
-        `${API_BASE}/sub-menu/add`,
-        formData,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (response.data.code === 1) {
-        toast.success(response.data.message || "Submenu added successfully!");
-        resetForm();
-      } else {
-        toast.error(response.data.message || "Failed to add submenu");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to add submenu");
+      const { message } = await addSubMenu(formData).unwrap();
+      toast.success(message || "Submenu added successfully!");
+      resetForm();
+    } catch (error) {
+      notifyError(error, "Failed to add submenu");
     } finally {
       setLoading(false);
     }
@@ -1,7 +1,17 @@
-import  { useState, useEffect } from "react";
-import axios from "axios";
+import  { useState } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import {
+  useDeleteSubMenuMutation,
+  useGetMenusQuery,
+  useGetSubMenusQuery,
+  useLazyGetSubMenuQuery,
+  useUpdateSubMenuMutation,
+} from "../../store/slices/apiSlice";
+import DataTable, { type Column } from "../../component/DataTable";
+import Modal from "../../component/Modal";
+import { confirm } from "../../utils/confirm";
 
 interface SubMenu {
   id: number;
@@ -17,67 +27,18 @@ interface Menu {
 }
 
 const ShowSubMenuPage = () => {
-  const [submenus, setSubmenus] = useState<SubMenu[]>([]);
-  const [menus, setMenus] = useState<Menu[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filteredSubmenus, setFilteredSubmenus] = useState<SubMenu[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
+  const { data: submenuData, isLoading: loading, error: submenuError, refetch } = useGetSubMenusQuery();
+  const { data: menuData, error: menuError } = useGetMenusQuery();
+  const submenus = (submenuData ?? []) as SubMenu[];
+  const menus = (menuData ?? []) as Menu[];
+  const [fetchSubMenu] = useLazyGetSubMenuQuery();
+  const [updateSubMenu] = useUpdateSubMenuMutation();
+  const [deleteSubMenu] = useDeleteSubMenuMutation();
   const [selectedSubMenu, setSelectedSubMenu] = useState<SubMenu | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
-  const [showDeleteModal, setShowDeleteModal] = useState(false);
 
-  // Fetch menus
-  const fetchMenus = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.get(`${API_BASE}/menu/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (response.data.code === 1) setMenus(response.data.data || []);
-    } catch (error) {
-      console.error("Fetch menus failed:", error);
-    }
-  };
-
-  // Fetch submenus
-  const fetchSubmenus = async () => {
-    try {
-      setLoading(true);
-      const token = sessionStorage.getItem("token");
-      const response = await axios.get(`${API_BASE}/sub-menu/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (response.data.code === 1) {
-        setSubmenus(response.data.data || []);
-        setFilteredSubmenus(response.data.data || []);
-      } else {
-        toast.error(response.data.message || "Failed to fetch submenus");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to fetch submenus");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchMenus();
-    fetchSubmenus();
-  }, []);
-
-  useEffect(() => {
-    if (!searchTerm) {
-      setFilteredSubmenus(submenus);
-    } else {
-      const filtered = submenus.filter(
-        (submenu) =>
-          submenu.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          submenu.url.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredSubmenus(filtered);
-    }
-  }, [searchTerm, submenus]);
+  useNotifyError(menuError, "Failed to fetch menus");
+  useNotifyError(submenuError, "Failed to fetch submenus");
 
   const getMenuName = (menuId: number) => {
     const menu = menus.find((m) => m.id === menuId);
@@ -86,19 +47,11 @@ const ShowSubMenuPage = () => {
 
   const handleView = async (id: number) => {
     try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.get(`${API_BASE}/sub-menu/${id}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (response.data.code === 1) {
-        setSelectedSubMenu(response.data.data);
-        setShowEditModal(true);
-      } else {
-        toast.error(response.data.message || "Failed to fetch submenu details");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to fetch submenu details");
+      const submenu = await fetchSubMenu(id).unwrap();
+      setSelectedSubMenu(submenu as SubMenu);
+      setShowEditModal(true);
+    } catch (error) {
+      notifyError(error, "Failed to fetch submenu details");
     }
   };
 
@@ -106,7 +59,6 @@ const ShowSubMenuPage = () => {
     if (!selectedSubMenu) return;
 
     try {
-      const token = sessionStorage.getItem("token");
       const body = {
         id: selectedSubMenu.id,
         name: selectedSubMenu.name,
@@ -114,192 +66,134 @@ const ShowSubMenuPage = () => {
         menuId: selectedSubMenu.menuId,
       };
 
-      const response = await axios.put(
-        `${API_BASE}/sub-menu/edit/${selectedSubMenu.id}`,
-        body,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (response.data.code === 1) {
-        toast.success("Submenu updated successfully!");
-        fetchSubmenus();
-        setShowEditModal(false);
-      } else {
-        toast.error(response.data.message || "Failed to update submenu");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to update submenu");
+      await updateSubMenu(body).unwrap();
+      toast.success("Submenu updated successfully!");
+      setShowEditModal(false);
+    } catch (error) {
+      notifyError(error, "Failed to update submenu");
     }
   };
 
-  const confirmDelete = async () => {
-    if (!selectedSubMenu) return;
+  const confirmDelete = async (submenu: SubMenu) => {
+    const confirmed = await confirm({
+      title: "Delete Submenu",
+      message: <>Are you sure you want to delete <strong>{submenu.name}</strong>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
 
     try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.delete(
-        `${API_BASE}/sub-menu/${selectedSubMenu.id}`,
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-
-      if (response.data.code === 1) {
-        toast.success("Submenu deleted successfully!");
-        fetchSubmenus();
-      } else {
-        toast.error(response.data.message || "Failed to delete submenu");
-      }
-    } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to delete submenu");
-    } finally {
-      setShowDeleteModal(false);
-      setSelectedSubMenu(null);
+      await deleteSubMenu(submenu.id).unwrap();
+      toast.success("Submenu deleted successfully!");
+    } catch (error) {
+      notifyError(error, "Failed to delete submenu");
     }
   };
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center h-64">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-        <span className="ml-4 text-gray-600">Loading submenus...</span>
-      </div>
-    );
-  }
+  const columns: Column<SubMenu>[] = [
+    {
+      id: "id",
+      header: "ID",
+      cell: (submenu) => submenu.id,
+      sortable: true,
+      sortValue: (submenu) => submenu.id,
+      hideable: false,
+    },
+    {
+      id: "menu",
+      header: "Parent Menu",
+      cell: (submenu) => getMenuName(submenu.menuId),
+      sortable: true,
+      sortValue: (submenu) => getMenuName(submenu.menuId),
+    },
+    { id: "name", header: "Name", cell: (submenu) => submenu.name, sortable: true, sortValue: (submenu) => submenu.name },
+    { id: "url", header: "URL", cell: (submenu) => submenu.url, sortable: true, sortValue: (submenu) => submenu.url },
+    {
+      id: "active",
+      header: "Active",
+      cell: (submenu) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${submenu.isActive === "true" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+          {submenu.isActive === "true" ? "Active" : "Inactive"}
+        </span>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (submenu) => (
+        <div className="flex justify-center gap-2">
+          <button onClick={() => handleView(submenu.id)} className="text-blue-600 hover:text-blue-900 transition">
+            <i className="fas fa-edit"></i>
+          </button>
+          <button onClick={() => confirmDelete(submenu)} className="text-red-600 hover:text-red-900 transition">
+            <i className="fas fa-trash"></i>
+          </button>
+        </div>
+      ),
+    },
+  ];
 
   return (
     <div className="space-y-8 relative p-6">
       {/* Header */}
       <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
         <h1 className="text-4xl font-bold text-slate-800">Submenu List</h1>
-        <div className="flex gap-3 items-center">
-          {/* Search */}
-          <div className="relative flex items-center border rounded-xl px-3 py-2">
-            <i className="fas fa-search text-slate-500 mr-2"></i>
-            <input
-              type="text"
-              placeholder="Search submenus..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="outline-none bg-transparent text-slate-700"
-            />
-          </div>
-          {/* Refresh */}
-          <button
-            onClick={() => { fetchSubmenus(); toast.success("Submenus refreshed!"); }}
-            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
-          >
-            <i className="fas fa-sync-alt"></i> Refresh
-          </button>
-        </div>
+        {/* Refresh */}
+        <button
+          onClick={() => { refetch(); toast.success("Submenus refreshed!"); }}
+          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-xl hover:bg-blue-700 transition"
+        >
+          <i className="fas fa-sync-alt"></i> Refresh
+        </button>
       </div>
 
-      {/* Submenus Table */}
-      <div className="overflow-x-auto bg-white shadow rounded-xl border border-gray-200">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600">
-                <i ></i> ID
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600">
-                <i className="fas fa-layer-group mr-1"></i> Parent Menu
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600">Name</th>
-              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600">URL</th>
-              <th className="px-6 py-3 text-left text-xs font-semibold text-gray-600">Active</th>
-              <th className="px-6 py-3 text-right text-xs font-semibold text-gray-600">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-gray-100">
-            {filteredSubmenus.length === 0 ? (
-              <tr>
-                <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
-                  No submenus found
-                </td>
-              </tr>
-            ) : (
-              filteredSubmenus.map((submenu) => (
-                <tr key={submenu.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4">{submenu.id}</td>
-                  <td className="px-6 py-4">{getMenuName(submenu.menuId)}</td>
-                  <td className="px-6 py-4">{submenu.name}</td>
-                  <td className="px-6 py-4">{submenu.url}</td>
-                  <td className="px-6 py-4">
-                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${submenu.isActive === "true" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
-                      {submenu.isActive === "true" ? "Active" : "Inactive"}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-right flex justify-end gap-2">
-                    <button onClick={() => handleView(submenu.id)} className="text-blue-600 hover:text-blue-900 transition">
-                      <i className="fas fa-edit"></i>
-                    </button>
-                    <button onClick={() => { setSelectedSubMenu(submenu); setShowDeleteModal(true); }} className="text-red-600 hover:text-red-900 transition">
-                      <i className="fas fa-trash"></i>
-                    </button>
-                  </td>
-                </tr>
-              ))
-            )}
-          </tbody>
-        </table>
-      </div>
+      <DataTable
+        columns={columns}
+        data={submenus}
+        rowKey={(submenu) => submenu.id}
+        loading={loading}
+        emptyMessage="No submenus found"
+        searchPlaceholder="Search submenus..."
+        getSearchText={(submenu) => `${submenu.name} ${submenu.url}`}
+      />
 
       {/* Edit Modal */}
       {showEditModal && selectedSubMenu && (
-        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
-            <h2 className="text-xl font-bold mb-4">Edit Submenu</h2>
-            <div className="space-y-3">
-              <input
-                type="text"
-                value={selectedSubMenu.name}
-                onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, name: e.target.value })}
-                className="w-full border px-3 py-2 rounded"
-                placeholder="Name"
-              />
-              <input
-                type="text"
-                value={selectedSubMenu.url}
-                onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, url: e.target.value })}
-                className="w-full border px-3 py-2 rounded"
-                placeholder="URL"
-              />
-              <select
-                value={selectedSubMenu.menuId}
-                onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, menuId: Number(e.target.value) })}
-                className="w-full border px-3 py-2 rounded"
-              >
-                {menus.map((menu) => (
-                  <option key={menu.id} value={menu.id}>{menu.name}</option>
-                ))}
-              </select>
-            </div>
-            <div className="mt-4 flex justify-end gap-2">
-              <button onClick={() => setShowEditModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
-              <button onClick={handleUpdate} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center gap-2">
-                <i className="fas fa-eye"></i> Update
-              </button>
-            </div>
+        <Modal title="Edit Submenu" size="sm" onClose={() => setShowEditModal(false)}>
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={selectedSubMenu.name}
+              onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, name: e.target.value })}
+              className="w-full border px-3 py-2 rounded"
+              placeholder="Name"
+            />
+            <input
+              type="text"
+              value={selectedSubMenu.url}
+              onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, url: e.target.value })}
+              className="w-full border px-3 py-2 rounded"
+              placeholder="URL"
+            />
+            <select
+              value={selectedSubMenu.menuId}
+              onChange={(e) => setSelectedSubMenu({ ...selectedSubMenu, menuId: Number(e.target.value) })}
+              className="w-full border px-3 py-2 rounded"
+            >
+              {menus.map((menu) => (
+                <option key={menu.id} value={menu.id}>{menu.name}</option>
+              ))}
+            </select>
           </div>
-        </div>
-      )}
-
-      {/* Delete Modal */}
-      {showDeleteModal && selectedSubMenu && (
-        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl shadow-lg max-w-sm w-full p-6">
-            <h2 className="text-lg font-bold mb-3">Delete Submenu</h2>
-            <p className="mb-4">Are you sure you want to delete <strong>{selectedSubMenu.name}</strong>?</p>
-            <div className="flex justify-end gap-2">
-              <button onClick={() => setShowDeleteModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
-              <button onClick={confirmDelete} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">Delete</button>
-            </div>
+          <div className="mt-4 flex justify-end gap-2">
+            <button onClick={() => setShowEditModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
+            <button onClick={handleUpdate} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center gap-2">
+              <i className="fas fa-eye"></i> Update
+            </button>
           </div>
-        </div>
+        </Modal>
       )}
     </div>
   );
@@ -1,52 +1,48 @@
-import  { useState, useEffect } from "react";
-import axios from "axios";
+import  { useState, useEffect, useMemo, type ChangeEvent, type ReactNode } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
 import { User, Users, RefreshCcw, ClipboardList, Calendar } from "lucide-react";
+import { useCurrentUser } from "../../hooks/useCurrentUser";
+import { useAutoAssignment } from "../../hooks/useAutoAssignment";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useAddTicketMutation, useGetCandidatesQuery } from "../../store/slices/apiSlice";
+import type { TicketRequest } from "../../api/models/TicketRequest";
+import {
+  INITIAL_TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  requiredTicketFields,
+  toTicketStatus,
+  validateTicketTransition,
+  type TicketStatusField,
+} from "../../utils/ticketStatus";
+import { assignmentStrategyLabel } from "../../utils/autoAssign";
 
 const AddTicketPage = () => {
-  const [candidates, setCandidates] = useState<any[]>([]);
-  const [currentUser, setCurrentUser] = useState<any>(null);
+  const { data: candidates = [], error: candidateError } = useGetCandidatesQuery();
+  const [addTicket] = useAddTicketMutation();
+  const { user: currentUser } = useCurrentUser();
+  // "" assigns to the logged in user, otherwise the id of the rule that picks
+  const [ruleId, setRuleId] = useState("");
+  const { rules, rule, plan, recordPlan } = useAutoAssignment(true, ruleId);
 
   const [formData, setFormData] = useState({
     candidateId: "",
     userId: "",
-    status: "Open",
+    status: "OPEN",
     remarks: "",
     nextFollowUpDate: "",
   });
 
   const [loading, setLoading] = useState(false);
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const token = sessionStorage.getItem("token");
-
-        // fetch candidates
-        const candidateRes = await axios.get(`${API_BASE}/candidates/get-all`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (candidateRes.data.code === 1) setCandidates(candidateRes.data.data || []);
+  useNotifyError(candidateError, "Failed to fetch candidates");
 
-        // fetch logged in user
-        const userRes = await axios.get(`${API_BASE}/auth/getById/1`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (userRes.data.code === 1) {
-          setCurrentUser(userRes.data.data);
-          setFormData((prev) => ({
-            ...prev,
-            userId: userRes.data.data.id,
-          }));
-        }
-      } catch {
-        toast.error("Failed to fetch data");
-      }
-    };
-
-    fetchData();
-  }, []);
+  // Without a rule, tickets are assigned to the logged in user
+  useEffect(() => {
+    if (currentUser?.id) {
+      setFormData((prev) => ({ ...prev, userId: String(currentUser.id) }));
+    }
+  }, [currentUser?.id]);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
@@ -58,44 +54,50 @@ const AddTicketPage = () => {
   const resetForm = () => {
     setFormData({
       candidateId: "",
-      userId: "",
-      status: "Open",
+      userId: currentUser?.id ? String(currentUser.id) : "",
+      status: "OPEN",
       remarks: "",
       nextFollowUpDate: "",
     });
   };
 
+  const candidate = candidates.find((c) => String(c.id) === formData.candidateId);
+  const planned = useMemo(() => (rule && candidate ? plan(rule, [candidate])[0] : undefined), [rule, candidate, plan]);
+
+  const status = toTicketStatus(formData.status);
+  const isRequired = (field: TicketStatusField) => !!status && requiredTicketFields(status).includes(field);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.candidateId || !formData.userId) {
-      toast.error("Candidate and assigned user are required");
+    const userId = rule ? planned?.user?.id : Number(formData.userId);
+    if (!formData.candidateId || !userId) {
+      toast.error(rule ? planned?.reason || "Candidate is required" : "Candidate and assigned user are required");
+      return;
+    }
+
+    const invalid = validateTicketTransition(undefined, formData.status, formData);
+    if (invalid) {
+      toast.error(invalid);
       return;
     }
 
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-      const body = {
+      const body: TicketRequest = {
         id: 0,
         candidateId: Number(formData.candidateId),
-        userId: Number(formData.userId),
+        userId,
         status: formData.status,
         remarks: formData.remarks,
         nextFollowUpDate: formData.nextFollowUpDate,
       };
 
-      const res = await axios.post(`${API_BASE}/ticket/add`, body, {
-        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-      });
-
-      if (res.data.code === 1) {
-        toast.success("Ticket created successfully!");
-        resetForm();
-      } else {
-        toast.error(res.data.message || "Failed to create ticket");
-      }
-    } catch {
-      toast.error("Something went wrong while creating ticket");
+      await addTicket(body).unwrap();
+      if (rule && planned) await recordPlan(rule, [planned]);
+      toast.success("Ticket created successfully!");
+      resetForm();
+    } catch (error) {
+      notifyError(error, "Failed to create ticket");
     } finally {
       setLoading(false);
     }
@@ -117,45 +119,56 @@ const AddTicketPage = () => {
             name="candidateId"
             value={formData.candidateId}
             onChange={handleInputChange}
-            options={candidates.map((c) => ({ value: c.id, label: `${c.name} (${c.email})` }))}
+            options={candidates.map((c) => ({ value: String(c.id), label: `${c.name} (${c.email})` }))}
             placeholder="Select Candidate"
             disabled={loading}
           />
 
           
-         {/* Assigned User (Auto-filled) */}
-<div>
-  <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
-    <Users className="w-4 h-4 mr-2 text-blue-600" /> Assigned To
-  </label>
-  <input
-    type="text"
-    value={currentUser ? `${currentUser.name} (${currentUser.email})` : "Loading..."}
-    disabled
-    className="w-full px-4 py-3 border rounded-lg bg-gray-100 text-gray-600"
-  />
-</div>
+          {/* Assigned User: the logged in user, or whoever an assignment rule picks */}
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+              <Users className="w-4 h-4 mr-2 text-blue-600" /> Assigned To
+            </label>
+            <select
+              value={ruleId}
+              onChange={(e) => setRuleId(e.target.value)}
+              disabled={loading}
+              className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-100"
+            >
+              <option value="">{currentUser ? `Me: ${currentUser.name} (${currentUser.email})` : "Loading..."}</option>
+              {rules.map((r) => (
+                <option key={r.id} value={r.id}>
+                  Rule: {r.name} ({assignmentStrategyLabel(r.strategy)})
+                </option>
+              ))}
+            </select>
+            {rule && (
+              <p className={`mt-2 text-sm ${planned && !planned.user ? "text-red-600" : "text-gray-600"}`}>
+                {!planned
+                  ? "Pick a candidate to see who this rule assigns."
+                  : planned.user
+                    ? <>Will be assigned to <strong>{planned.user.name}</strong> ({planned.reason})</>
+                    : planned.reason}
+              </p>
+            )}
+          </div>
 
 
           {/* Status */}
           <SelectField
             label="Status"
             icon={<ClipboardList className="w-4 h-4 mr-2 text-blue-600" />}
-            name="current status"
+            name="status"
             value={formData.status}
             onChange={handleInputChange}
-            options={[
-              { value: "Open", label: "Open" },
-              { value: "In Progress", label: "In Progress" },
-              { value: "On Hold", label: "On Hold" },
-              { value: "Closed", label: "Closed" },
-            ]}
+            options={INITIAL_TICKET_STATUSES.map((s) => ({ value: s, label: TICKET_STATUS_LABELS[s] }))}
             disabled={loading}
           />
 
           {/* Remarks */}
           <TextAreaField
-            label="Remarks"
+            label={isRequired("remarks") ? "Remarks *" : "Remarks"}
             icon={<ClipboardList className="w-4 h-4 mr-2 text-blue-600" />}
             name="remarks"
             value={formData.remarks}
@@ -165,7 +178,7 @@ const AddTicketPage = () => {
 
           {/* Next Follow Up */}
           <InputField
-            label="Next Follow Up Date"
+            label={isRequired("nextFollowUpDate") ? "Next Follow Up Date *" : "Next Follow Up Date"}
             icon={<Calendar className="w-4 h-4 mr-2 text-blue-600" />}
             name="nextFollowUpDate"
             value={formData.nextFollowUpDate}
@@ -199,8 +212,17 @@ const AddTicketPage = () => {
   );
 };
 
+interface FieldProps<E extends HTMLElement> {
+  label: string;
+  icon: ReactNode;
+  name: string;
+  value: string;
+  onChange: (e: ChangeEvent<E>) => void;
+  disabled?: boolean;
+}
+
 // Reusable Input Component
-const InputField = ({ label, icon, name, value, onChange, type = "text", disabled = false }: any) => (
+const InputField = ({ label, icon, name, value, onChange, type = "text", disabled = false }: FieldProps<HTMLInputElement> & { type?: string }) => (
   <div>
     <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
       {icon} {label}
@@ -217,7 +239,7 @@ const InputField = ({ label, icon, name, value, onChange, type = "text", disable
 );
 
 // Reusable TextArea Component
-const TextAreaField = ({ label, icon, name, value, onChange, disabled = false }: any) => (
+const TextAreaField = ({ label, icon, name, value, onChange, disabled = false }: FieldProps<HTMLTextAreaElement>) => (
   <div>
     <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
       {icon} {label}
@@ -233,7 +255,16 @@ const TextAreaField = ({ label, icon, name, value, onChange, disabled = false }:
 );
 
 // Reusable Select Component
-const SelectField = ({ label, icon, name, value, onChange, options, placeholder, disabled = false }: any) => (
+const SelectField = ({
+  label,
+  icon,
+  name,
+  value,
+  onChange,
+  options,
+  placeholder,
+  disabled = false,
+}: FieldProps<HTMLSelectElement> & { options: { value: string; label: string }[]; placeholder?: string }) => (
   <div>
     <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
       {icon} {label}
@@ -246,7 +277,7 @@ const SelectField = ({ label, icon, name, value, onChange, options, placeholder,
       className="w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-100"
     >
       <option value="">{placeholder}</option>
-      {options.map((opt: any) => (
+      {options.map((opt) => (
         <option key={opt.value} value={opt.value}>
           {opt.label}
         </option>
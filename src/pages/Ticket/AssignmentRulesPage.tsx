@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import {
+  useAddAssignmentRuleMutation,
+  useDeleteAssignmentRuleMutation,
+  useGetAssignmentRulesQuery,
+  useGetDepartmentsQuery,
+  useGetUsersQuery,
+  useUpdateAssignmentRuleMutation,
+} from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import DataTable, { type Column } from "../../component/DataTable";
+import Modal from "../../component/Modal";
+import { confirm } from "../../utils/confirm";
+import {
+  ASSIGNMENT_STRATEGIES,
+  ASSIGNMENT_STRATEGY_HINTS,
+  ASSIGNMENT_STRATEGY_LABELS,
+  assignmentStrategyLabel,
+  isAssignmentStrategy,
+  ruleUsers,
+} from "../../utils/autoAssign";
+import type { AssignmentRuleRequest } from "../../api/models/AssignmentRuleRequest";
+import type { AssignmentRuleResponse } from "../../api/models/AssignmentRuleResponse";
+
+const emptyRule: AssignmentRuleRequest = {
+  name: "",
+  strategy: "ROUND_ROBIN",
+  departmentId: undefined,
+  active: true,
+  userSkills: [],
+};
+
+const RuleFormModal = ({ rule, onClose }: { rule: AssignmentRuleRequest; onClose: () => void }) => {
+  const [form, setForm] = useState(rule);
+  const { data: departments = [], error: departmentsError } = useGetDepartmentsQuery();
+  const { data: users = [], error: usersError } = useGetUsersQuery();
+  const [addRule, { isLoading: adding }] = useAddAssignmentRuleMutation();
+  const [updateRule, { isLoading: updating }] = useUpdateAssignmentRuleMutation();
+  const saving = adding || updating;
+
+  useNotifyError(departmentsError, "Failed to fetch departments");
+  useNotifyError(usersError, "Failed to fetch users");
+
+  const members = ruleUsers(form, users);
+  const skillsOf = (userId: number) => form.userSkills?.find((entry) => entry.userId === userId)?.skills ?? "";
+
+  const setSkills = (userId: number, skills: string) =>
+    setForm((previous) => ({
+      ...previous,
+      userSkills: [...(previous.userSkills ?? []).filter((entry) => entry.userId !== userId), { userId, skills }],
+    }));
+
+  const handleSave = async () => {
+    if (!form.name?.trim()) {
+      toast.error("Rule name is required");
+      return;
+    }
+    if (members.length === 0) {
+      toast.error("The selected department has no users to assign to");
+      return;
+    }
+
+    // Skills only matter for the users the rule can actually pick
+    const body: AssignmentRuleRequest = {
+      ...form,
+      name: form.name.trim(),
+      userSkills: (form.userSkills ?? []).filter(
+        (entry) => entry.skills?.trim() && members.some((user) => user.id === entry.userId)
+      ),
+    };
+
+    try {
+      if (body.id) await updateRule(body).unwrap();
+      else await addRule(body).unwrap();
+      toast.success(body.id ? "Assignment rule updated" : "Assignment rule added");
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to save assignment rule");
+    }
+  };
+
+  return (
+    <Modal title={form.id ? "Edit Assignment Rule" : "Add Assignment Rule"} onClose={onClose} size="lg">
+      <div className="space-y-4">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Name</span>
+          <input
+            type="text"
+            value={form.name ?? ""}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="mt-1 w-full border rounded p-2"
+            placeholder="e.g. Java hiring desk"
+          />
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Strategy</span>
+          <select
+            value={form.strategy}
+            onChange={(e) => setForm({ ...form, strategy: e.target.value })}
+            className="mt-1 w-full border rounded p-2"
+          >
+            {ASSIGNMENT_STRATEGIES.map((strategy) => (
+              <option key={strategy} value={strategy}>
+                {ASSIGNMENT_STRATEGY_LABELS[strategy]}
+              </option>
+            ))}
+          </select>
+          {isAssignmentStrategy(form.strategy) && (
+            <span className="mt-1 block text-xs text-gray-500">{ASSIGNMENT_STRATEGY_HINTS[form.strategy]}</span>
+          )}
+        </label>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Department</span>
+          <select
+            value={form.departmentId ?? ""}
+            onChange={(e) => setForm({ ...form, departmentId: e.target.value ? Number(e.target.value) : undefined })}
+            className="mt-1 w-full border rounded p-2"
+          >
+            <option value="">Every department</option>
+            {departments.map((department) => (
+              <option key={department.id} value={department.id}>
+                {department.name}
+              </option>
+            ))}
+          </select>
+          <span className="mt-1 block text-xs text-gray-500">
+            {members.length} user{members.length === 1 ? "" : "s"} will receive tickets
+          </span>
+        </label>
+
+        {form.strategy === "SKILL_MATCH" && (
+          <div>
+            <span className="text-sm font-medium text-gray-700">Skills per user</span>
+            <div className="mt-1 max-h-64 overflow-y-auto space-y-2">
+              {members.map((user) => (
+                <label key={user.id} className="flex items-center gap-3">
+                  <span className="w-40 shrink-0 text-sm truncate" title={user.email}>
+                    {user.name}
+                  </span>
+                  <input
+                    type="text"
+                    value={skillsOf(user.id!)}
+                    onChange={(e) => setSkills(user.id!, e.target.value)}
+                    className="flex-1 border rounded p-1.5 text-sm"
+                    placeholder="Java, Spring, SQL"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.active !== false}
+            onChange={(e) => setForm({ ...form, active: e.target.checked })}
+          />
+          <span className="text-sm text-gray-700">Active — offered when creating and re-assigning tickets</span>
+        </label>
+      </div>
+
+      <div className="mt-6 flex justify-end space-x-3">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+// Rules the ticket pages use to pick an assignee: on Add Ticket, and from
+// the Re-Assign dialog for tickets that arrived in bulk
+const AssignmentRulesPage = () => {
+  const { data: rules = [], isLoading: loading, error } = useGetAssignmentRulesQuery();
+  const [deleteRule] = useDeleteAssignmentRuleMutation();
+  const [editing, setEditing] = useState<AssignmentRuleRequest | null>(null);
+
+  useNotifyError(error, "Failed to fetch assignment rules");
+
+  const handleDelete = async (rule: AssignmentRuleResponse) => {
+    const confirmed = await confirm({
+      title: "Delete Assignment Rule",
+      message: <>Are you sure you want to delete <b>{rule.name}</b>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteRule(rule.id!).unwrap();
+      toast.success("Assignment rule deleted");
+    } catch (error) {
+      notifyError(error, "Failed to delete assignment rule");
+    }
+  };
+
+  const columns: Column<AssignmentRuleResponse>[] = [
+    { id: "name", header: "Name", cell: (rule) => rule.name, sortable: true, sortValue: (rule) => rule.name },
+    {
+      id: "strategy",
+      header: "Strategy",
+      cell: (rule) => assignmentStrategyLabel(rule.strategy),
+      sortable: true,
+      sortValue: (rule) => assignmentStrategyLabel(rule.strategy),
+    },
+    {
+      id: "department",
+      header: "Department",
+      cell: (rule) => rule.departmentName || "Every department",
+      sortable: true,
+      sortValue: (rule) => rule.departmentName,
+    },
+    {
+      id: "active",
+      header: "Active",
+      cell: (rule) =>
+        rule.active !== false ? (
+          <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+        ) : (
+          <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-600">Paused</span>
+        ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (rule) => (
+        <Can permission="ticket.assignment-rules">
+          <div className="flex justify-center space-x-3">
+            <button onClick={() => setEditing(rule)} className="text-blue-600 hover:text-blue-900">
+              <i className="fas fa-edit"></i>
+            </button>
+            <button onClick={() => handleDelete(rule)} className="text-red-600 hover:text-red-900">
+              <i className="fas fa-trash"></i>
+            </button>
+          </div>
+        </Can>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/ticket/show" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to tickets
+        </Link>
+        <div className="flex justify-between items-center mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Assignment Rules</h1>
+          <Can permission="ticket.assignment-rules">
+            <button
+              onClick={() => setEditing(emptyRule)}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center"
+            >
+              <i className="fas fa-plus mr-2"></i> Add
+            </button>
+          </Can>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={rules}
+          rowKey={(rule) => rule.id!}
+          loading={loading}
+          emptyMessage="No assignment rules yet"
+          searchPlaceholder="Search rules..."
+          getSearchText={(rule) => `${rule.name} ${assignmentStrategyLabel(rule.strategy)} ${rule.departmentName ?? ""}`}
+        />
+
+        {editing && <RuleFormModal rule={editing} onClose={() => setEditing(null)} />}
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentRulesPage;
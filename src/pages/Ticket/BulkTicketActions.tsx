@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { CalendarClock, Download, ListChecks, Trash2, X } from "lucide-react";
+import { usePermission } from "../../hooks/usePermission";
+import { useBulkOperation } from "../../hooks/useBulkOperation";
+import { useAddLogHistoryMutation, useDeleteTicketMutation } from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import Modal from "../../component/Modal";
+import BulkProgressModal from "../../component/BulkProgressModal";
+import { confirm } from "../../utils/confirm";
+import { downloadCsv } from "../../utils/download";
+import { addDays, dateKeyOf, parseDate, toDateKey, todayKey } from "../../utils/date";
+import {
+  FINAL_TICKET_STATUSES,
+  TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  requiredTicketFields,
+  ticketStatusLabel,
+  toTicketStatus,
+  validateTicketTransition,
+  type TicketStatus,
+} from "../../utils/ticketStatus";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+type BulkDialog = "status" | "followUp" | null;
+
+const ticketLabel = (ticket: TicketResponse) => `${ticket.ticketId} · ${ticket.candidateName || "N/A"}`;
+
+const exportTickets = (tickets: TicketResponse[]) =>
+  downloadCsv(
+    [
+      ["Ticket ID", "Candidate", "Assigned To", "Status", "Next Follow Up", "Remarks"],
+      ...tickets.map((ticket) => [
+        ticket.ticketId,
+        ticket.candidateName,
+        ticket.assignedTo,
+        ticketStatusLabel(ticket.status),
+        ticket.nextFollowUpDate,
+        ticket.remarks,
+      ]),
+    ],
+    `tickets_${todayKey()}.csv`
+  );
+
+const StatusDialog = ({
+  tickets,
+  canReopen,
+  onCancel,
+  onApply,
+}: {
+  tickets: TicketResponse[];
+  canReopen: boolean;
+  onCancel: () => void;
+  onApply: (status: TicketStatus, remarks: string, nextFollowUpDate: string) => void;
+}) => {
+  const [status, setStatus] = useState<TicketStatus>("INPROGRESS");
+  const [remarks, setRemarks] = useState("");
+  const [nextFollowUpDate, setNextFollowUpDate] = useState("");
+  const required = requiredTicketFields(status);
+  const eligible = tickets.filter(
+    (ticket) => !validateTicketTransition(ticket.status, status, { remarks, nextFollowUpDate }, { canReopen })
+  ).length;
+
+  return (
+    <Modal title={`Change Status of ${tickets.length} Ticket(s)`} onClose={onCancel}>
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">New Status</span>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as TicketStatus)}
+            className="mt-1 w-full border rounded p-2"
+          >
+            {TICKET_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {TICKET_STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Remarks{required.includes("remarks") && " *"}</span>
+          <textarea
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            className="mt-1 w-full border rounded p-2"
+            placeholder="Added to every ticket's log"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">
+            Next Follow Up Date{required.includes("nextFollowUpDate") && " *"}
+          </span>
+          <input
+            type="date"
+            value={nextFollowUpDate}
+            onChange={(e) => setNextFollowUpDate(e.target.value)}
+            className="mt-1 w-full border rounded p-2"
+          />
+          <span className="mt-1 block text-xs text-gray-500">Leave empty to keep each ticket's own date</span>
+        </label>
+        <p className={`text-sm ${eligible < tickets.length ? "text-amber-700" : "text-gray-600"}`}>
+          {eligible} of {tickets.length} ticket(s) can move to {TICKET_STATUS_LABELS[status]}; the rest will be
+          skipped.
+        </p>
+      </div>
+      <div className="mt-6 flex justify-end space-x-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(status, remarks, nextFollowUpDate)}
+          disabled={eligible === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          Apply
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+const FollowUpDialog = ({
+  count,
+  onCancel,
+  onApply,
+}: {
+  count: number;
+  onCancel: () => void;
+  onApply: (days: number, remarks: string) => void;
+}) => {
+  const [days, setDays] = useState("1");
+  const [remarks, setRemarks] = useState("Follow up rescheduled");
+  const shift = Number(days);
+
+  return (
+    <Modal title={`Shift Follow Up of ${count} Ticket(s)`} onClose={onCancel} size="sm">
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Move by (days)</span>
+          <input
+            type="number"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="mt-1 w-full border rounded p-2"
+          />
+          <span className="mt-1 block text-xs text-gray-500">Use a negative number to bring follow ups forward</span>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Remarks *</span>
+          <textarea
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            className="mt-1 w-full border rounded p-2"
+          />
+        </label>
+      </div>
+      <div className="mt-6 flex justify-end space-x-2">
+        <button onClick={onCancel} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(shift, remarks.trim())}
+          disabled={!Number.isInteger(shift) || shift === 0 || !remarks.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          Apply
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+// Actions for the tickets ticked in the table. Every change goes through the
+// same calls as the single-ticket dialogs, one ticket at a time, and the
+// progress dialog reports how each one went.
+const BulkTicketActions = ({ tickets, onClear }: { tickets: TicketResponse[]; onClear: () => void }) => {
+  const canReopen = usePermission("ticket.reopen");
+  const [addLogHistory] = useAddLogHistoryMutation();
+  const [deleteTicket] = useDeleteTicketMutation();
+  const [dialog, setDialog] = useState<BulkDialog>(null);
+  const bulk = useBulkOperation();
+
+  if (tickets.length === 0 && bulk.results.length === 0) return null;
+
+  const changeStatus = (status: TicketStatus, remarks: string, nextFollowUpDate: string) => {
+    setDialog(null);
+    bulk.run({
+      title: `Moving tickets to ${TICKET_STATUS_LABELS[status]}`,
+      items: tickets,
+      key: (ticket) => ticket.id!,
+      label: ticketLabel,
+      check: (ticket) => validateTicketTransition(ticket.status, status, { remarks, nextFollowUpDate }, { canReopen }),
+      task: (ticket) =>
+        addLogHistory({
+          ticketId: ticket.id,
+          status,
+          remarks,
+          nextFollowUpDate: nextFollowUpDate || dateKeyOf(ticket.nextFollowUpDate) || "",
+          inBulk: true,
+        }).unwrap(),
+      errorMessage: "Failed to add log history",
+      invalidates: ["Ticket", "LogHistory"],
+    });
+  };
+
+  const shiftFollowUp = (days: number, remarks: string) => {
+    setDialog(null);
+    bulk.run({
+      title: `Shifting follow ups by ${days} day(s)`,
+      items: tickets,
+      key: (ticket) => ticket.id!,
+      label: ticketLabel,
+      check: (ticket) => {
+        const status = toTicketStatus(ticket.status);
+        if (status && FINAL_TICKET_STATUSES.includes(status)) return `${TICKET_STATUS_LABELS[status]} tickets have no follow up`;
+        return ticket.nextFollowUpDate ? null : "No follow up date to shift";
+      },
+      task: (ticket) =>
+        addLogHistory({
+          ticketId: ticket.id,
+          // Re-logging the same status only moves the date
+          status: toTicketStatus(ticket.status) ?? ticket.status,
+          remarks,
+          nextFollowUpDate: toDateKey(addDays(parseDate(ticket.nextFollowUpDate)!, days)),
+          inBulk: true,
+        }).unwrap(),
+      errorMessage: "Failed to reschedule follow up",
+      invalidates: ["Ticket", "LogHistory"],
+    });
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: "Confirm Delete",
+      message: <>Are you sure you want to delete <b>{tickets.length}</b> ticket(s)? This can't be undone.</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    bulk.run({
+      title: "Deleting tickets",
+      items: tickets,
+      key: (ticket) => ticket.id!,
+      label: ticketLabel,
+      task: (ticket) => deleteTicket(ticket.id!).unwrap(),
+      errorMessage: "Failed to delete ticket",
+    });
+  };
+
+  const handleExport = () => {
+    exportTickets(tickets);
+    toast.success(`Exported ${tickets.length} ticket(s)`);
+  };
+
+  // Whatever happened, the rows on screen no longer match the selection
+  const closeProgress = () => {
+    bulk.reset();
+    onClear();
+  };
+
+  return (
+    <>
+      {tickets.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <span className="text-sm font-medium text-blue-900 mr-2">{tickets.length} selected</span>
+          <button
+            onClick={() => setDialog("status")}
+            className="px-3 py-1.5 text-sm bg-white border rounded hover:bg-gray-50 flex items-center gap-1"
+          >
+            <ListChecks className="w-4 h-4" /> Change Status
+          </button>
+          <button
+            onClick={() => setDialog("followUp")}
+            className="px-3 py-1.5 text-sm bg-white border rounded hover:bg-gray-50 flex items-center gap-1"
+          >
+            <CalendarClock className="w-4 h-4" /> Shift Follow Up
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-3 py-1.5 text-sm bg-white border rounded hover:bg-gray-50 flex items-center gap-1"
+          >
+            <Download className="w-4 h-4" /> Export
+          </button>
+          <Can permission="ticket.delete">
+            <button
+              onClick={handleDelete}
+              className="px-3 py-1.5 text-sm bg-white border border-red-200 text-red-600 rounded hover:bg-red-50 flex items-center gap-1"
+            >
+              <Trash2 className="w-4 h-4" /> Delete
+            </button>
+          </Can>
+          <button onClick={onClear} className="ml-auto p-1 text-gray-500 hover:text-gray-800" title="Clear selection">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {dialog === "status" && (
+        <StatusDialog tickets={tickets} canReopen={canReopen} onCancel={() => setDialog(null)} onApply={changeStatus} />
+      )}
+      {dialog === "followUp" && (
+        <FollowUpDialog count={tickets.length} onCancel={() => setDialog(null)} onApply={shiftFollowUp} />
+      )}
+      {bulk.results.length > 0 && (
+        <BulkProgressModal title={bulk.title} results={bulk.results} running={bulk.running} onClose={closeProgress} />
+      )}
+    </>
+  );
+};
+
+export default BulkTicketActions;
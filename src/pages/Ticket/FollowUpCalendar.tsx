@@ -0,0 +1,388 @@
+import { createContext, useContext, useMemo, useState, type CSSProperties, type DragEvent, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { DayButton, DayPicker, type DayButtonProps } from "react-day-picker";
+import "react-day-picker/style.css";
+import { AlertTriangle, CalendarClock, Clock } from "lucide-react";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useCurrentUser } from "../../hooks/useCurrentUser";
+import { useGetTicketPageQuery } from "../../store/slices/apiSlice";
+import TicketStatusBadge from "../../component/TicketStatusBadge";
+import TicketLogModal from "../../component/TicketLogModal";
+import { addDays, dateKeyOf, formatDate, parseDate, toDateKey, todayKey } from "../../utils/date";
+import { followUpState } from "../../utils/followUp";
+import {
+  ASSIGNEE_ME,
+  awaitsCurrentUser,
+  defaultTicketFilters,
+  resolveTicketFilters,
+} from "../../utils/ticketFilters";
+import { OPEN_STATUS_FILTER } from "../../utils/ticketStatus";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+type CalendarRange = "day" | "week" | "month";
+type CalendarScope = "mine" | "team";
+
+// Most follow ups fetched for the visible dates and for each side queue
+const RANGE_LIMIT = 500;
+const QUEUE_LIMIT = 100;
+
+interface Reschedule {
+  ticket: TicketResponse;
+  date?: string;
+}
+
+// Open follow ups per "YYYY-MM-DD", read by the day buttons of the picker
+const FollowUpsByDay = createContext<Map<string, TicketResponse[]>>(new Map());
+
+const CountedDayButton = ({ children, ...props }: DayButtonProps) => {
+  const tickets = useContext(FollowUpsByDay).get(toDateKey(props.day.date));
+  const overdue = tickets?.some((ticket) => followUpState(ticket) === "overdue");
+
+  return (
+    <DayButton {...props}>
+      {children}
+      {tickets?.length ? (
+        <span
+          className={`ml-1 px-1.5 rounded-full text-[10px] font-semibold text-white ${
+            overdue ? "bg-red-600" : "bg-blue-600"
+          }`}
+        >
+          {tickets.length}
+        </span>
+      ) : null}
+    </DayButton>
+  );
+};
+
+// The picker doubles as the month view, with room for the counts
+const monthStyle = {
+  "--rdp-day-width": "4.5rem",
+  "--rdp-day-height": "3.5rem",
+  "--rdp-day_button-width": "4.25rem",
+  "--rdp-day_button-height": "3.25rem",
+  "--rdp-day_button-border-radius": "0.5rem",
+} as CSSProperties;
+
+const startOfWeek = (date: Date) => {
+  const start = new Date(date);
+  start.setDate(date.getDate() - date.getDay());
+  return start;
+};
+
+// Follow ups due between two "YYYY-MM-DD" days (either may be relative, as
+// in the ticket filters), earliest first. Only open tickets are asked for, so
+// finished ones don't crowd out the ones still waiting on someone.
+const useFollowUps = (scope: CalendarScope, from: string, to: string, size: number) => {
+  const { user } = useCurrentUser();
+  const filters = {
+    ...defaultTicketFilters,
+    assignedTo: scope === "mine" ? ASSIGNEE_ME : "",
+    followUpFrom: from,
+    followUpTo: to,
+    status: OPEN_STATUS_FILTER,
+  };
+  const { data, isLoading, error } = useGetTicketPageQuery(
+    {
+      page: 1,
+      size,
+      sort: { field: "nextFollowUpDate", direction: "asc" },
+      filters: resolveTicketFilters(filters, user),
+    },
+    { skip: awaitsCurrentUser(filters, user) }
+  );
+  return {
+    tickets: data?.items ?? [],
+    total: data?.totalElements ?? 0,
+    truncated: !!data && data.totalElements > data.items.length,
+    isLoading,
+    error,
+  };
+};
+
+// Every day either the picker or the week strip shows
+const visibleRange = (month: Date, selected: Date) => {
+  const weekStart = startOfWeek(selected);
+  const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const weekEnd = addDays(weekStart, 6);
+  return {
+    from: toDateKey(weekStart < monthStart ? weekStart : monthStart),
+    to: toDateKey(weekEnd > monthEnd ? weekEnd : monthEnd),
+  };
+};
+
+const FollowUpItem = ({
+  ticket,
+  showDate,
+  draggable,
+  onReschedule,
+}: {
+  ticket: TicketResponse;
+  showDate?: boolean;
+  draggable?: boolean;
+  onReschedule: (ticket: TicketResponse) => void;
+}) => {
+  const overdue = followUpState(ticket) === "overdue";
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(event) => {
+        event.dataTransfer.effectAllowed = "move";
+        event.dataTransfer.setData("text/plain", String(ticket.id));
+      }}
+      className={`p-2 bg-white rounded border-l-4 shadow-sm text-sm ${overdue ? "border-red-500" : "border-blue-500"} ${
+        draggable ? "cursor-grab active:cursor-grabbing" : ""
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <Link to={`/home/ticket/${ticket.id}`} className="font-semibold text-blue-600 hover:underline truncate">
+          {ticket.ticketId}
+        </Link>
+        <TicketStatusBadge status={ticket.status} />
+      </div>
+      <p className="mt-1 text-gray-900 truncate">{ticket.candidateName || "N/A"}</p>
+      <p className="text-xs text-gray-500 truncate">{ticket.assignedTo || "Unassigned"}</p>
+      <div className="mt-1 flex items-center justify-between gap-2">
+        {showDate ? (
+          <span className={`text-xs ${overdue ? "text-red-600 font-medium" : "text-gray-500"}`}>
+            {formatDate(ticket.nextFollowUpDate)}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button onClick={() => onReschedule(ticket)} className="text-xs text-blue-600 hover:underline">
+          Reschedule
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const Queue = ({
+  title,
+  icon,
+  tickets,
+  total,
+  tone,
+  truncated,
+  onReschedule,
+}: {
+  title: string;
+  icon: ReactNode;
+  tickets: TicketResponse[];
+  // Every matching ticket, including the ones past the limit
+  total: number;
+  tone: "red" | "amber";
+  truncated: boolean;
+  onReschedule: (ticket: TicketResponse) => void;
+}) => (
+  <section className={`rounded-lg p-3 ${tone === "red" ? "bg-red-50" : "bg-amber-50"}`}>
+    <h3 className={`flex items-center gap-2 font-semibold mb-2 ${tone === "red" ? "text-red-700" : "text-amber-700"}`}>
+      {icon} {title}
+      <span className="px-2 py-0.5 text-xs rounded-full bg-white">{total}</span>
+    </h3>
+    {tickets.length === 0 ? (
+      <p className="text-sm text-gray-500">Nothing here.</p>
+    ) : (
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {tickets.map((ticket) => (
+          <FollowUpItem key={ticket.id} ticket={ticket} showDate onReschedule={onReschedule} />
+        ))}
+      </div>
+    )}
+    {truncated && <p className="mt-2 text-xs text-gray-500">Showing the earliest {QUEUE_LIMIT}.</p>}
+  </section>
+);
+
+// Upcoming follow ups on a calendar, with the overdue and due today queues
+// next to it. Rescheduling logs an entry against the ticket like any other
+// follow up.
+const FollowUpCalendar = () => {
+  const [scope, setScope] = useState<CalendarScope>("mine");
+  const [range, setRange] = useState<CalendarRange>("week");
+  const [selected, setSelected] = useState(() => new Date());
+  const [month, setMonth] = useState(() => new Date());
+  const [reschedule, setReschedule] = useState<Reschedule | null>(null);
+  const today = todayKey();
+
+  const { from, to } = visibleRange(month, selected);
+  const visible = useFollowUps(scope, from, to, RANGE_LIMIT);
+  const overdue = useFollowUps(scope, "", "today-1", QUEUE_LIMIT);
+  const dueToday = useFollowUps(scope, "today", "today", QUEUE_LIMIT);
+
+  useNotifyError(visible.error ?? overdue.error ?? dueToday.error, "Failed to fetch tickets");
+
+  const byDay = useMemo(() => {
+    const byDay = new Map<string, TicketResponse[]>();
+    for (const ticket of visible.tickets) {
+      const key = dateKeyOf(ticket.nextFollowUpDate)!;
+      byDay.set(key, [...(byDay.get(key) ?? []), ticket]);
+    }
+    return byDay;
+  }, [visible.tickets]);
+
+  const selectedKey = toDateKey(selected);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(startOfWeek(selected), i));
+
+  const select = (date: Date) => {
+    setSelected(date);
+    setMonth(date);
+  };
+
+  const openReschedule = (ticket: TicketResponse, date?: string) => setReschedule({ ticket, date });
+
+  // Dropping a ticket on another day of the week view reschedules it there
+  const handleDrop = (day: string, event: DragEvent) => {
+    event.preventDefault();
+    const id = Number(event.dataTransfer.getData("text/plain"));
+    const ticket = visible.tickets.find((t) => t.id === id);
+    if (ticket && dateKeyOf(ticket.nextFollowUpDate) !== day) openReschedule(ticket, day);
+  };
+
+  if (visible.isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const toggle = <T extends string>(value: T, current: T, onChange: (value: T) => void, label: string) => (
+    <button
+      key={value}
+      onClick={() => onChange(value)}
+      className={`px-3 py-1.5 text-sm ${current === value ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-50"}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <FollowUpsByDay.Provider value={byDay}>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex rounded-lg border overflow-hidden">
+          {toggle<CalendarScope>("mine", scope, setScope, "My follow ups")}
+          {toggle<CalendarScope>("team", scope, setScope, "Team")}
+        </div>
+        <div className="flex rounded-lg border overflow-hidden">
+          {toggle<CalendarRange>("day", range, setRange, "Day")}
+          {toggle<CalendarRange>("week", range, setRange, "Week")}
+          {toggle<CalendarRange>("month", range, setRange, "Month")}
+        </div>
+        <button onClick={() => select(new Date())} className="px-3 py-1.5 text-sm border rounded-lg bg-white hover:bg-gray-50">
+          Today
+        </button>
+      </div>
+
+      <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_20rem]">
+        <div className="bg-white rounded-lg shadow p-4 overflow-x-auto">
+          <div className={range === "month" ? "" : "flex flex-col lg:flex-row gap-6"}>
+            <DayPicker
+              mode="single"
+              required
+              selected={selected}
+              onSelect={select}
+              month={month}
+              onMonthChange={setMonth}
+              components={{ DayButton: CountedDayButton }}
+              style={range === "month" ? monthStyle : undefined}
+            />
+
+            {range === "week" && (
+              <div className="flex-1 grid grid-cols-7 gap-2 min-w-[42rem]">
+                {weekDays.map((day) => {
+                  const key = toDateKey(day);
+                  return (
+                    <div
+                      key={key}
+                      onDragOver={(event) => event.preventDefault()}
+                      onDrop={(event) => handleDrop(key, event)}
+                      className={`rounded-lg p-2 min-h-64 ${
+                        key === today ? "bg-blue-50 ring-1 ring-blue-300" : "bg-gray-50"
+                      }`}
+                    >
+                      <button onClick={() => select(day)} className="w-full text-left mb-2">
+                        <p className="text-xs uppercase text-gray-500">
+                          {day.toLocaleDateString(undefined, { weekday: "short" })}
+                        </p>
+                        <p className={`font-semibold ${key === selectedKey ? "text-blue-600" : "text-gray-800"}`}>
+                          {day.getDate()}
+                        </p>
+                      </button>
+                      <div className="space-y-2">
+                        {(byDay.get(key) ?? []).map((ticket) => (
+                          <FollowUpItem key={ticket.id} ticket={ticket} draggable onReschedule={openReschedule} />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {range !== "week" && (
+              <div className="flex-1 mt-4 lg:mt-0">
+                <h3 className="font-semibold text-gray-800 mb-3">
+                  {parseDate(selectedKey)?.toLocaleDateString(undefined, {
+                    weekday: "long",
+                    day: "numeric",
+                    month: "long",
+                  })}
+                </h3>
+                {(byDay.get(selectedKey) ?? []).length === 0 ? (
+                  <p className="text-gray-500">No follow ups on this day.</p>
+                ) : (
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {byDay.get(selectedKey)!.map((ticket) => (
+                      <FollowUpItem key={ticket.id} ticket={ticket} onReschedule={openReschedule} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <Queue
+            title="Overdue"
+            icon={<AlertTriangle className="w-4 h-4" />}
+            tickets={overdue.tickets}
+            total={overdue.total}
+            tone="red"
+            truncated={overdue.truncated}
+            onReschedule={openReschedule}
+          />
+          <Queue
+            title="Due today"
+            icon={<Clock className="w-4 h-4" />}
+            tickets={dueToday.tickets}
+            total={dueToday.total}
+            tone="amber"
+            truncated={dueToday.truncated}
+            onReschedule={openReschedule}
+          />
+        </div>
+      </div>
+
+      {reschedule && (
+        <TicketLogModal
+          ticket={reschedule.ticket}
+          initialFollowUpDate={reschedule.date}
+          title="Reschedule Follow Up"
+          onClose={() => setReschedule(null)}
+        />
+      )}
+      {visible.truncated && (
+        <p className="mt-3 text-xs text-amber-700">
+          Only the first {RANGE_LIMIT} follow ups in these dates are shown.
+        </p>
+      )}
+      <p className="mt-3 flex items-center gap-2 text-xs text-gray-500">
+        <CalendarClock className="w-4 h-4" /> Drag a ticket to another day in the week view to reschedule it.
+      </p>
+    </FollowUpsByDay.Provider>
+  );
+};
+
+export default FollowUpCalendar;
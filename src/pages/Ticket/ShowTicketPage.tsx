@@ -1,471 +1,319 @@
-import { useEffect, useState, useRef } from "react";
-import { useSearchParams } from "react-router-dom";
-import axios from "axios";
+import { useMemo, useState, useRef } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
-import { X, ChevronDown, ChevronRight, Filter, ChevronLeft } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { usePaginatedQuery } from "../../hooks/usePaginatedQuery";
+import { useAutoAssignment } from "../../hooks/useAutoAssignment";
+import { useNow } from "../../hooks/useNow";
+import { useCurrentUser } from "../../hooks/useCurrentUser";
+import { Link, useSearchParams } from "react-router-dom";
+import { Bookmark, CalendarDays, ExternalLink, Filter, List, SquareKanban } from "lucide-react";
 import { ScrollToTop } from "../../component/ScrollToTop";
+import Can from "../../component/Can";
+import DataTable, { type Column } from "../../component/DataTable";
+import ActiveFilterChips from "../../component/ActiveFilterChips";
+import MoreFiltersButton from "../../component/MoreFiltersButton";
+import Modal from "../../component/Modal";
+import SaveViewModal from "../../component/SaveViewModal";
+import TicketStatusBadge from "../../component/TicketStatusBadge";
+import TicketTimeline from "../../component/TicketTimeline";
+import TicketLogModal from "../../component/TicketLogModal";
+import AssignmentPreview from "../../component/AssignmentPreview";
+import TicketBoard from "./TicketBoard";
+import FollowUpCalendar from "./FollowUpCalendar";
+import BulkTicketActions from "./BulkTicketActions";
+import SlaEscalations from "./SlaEscalations";
+import TicketFilterPanel from "./TicketFilterPanel";
+import SlaBadge from "../../component/SlaBadge";
+import { confirm } from "../../utils/confirm";
+import { TICKET_STATUSES, TICKET_STATUS_LABELS, matchesStatusFilter, statusFilterLabel } from "../../utils/ticketStatus";
+import { followUpState } from "../../utils/followUp";
+import { assignmentStrategyLabel } from "../../utils/autoAssign";
+import { ticketSla } from "../../utils/sla";
+import { buildWorkload, describeLoad, throughputSince } from "../../utils/workload";
+import {
+  awaitsCurrentUser,
+  defaultTicketFilters,
+  describeTicketFilters,
+  resolveTicketFilters,
+} from "../../utils/ticketFilters";
+import { toSavedViewQuery } from "../../utils/savedViews";
 import { createPortal } from "react-dom";
+import {
+  useAssignTicketsMutation,
+  useDeleteTicketMutation,
+  useGetTicketCountByUserQuery,
+  useGetTicketPageQuery,
+  useGetTicketsQuery,
+  useGetSlaPoliciesQuery,
+  useGetUsersQuery,
+  type TicketPageFilters,
+} from "../../store/slices/apiSlice";
+import type { PageQuery } from "../../api/pagination";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+// Every filter is a plain URL param (the dashboard's status cards link to
+// `?status=`), so any filtered list can be shared or saved as a view. "me"
+// and relative dates are resolved here, per request, once the user is known.
+const useTicketPageQuery = (args: PageQuery<TicketPageFilters>) => {
+  const { user } = useCurrentUser();
+  const waiting = awaitsCurrentUser(args.filters, user);
+  const result = useGetTicketPageQuery({ ...args, filters: resolveTicketFilters(args.filters, user) }, { skip: waiting });
+  // Keep the table in its loading state rather than "No tickets found"
+  return { ...result, isLoading: result.isLoading || waiting, isFetching: result.isFetching || waiting };
+};
+
+const TICKET_VIEWS = ["table", "board", "calendar"] as const;
+type TicketView = (typeof TICKET_VIEWS)[number];
 
+const viewIcons = { table: List, board: SquareKanban, calendar: CalendarDays };
+
+const followUpCell = (ticket: TicketResponse) =>
+  followUpState(ticket) === "overdue" ? (
+    <span className="text-red-600 font-medium">
+      {ticket.nextFollowUpDate}
+      <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-red-100">Overdue</span>
+    </span>
+  ) : (
+    ticket.nextFollowUpDate
+  );
 
 const ShowTicketPage = () => {
-  const [searchParams] = useSearchParams();
-  const [tickets, setTickets] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [search, setSearch] = useState("");
-  const [selectedTicket, setSelectedTicket] = useState<any | null>(null);
-  const [deleteModal, setDeleteModal] = useState(false);
-  const [editModal, setEditModal] = useState(false);
+  const {
+    items: tickets,
+    totalElements,
+    totalPages,
+    page,
+    size,
+    sort,
+    filters,
+    setPage,
+    setSize,
+    toggleSort,
+    setFilter,
+    setFilters,
+    isFetching: loading,
+    error: ticketsError,
+    refetch,
+  } = usePaginatedQuery(useTicketPageQuery, { defaultFilters: defaultTicketFilters });
+  const [deleteTicket] = useDeleteTicketMutation();
+  // Table, board or calendar, kept in the URL next to the list's own params
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view: TicketView = TICKET_VIEWS.find((v) => v === searchParams.get("view")) ?? "table";
+  const [assignTickets] = useAssignTicketsMutation();
+  // Tickets ticked in the main table, kept across pages for the bulk actions
+  const [selectedTickets, setSelectedTickets] = useState<Map<number, TicketResponse>>(new Map());
+  // Ticket the log history modal is open for
+  const [editTicket, setEditTicket] = useState<TicketResponse | null>(null);
   const [assignModal, setAssignModal] = useState(false);
-  const [expandedTicketId, setExpandedTicketId] = useState<number | null>(null);
-  const [ticketLogHistory, setTicketLogHistory] = useState<{[key: number]: any[]}>({});
-  const [ticketAssignHistory, setTicketAssignHistory] = useState<{[key: number]: any[]}>({});
   const [dropdownPosition, setDropdownPosition] = useState<{ top: number; left: number }>({ top: 0, left: 0 });
   
-  // User data for role-based access control
-  const [userData, setUserData] = useState<any>(null);
-  
-  // Filter state - Initialize from URL parameter
-  const [statusFilter, setStatusFilter] = useState("ALL");
+  const statusFilter = filters.status || "ALL";
   const [showFilterDropdown, setShowFilterDropdown] = useState(false);
   const filterButtonRef = useRef<HTMLButtonElement>(null);
-  
-  // Pagination states
-  const [currentPage, setCurrentPage] = useState(1);
-  const [entriesPerPage, setEntriesPerPage] = useState(10);
+  const activeFilters = describeTicketFilters(filters);
+  // Status has its own dropdown; the panel holds the rest
+  const panelFilterCount = activeFilters.filter((filter) => !("status" in filter.clear)).length;
+  const [showFilterPanel, setShowFilterPanel] = useState(panelFilterCount > 0);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
   
   // Selection states for modal only
   const [selectedTicketsInModal, setSelectedTicketsInModal] = useState<Set<number>>(new Set());
-  const [users, setUsers] = useState<any[]>([]);
   const [selectedUser, setSelectedUser] = useState("");
+  // Id of the assignment rule that picks the users instead of `selectedUser`
+  const [assignRuleId, setAssignRuleId] = useState("");
   const [assignLoading, setAssignLoading] = useState(false);
   const [modalSearch, setModalSearch] = useState("");
-
-  const [editForm, setEditForm] = useState({
-    id: 0,
-    ticketId: 0,
-    remarks: "",
-    status: "",
-    nextFollowUpDate: "",
+  // Users and the full ticket list are only needed once the assign modal has
+  // been opened; re-assigning isn't limited to the page on screen
+  const { data: users = [], error: usersError } = useGetUsersQuery(undefined, { skip: !assignModal });
+  const { data: allTickets = [], error: allTicketsError } = useGetTicketsQuery(undefined, { skip: !assignModal });
+
+  const {
+    rules: assignmentRules,
+    rule: assignmentRule,
+    plan,
+    candidatesOf,
+    assignPlan,
+  } = useAutoAssignment(assignModal, assignRuleId);
+  const assignmentPlan = useMemo(
+    () =>
+      assignmentRule
+        ? plan(assignmentRule, candidatesOf(allTickets.filter((ticket) => selectedTicketsInModal.has(ticket.id!))))
+        : [],
+    [assignmentRule, plan, candidatesOf, allTickets, selectedTicketsInModal]
+  );
+  // Current load per user, shown next to each name in the picker
+  const { data: ticketCounts = [], error: ticketCountsError } = useGetTicketCountByUserQuery(throughputSince(), {
+    skip: !assignModal,
   });
+  const workload = useMemo(
+    () => new Map(buildWorkload(users, ticketCounts).map((entry) => [entry.user?.id, entry])),
+    [users, ticketCounts]
+  );
 
-  // Check if user has delete permission (Super Admin or Admin only)
-  const hasDeletePermission = userData?.departmentId === 1 || userData?.departmentId === 2;
-
-  // Helper function to get user ID from token
-  const getUserIdFromToken = (): number | null => {
-    try {
-      const token = sessionStorage.getItem("token");
-      if (!token) return null;
-
-      const cleanToken = token.replace('Bearer ', '');
-      const payload = JSON.parse(atob(cleanToken.split('.')[1]));
-      
-      // Check different possible locations for user ID in the token
-      if (payload.UserAuthDetails && payload.UserAuthDetails.id) {
-        return payload.UserAuthDetails.id;
-      }
-      if (payload.id) {
-        return payload.id;
-      }
-      if (payload.userId) {
-        return payload.userId;
-      }
-      if (payload.sub) {
-        return parseInt(payload.sub);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error("Error decoding token for user ID:", error);
-      return null;
-    }
-  };
-
-  // Fetch current user data
-  const fetchUserData = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      if (!token) {
-        toast.error("No authentication token found");
-        return;
-      }
-
-      // Get user ID from token
-      const userId = getUserIdFromToken();
-      if (!userId) {
-        toast.error("Unable to get user ID from token");
-        return;
-      }
-
-      console.log("Fetching user data for ID:", userId); // Debug log
-
-      // Fetch current user data using the extracted user ID
-      const res = await axios.get(`${API_BASE}/auth/getById/${userId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      
-      if (res.data.code === 1 && res.data.data) {
-        const user = {
-          id: res.data.data.id,
-          departmentId: res.data.data.departmentId,
-          departmentName: res.data.data.departmentName,
-          name: res.data.data.name,
-          email: res.data.data.email
-        };
-        
-        
-        setUserData(user);
-        
-        // Store user data in sessionStorage for future use
-        sessionStorage.setItem("userData", JSON.stringify(user));
-      } 
-    } catch (error: any) {
-      console.error("Error fetching user data:", error);
-      toast.error(error?.response?.data?.message || "Failed to fetch user data");
-    }
-  };
-
-  // Get user data on component mount
-  useEffect(() => {
-    const initializeUserData = async () => {
-      // Try to get user data from sessionStorage first
-      const storedUserData = sessionStorage.getItem("userData");
-      if (storedUserData) {
-        try {
-          const parsedUserData = JSON.parse(storedUserData);
-          console.log("Using stored user data:", parsedUserData);
-          setUserData(parsedUserData);
-        } catch (error) {
-          console.error("Error parsing stored user data:", error);
-          // Remove corrupted data
-          sessionStorage.removeItem("userData");
-          // Fetch from API
-          await fetchUserData();
-        }
-      } else {
-        // If no valid stored user data, fetch from API
-        await fetchUserData();
-      }
-    };
-
-    initializeUserData();
-  }, []);
-
-  useEffect(() => {
-    // Read status filter from URL parameter and set it
-    const statusFromUrl = searchParams.get('status');
-    if (statusFromUrl) {
-      setStatusFilter(statusFromUrl);
-    }
-    
-    fetchTickets();
-  }, [searchParams]);
-
-  // Prevent body scroll when any modal is open
-  useEffect(() => {
-    if (assignModal || editModal || deleteModal) {
-      document.body.style.overflow = 'hidden';
-    } else {
-      document.body.style.overflow = 'unset';
-    }
-
-    // Cleanup on component unmount
-    return () => {
-      document.body.style.overflow = 'unset';
-    };
-  }, [assignModal, editModal, deleteModal]);
-
-  const fetchTickets = async () => {
-    try {
-      setLoading(true);
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/ticket/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) setTickets(res.data.data);
-      else toast.error(res.data.message || "Failed to fetch tickets");
-    } catch {
-      toast.error("Error fetching tickets");
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchUsers = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/auth/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) setUsers(res.data.data);
-      else toast.error(res.data.message || "Failed to fetch users");
-    } catch {
-      toast.error("Error fetching users");
-    }
-  };
-
-  const handleDelete = async () => {
-    if (!selectedTicket) return;
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.delete(`${API_BASE}/ticket/delete/${selectedTicket.id}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) {
-        toast.success("Ticket deleted successfully");
-        setDeleteModal(false);
-        fetchTickets();
-      } else toast.error(res.data.message || "Failed to delete ticket");
-    } catch {
-      toast.error("Error deleting ticket");
-    }
-  };
-
-  const fetchLogHistory = async (ticketId: number) => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/log-history/get-by-ticket-id?ticketId=${ticketId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) {
-        setTicketLogHistory(prev => ({
-          ...prev,
-          [ticketId]: res.data.data || []
-        }));
-      } else toast.error(res.data.message || "Failed to fetch log history");
-    } catch {
-      toast.error("Error fetching log history");
-    }
-  };
-
-  const fetchAssignHistory = async (ticketId: number) => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/status/assign-history/${ticketId}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1) {
-        setTicketAssignHistory(prev => ({
-          ...prev,
-          [ticketId]: res.data.data || []
-        }));
-      } 
-    } catch {
-      toast.error("Error fetching assign history");
-    }
-  };
-
-  const toggleRowExpansion = async (ticket: any) => {
-    if (expandedTicketId === ticket.id) {
-      // clicking same ticket closes it
-      setExpandedTicketId(null);
-    } else {
-      setExpandedTicketId(ticket.id);
-  
-      // fetch histories only for the new expanded ticket
-      if (!ticketLogHistory[ticket.id]) {
-        await fetchLogHistory(ticket.id);
-      }
-      if (!ticketAssignHistory[ticket.id]) {
-        await fetchAssignHistory(ticket.id);
-      }
-    }
-  };
-  
-
-  const handleEdit = (ticket: any) => {
-    setEditForm({
-      id: 0,
-      ticketId: ticket.id,
-      remarks: "",
-      status: ticket.status,
-      nextFollowUpDate: ticket.nextFollowUpDate,
+  // SLA countdowns tick once a minute
+  const { data: slaPolicies = [] } = useGetSlaPoliciesQuery();
+  const now = useNow();
+
+  useNotifyError(ticketsError, "Failed to fetch tickets");
+  useNotifyError(usersError, "Failed to fetch users");
+  useNotifyError(allTicketsError, "Failed to fetch tickets");
+  useNotifyError(ticketCountsError, "Failed to fetch ticket counts");
+
+  const handleDelete = async (ticket: TicketResponse) => {
+    const confirmed = await confirm({
+      title: "Confirm Delete",
+      message: <>Are you sure you want to delete ticket <b>{ticket.ticketId}</b>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
     });
-    setEditModal(true);
-  };
+    if (!confirmed) return;
 
-  const handleAddLogHistory = async () => {
     try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.post(`${API_BASE}/log-history/add`, editForm, {
-        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-      });
-      if (res.data.code === 1) {
-        toast.success("Log history added successfully");
-        setEditModal(false);
-        await fetchLogHistory(editForm.ticketId);
-        fetchTickets();
-      } else toast.error(res.data.message || "Failed to add log history");
-    } catch {
-      toast.error("Error adding log history");
+      await deleteTicket(ticket.id!).unwrap();
+      toast.success("Ticket deleted successfully");
+    } catch (error) {
+      notifyError(error, "Failed to delete ticket");
     }
   };
 
   // Modal Selection handlers
-  const handleSelectTicketInModal = (ticketId: number) => {
-    const newSelected = new Set(selectedTicketsInModal);
-    if (newSelected.has(ticketId)) {
-      newSelected.delete(ticketId);
-    } else {
-      newSelected.add(ticketId);
-    }
-    setSelectedTicketsInModal(newSelected);
-  };
-
   const handleSelectAllInModal = () => {
     const modalFilteredTickets = getModalFilteredTickets();
     if (selectedTicketsInModal.size === modalFilteredTickets.length) {
       setSelectedTicketsInModal(new Set());
     } else {
-      setSelectedTicketsInModal(new Set(modalFilteredTickets.map(t => t.id)));
+      setSelectedTicketsInModal(new Set(modalFilteredTickets.map(t => t.id!)));
     }
   };
 
   const handleSelectCountInModal = (count: number) => {
     const modalFilteredTickets = getModalFilteredTickets();
-    const ticketIds = modalFilteredTickets.slice(0, count).map(t => t.id);
+    const ticketIds = modalFilteredTickets.slice(0, count).map(t => t.id!);
     setSelectedTicketsInModal(new Set(ticketIds));
   };
 
+  // Freshly imported tickets have nobody on them yet
+  const handleSelectUnassignedInModal = () => {
+    const unassigned = getModalFilteredTickets().filter((t) => !t.assignedTo?.trim());
+    setSelectedTicketsInModal(new Set(unassigned.map((t) => t.id!)));
+  };
+
   const handleSelectNoneInModal = () => {
     setSelectedTicketsInModal(new Set());
   };
 
   // Get filtered tickets for modal with modal search
   const getModalFilteredTickets = () => {
-    return filteredTickets.filter(
+    return allTickets
+      .filter((t) => matchesStatusFilter(t.status, filters.status))
+      .filter(
       (t) =>
-        t.candidateName.toLowerCase().includes(modalSearch.toLowerCase()) ||
-        t.assignedTo.toLowerCase().includes(modalSearch.toLowerCase()) ||
-        t.ticketId.toLowerCase().includes(modalSearch.toLowerCase())
+        (t.candidateName ?? "").toLowerCase().includes(modalSearch.toLowerCase()) ||
+        (t.assignedTo ?? "").toLowerCase().includes(modalSearch.toLowerCase()) ||
+        (t.ticketId ?? "").toLowerCase().includes(modalSearch.toLowerCase())
     );
   };
 
   // Assignment handlers
-  const handleOpenAssignModal = async () => {
+  const handleOpenAssignModal = () => {
     setAssignModal(true);
     setSelectedTicketsInModal(new Set()); // Reset selection when opening modal
     setModalSearch(""); // Reset modal search
-    await fetchUsers();
   };
 
-  const handleAssignTickets = async () => {
-    if (!selectedUser) {
-      toast.error("Please select a user");
+  const closeAssignModal = () => {
+    setAssignModal(false);
+    setSelectedUser("");
+    setAssignRuleId("");
+    setSelectedTicketsInModal(new Set());
+    setModalSearch("");
+  };
+
+  const handleAssignByRule = async () => {
+    if (!assignmentRule) return;
+    const planned = assignmentPlan.filter(({ user }) => user);
+    if (planned.length === 0) {
+      toast.error("The rule can't assign any of the selected tickets");
       return;
     }
+
+    try {
+      setAssignLoading(true);
+      const { committed, failed } = await assignPlan(assignmentRule, planned);
+      if (failed.length === 0) toast.success(`${committed.length} ticket(s) assigned using ${assignmentRule.name}`);
+      // Planning again from the updated lists beats retrying a stale plan
+      if (committed.length > 0) closeAssignModal();
+    } finally {
+      setAssignLoading(false);
+    }
+  };
+
+  const handleAssignTickets = async () => {
     if (selectedTicketsInModal.size === 0) {
       toast.error("Please select at least one ticket");
       return;
     }
+    if (assignmentRule) {
+      await handleAssignByRule();
+      return;
+    }
+    if (!selectedUser) {
+      toast.error("Please select a user");
+      return;
+    }
 
     try {
       setAssignLoading(true);
-      const token = sessionStorage.getItem("token");
-      
       // Get candidate IDs from selected tickets
       const selectedTicketsList = Array.from(selectedTicketsInModal);
-      const candidateIds = tickets
-        .filter(ticket => selectedTicketsList.includes(ticket.id))
-        .map(ticket => ticket.candidateId); // Assuming there's a candidateId field
-      
-      const assignmentData = {
+      const candidateIds = allTickets
+        .filter(ticket => selectedTicketsList.includes(ticket.id!))
+        .map(ticket => ticket.candidateId!);
+
+      await assignTickets({
         userId: parseInt(selectedUser),
         candidateIds: candidateIds
-      };
-
-      const res = await axios.post(`${API_BASE}/status/assign`, assignmentData, {
-        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-      });
+      }).unwrap();
 
-      if (res.data.code === 1) {
-        toast.success("Tickets assigned to user successfully");
-        setAssignModal(false);
-        setSelectedUser("");
-        setSelectedTicketsInModal(new Set());
-        setModalSearch("");
-        fetchTickets();
-      } else {
-        toast.error(res.data.message || "Failed to assign tickets");
-      }
-    } catch {
-      toast.error("Error assigning tickets");
+      toast.success("Tickets assigned to user successfully");
+      closeAssignModal();
+    } catch (error) {
+      notifyError(error, "Failed to assign tickets");
     } finally {
       setAssignLoading(false);
     }
   };
 
-  const getFilteredTickets = () => {
-    let filtered = tickets.filter(
-      (t) =>
-        t.candidateName.toLowerCase().includes(search.toLowerCase()) ||
-        t.assignedTo.toLowerCase().includes(search.toLowerCase()) ||
-        t.ticketId.toLowerCase().includes(search.toLowerCase())
+  const setView = (view: TicketView) =>
+    setSearchParams(
+      (previous) => {
+        const next = new URLSearchParams(previous);
+        if (view === "table") next.delete("view");
+        else next.set("view", view);
+        return next;
+      },
+      { replace: true }
     );
 
-    if (statusFilter !== "ALL") {
-      filtered = filtered.filter(t => t.status === statusFilter);
-    }
-
-    return filtered;
-  };
-
-  const filteredTickets = getFilteredTickets();
-
-  // Pagination calculations
-  const totalEntries = filteredTickets.length;
-  const totalPages = entriesPerPage === -1 ? 1 : Math.ceil(totalEntries / entriesPerPage);
-  
-  // Get current page data
-  const getCurrentPageData = () => {
-    if (entriesPerPage === -1) {
-      return filteredTickets; // Show all entries
-    }
-    
-    const startIndex = (currentPage - 1) * entriesPerPage;
-    const endIndex = startIndex + entriesPerPage;
-    return filteredTickets.slice(startIndex, endIndex);
-  };
-
-  const currentData = getCurrentPageData();
-
-  // Reset to first page when search changes or entries per page changes
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [search, entriesPerPage, statusFilter]);
+  // The table only reports ids; rows from other pages keep the record they
+  // were ticked with
+  const handleSelectionChange = (ids: Set<number>) =>
+    setSelectedTickets((previous) => {
+      const next = new Map<number, TicketResponse>();
+      for (const id of ids) {
+        const ticket = previous.get(id) ?? tickets.find((t) => t.id === id);
+        if (ticket) next.set(id, ticket);
+      }
+      return next;
+    });
 
   const handleRefresh = ()=>{
-    fetchTickets();
+    refetch();
     toast.success("Tickets Refreshed!")
   }
 
-  // Handle entries per page change
-  const handleEntriesPerPageChange = (value: string) => {
-    const numValue = value === "all" ? -1 : parseInt(value);
-    setEntriesPerPage(numValue);
-    setCurrentPage(1);
-  };
-
-  // Handle page navigation
-  const goToPage = (page: number) => {
-    if (page >= 1 && page <= totalPages) {
-      setCurrentPage(page);
-    }
-  };
-
-  const goToPrevious = () => {
-    if (currentPage > 1) {
-      setCurrentPage(currentPage - 1);
-    }
-  };
-
-  const goToNext = () => {
-    if (currentPage < totalPages) {
-      setCurrentPage(currentPage + 1);
-    }
-  };
-
   const toggleDropdown = () => {
     if (!showFilterDropdown && filterButtonRef.current) {
       const rect = filterButtonRef.current.getBoundingClientRect();
@@ -477,394 +325,281 @@ const ShowTicketPage = () => {
     setShowFilterDropdown(!showFilterDropdown);
   };
 
-  const statusOptions = ["ALL", "OPEN", "INPROGRESS", "PENDING", "CLOSE", "COMPLETED"];
-
-  return (
-    <div className="p-4 min-h-screen bg-gray-50">
-      <div className="w-full max-w-none overflow-hidden">
-        <h1 className="text-2xl font-bold mb-6">
-          Tickets
-          {/* Show current filter in title if not ALL */}
-          {statusFilter !== "ALL" && (
-            <span className="text-lg font-normal text-gray-600 ml-2">
-              - Filtered by: <span className="font-semibold text-blue-600">{statusFilter}</span>
-            </span>
-          )}
-        </h1>
-
-        {/* Search + Refresh + Filter + Assign Button */}
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center space-x-2 flex-1">
-            <input
-              type="text"
-              placeholder="Search tickets..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="flex-1 max-w-md border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
-            />
-           <button
-            onClick={handleRefresh}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
-          >
-            <i className="fas fa-sync-alt"></i> Refresh
+  const statusOptions = ["ALL", ...TICKET_STATUSES] as const;
+
+  const statusBadge = (ticket: TicketResponse) => <TicketStatusBadge status={ticket.status} />;
+
+  const columns: Column<TicketResponse>[] = [
+    // Frozen columns
+    {
+      id: "ticketId",
+      header: "Ticket ID",
+      width: 120,
+      sticky: true,
+      sortable: true,
+      hideable: false,
+      cell: (ticket) => (
+        <Link to={`/home/ticket/${ticket.id}`} className="text-blue-600 hover:underline">
+          {ticket.ticketId}
+        </Link>
+      ),
+    },
+    { id: "candidateName", header: "Candidate", width: 150, sticky: true, sortable: true, cell: (ticket) => ticket.candidateName },
+    // Scrollable columns
+    { id: "assignedTo", header: "Assigned To", width: 120, sortable: true, cell: (ticket) => ticket.assignedTo },
+    { id: "status", header: "Status", width: 100, sortable: true, cell: statusBadge },
+    {
+      id: "sla",
+      header: "SLA",
+      width: 140,
+      cell: (ticket) => <SlaBadge ticket={ticket} sla={ticketSla(ticket, slaPolicies, now)} />,
+    },
+    { id: "nextFollowUpDate", header: "Next Follow Up", width: 150, sortable: true, cell: followUpCell },
+    {
+      id: "remarks",
+      header: "Remarks",
+      width: 200,
+      cell: (ticket) => (
+        <div className="truncate max-w-[200px]" title={ticket.remarks}>
+          {ticket.remarks || 'No remarks'}
+        </div>
+      ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      width: 120,
+      hideable: false,
+      cell: (ticket) => (
+        <div className="space-x-3">
+          <button onClick={() => setEditTicket(ticket)} className="text-green-600 hover:text-green-800">
+            <i className="fas fa-edit"></i>
           </button>
-            
-            {/* Status Filter Button */}
-<div className="relative">
-  <button
-    ref={filterButtonRef}
-    onClick={toggleDropdown}
-    className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50 flex items-center space-x-2"
-  >
-    <Filter className="w-4 h-4" />
-    <span>Filter: {statusFilter}</span>
-  </button>
-
-  {showFilterDropdown &&
-    createPortal(
-      <>
-        {/* Backdrop */}
-        <div
-          className="fixed inset-0 z-[9998]"
-          onClick={() => setShowFilterDropdown(false)}
-        />
-        {/* Dropdown */}
-        <div
-          className="absolute bg-white border rounded-lg shadow-lg min-w-[150px] z-[9999]"
-          style={{
-            top: dropdownPosition.top,
-            left: dropdownPosition.left,
-            position: "absolute",
-          }}
-          onClick={(e) => e.stopPropagation()}
-        >
-          {statusOptions.map((status) => (
+          <Can permission="ticket.delete">
             <button
-              key={status}
-              onClick={() => {
-                setStatusFilter(status);
-                setShowFilterDropdown(false);
-              }}
-              className={`block w-full text-left px-4 py-2 hover:bg-gray-50 first:rounded-t-lg last:rounded-b-lg ${
-                statusFilter === status ? "bg-blue-50 text-blue-600" : ""
-              }`}
+              onClick={() => handleDelete(ticket)}
+              className="text-red-600 hover:text-red-800"
             >
-              {status}
+              <i className="fas fa-trash"></i>
             </button>
-          ))}
+          </Can>
         </div>
-      </>,
-      document.body
-    )}
-</div>
-
-          </div>
-          
-          <button
-            onClick={handleOpenAssignModal}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-          >
-            Re-Assign
-          </button>
+      ),
+    },
+  ];
+
+  const modalColumns: Column<TicketResponse>[] = [
+    { id: "ticketId", header: "Ticket ID", cell: (ticket) => ticket.ticketId, sortValue: (ticket) => ticket.ticketId, sortable: true },
+    { id: "candidateName", header: "Candidate", cell: (ticket) => ticket.candidateName, sortValue: (ticket) => ticket.candidateName, sortable: true },
+    { id: "assignedTo", header: "Assigned To", cell: (ticket) => ticket.assignedTo, sortValue: (ticket) => ticket.assignedTo, sortable: true },
+    { id: "status", header: "Status", cell: statusBadge, sortValue: (ticket) => ticket.status, sortable: true },
+    { id: "nextFollowUpDate", header: "Next Follow Up", cell: followUpCell, sortValue: (ticket) => ticket.nextFollowUpDate, sortable: true },
+    {
+      id: "remarks",
+      header: "Remarks",
+      cell: (ticket) => (
+        <div className="truncate max-w-[150px]" title={ticket.remarks}>
+          {ticket.remarks || 'No remarks'}
         </div>
+      ),
+    },
+  ];
+
+  // Activity shown under an expanded ticket
+  const renderHistory = (ticket: TicketResponse) => (
+    <div className="p-4 bg-blue-50">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="font-semibold text-gray-800">Activity</h4>
+        <Link to={`/home/ticket/${ticket.id}`} className="flex items-center gap-1 text-sm text-blue-600 hover:underline">
+          Open ticket <ExternalLink className="w-3 h-3" />
+        </Link>
+      </div>
+      <TicketTimeline ticketId={ticket.id!} />
+    </div>
+  );
 
-        {/* Show filter info if coming from dashboard */}
-        {searchParams.get('status') && statusFilter !== "ALL" && (
-          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-            <p className="text-blue-800 text-sm">
-              <i className="fas fa-info-circle mr-2"></i>
-              Showing tickets with status: <strong>{statusFilter}</strong>
-              <button 
-                onClick={() => setStatusFilter("ALL")} 
-                className="ml-3 text-blue-600 hover:text-blue-800 underline text-xs"
-              >
-                Clear filter
-              </button>
-            </p>
-          </div>
-        )}
-
-        {/* Entries per page selector */}
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-600">Show</span>
-            <select
-              value={entriesPerPage === -1 ? "all" : entriesPerPage.toString()}
-              onChange={(e) => handleEntriesPerPageChange(e.target.value)}
-              className="border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="10">10</option>
-              <option value="20">20</option>
-              <option value="50">50</option>
-              <option value="100">100</option>
-              <option value="200">200</option>
-              <option value="all">All</option>
-            </select>
-            <span className="text-sm text-gray-600">entries</span>
-          </div>
-          
-          {/* Showing entries info */}
-          <div className="text-sm text-gray-600">
-            {totalEntries === 0 ? (
-              "No entries found"
-            ) : entriesPerPage === -1 ? (
-              `Showing all ${totalEntries} entries`
-            ) : (
-              `Showing ${Math.min((currentPage - 1) * entriesPerPage + 1, totalEntries)} to ${Math.min(currentPage * entriesPerPage, totalEntries)} of ${totalEntries} entries`
+  return (
+    <div className="p-4 min-h-screen bg-gray-50">
+      <div className="w-full max-w-none overflow-hidden">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-2xl font-bold">
+            Tickets
+            {/* Show current filter in title if not ALL */}
+            {view === "table" && statusFilter !== "ALL" && (
+              <span className="text-lg font-normal text-gray-600 ml-2">
+                - Filtered by: <span className="font-semibold text-blue-600">{statusFilterLabel(filters.status)}</span>
+              </span>
             )}
+          </h1>
+
+          <div className="flex rounded-lg border bg-white overflow-hidden">
+            {TICKET_VIEWS.map((option) => {
+              const Icon = viewIcons[option];
+              return (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-2 flex items-center gap-2 text-sm capitalize ${
+                    view === option ? "bg-blue-600 text-white" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <Icon className="w-4 h-4" /> {option}
+                </button>
+              );
+            })}
           </div>
         </div>
 
-        {/* Tickets Table without checkbox column */}
-        <div className="overflow-x-auto shadow rounded-lg">
-          <div className="relative">
-            <table className="w-full border-collapse border border-gray-300 min-w-[1000px]">
-              <thead className="bg-gray-100 sticky top-0 z-20">
-                <tr className="text-center">
-                  {/* Frozen columns */}
-                  <th className="p-2 border bg-gray-100 sticky left-0 z-30 min-w-[120px]">Ticket ID</th>
-                  <th className="p-2 border bg-gray-100 sticky left-[120px] z-30 min-w-[150px]">Candidate</th>
-                  {/* Scrollable columns */}
-                  <th className="p-2 border min-w-[120px]">Assigned To</th>
-                  <th className="p-2 border min-w-[100px]">Status</th>
-                  <th className="p-2 border min-w-[150px]">Next Follow Up</th>
-                  <th className="p-2 border min-w-[200px]">Remarks</th>
-                  <th className="p-2 border min-w-[120px]">Actions</th>
-                  <th className="p-2 border min-w-[80px]">Expand</th>
-                </tr>
-              </thead>
-              <tbody>
-                {currentData.length ? (
-                  currentData.map((ticket) => (
-                    <>
-                      {/* Main ticket row */}
-                      <tr key={ticket.id} className="text-center hover:bg-gray-50 border-b">
-                        {/* Frozen columns */}
-                        <td className="p-2 border bg-white sticky left-0 z-10 font-medium">{ticket.ticketId}</td>
-                        <td className="p-2 border bg-white sticky left-[120px] z-10 font-medium">{ticket.candidateName}</td>
-                        {/* Scrollable columns */}
-                        <td className="p-2 border">{ticket.assignedTo}</td>
-                        <td className="p-2 border">
-                          <span className={`px-2 py-1 rounded text-xs font-medium ${
-                            ticket.status === 'OPEN' ? 'bg-blue-100 text-blue-800' :
-                            ticket.status === 'INPROGRESS' ? 'bg-yellow-100 text-yellow-800' :
-                            ticket.status === 'PENDING' ? 'bg-orange-100 text-orange-800' :
-                            ticket.status === 'CLOSE' ? 'bg-gray-100 text-gray-800' :
-                            ticket.status === 'COMPLETED' ? 'bg-green-100 text-green-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {ticket.status}
-                          </span>
-                        </td>
-                        <td className="p-2 border">{ticket.nextFollowUpDate}</td>
-                        <td className="p-2 border">
-                          <div className="truncate max-w-[200px]" title={ticket.remarks}>
-                            {ticket.remarks || 'No remarks'}
-                          </div>
-                        </td>
-                        <td className="p-2 border space-x-3">
-                          <button onClick={() => handleEdit(ticket)} className="text-green-600 hover:text-green-800">
-                            <i className="fas fa-edit"></i>
-                          </button>
-                          {/* Only show delete button for ADMIN (departmentId 2) and SUPERADMIN (departmentId 1) */}
-                          {hasDeletePermission && (
-                            <button
-                              onClick={() => { setSelectedTicket(ticket); setDeleteModal(true); }}
-                              className="text-red-600 hover:text-red-800"
-                            >
-                              <i className="fas fa-trash"></i>
-                            </button>
-                          )}
-                        </td>
-                        <td className="p-2 border">
-                          <button
-  onClick={() => toggleRowExpansion(ticket)}
-  className="text-blue-600 hover:text-blue-800 p-1"
->
-  {expandedTicketId === ticket.id ? (
-    <ChevronDown className="w-4 h-4" />
-  ) : (
-    <ChevronRight className="w-4 h-4" />
-  )}
-</button>
-
-                        </td>
-                      </tr>
-                      
-                      {/* Expanded log history and assign history row */}
-                      {expandedTicketId === ticket.id && (
-                        <tr key={`${ticket.id}-expanded`} className="bg-gray-50">
-                          <td colSpan={8} className="p-0 border-b">
-                            <div className="p-4 bg-blue-50">
-                              {/* Log History Section */}
-                              <div className="mb-6">
-                                <h4 className="font-semibold text-gray-800 mb-3">Log History</h4>
-                                {ticketLogHistory[ticket.id]?.length ? (
-                                  <div className="space-y-3">
-                                    {ticketLogHistory[ticket.id].map((log, idx) => (
-                                      <div key={idx} className="p-3 border-l-4 border-blue-600 bg-white rounded-r shadow-sm">
-                                        <div className="flex justify-between items-start">
-                                          <div className="flex-1">
-                                            <p className="text-sm font-medium text-gray-900">
-                                              Status: <span className={`px-2 py-1 rounded text-xs ${
-                                                log.status === 'OPEN' ? 'bg-blue-100 text-blue-800' :
-                                                log.status === 'INPROGRESS' ? 'bg-yellow-100 text-yellow-800' :
-                                                log.status === 'PENDING' ? 'bg-orange-100 text-orange-800' :
-                                                log.status === 'ClOSED' ? 'bg-gray-100 text-gray-800' :
-                                                log.status === 'COMPLETED' ? 'bg-green-100 text-green-800' :
-                                                'bg-gray-100 text-gray-800'
-                                              }`}>{log.status}</span>
-                                            </p>
-                                            <p className="text-gray-800 mt-2">{log.remarks}</p>
-                                            <p className="text-sm text-gray-500 mt-1">Next Follow Up: {log.nextFollowUpDate}</p>
-                                          </div>
-                                        </div>
-                                      </div>
-                                    ))}
-                                  </div>
-                                ) : (
-                                  <p className="text-gray-500">No log history found.</p>
-                                )}
-                              </div>
+        {view === "table" && (
+          <ActiveFilterChips
+            noun="tickets"
+            filters={activeFilters}
+            onClear={setFilters}
+            onClearAll={() => setFilters({ ...defaultTicketFilters, search: filters.search })}
+          />
+        )}
 
-                              {/* Assign History Section */}
-                              <div>
-                                <h4 className="font-semibold text-gray-800 mb-3">Assign History</h4>
-                                {ticketAssignHistory[ticket.id]?.length ? (
-                                  <div className="space-y-3">
-                                    {ticketAssignHistory[ticket.id].map((assign, idx) => (
-                                      <div key={idx} className="p-3 border-l-4 border-green-600 bg-white rounded-r shadow-sm">
-                                        <div className="flex justify-between items-start">
-                                          <div className="flex-1">
-                                            <p className="text-sm font-medium text-gray-900">
-                                              Ticket: <span className="text-blue-600">{assign.ticketName}</span>
-                                            </p>
-                                            <div className="mt-2 space-y-1 text-sm text-gray-700">
-                                              <p><span className="font-medium">Assigned By:</span> {assign.assignBy}</p>
-                                              <p><span className="font-medium">Assigned To:</span> {assign.assignTo}</p>
-                                              <p><span className="font-medium">Date:</span> {assign.createdOn}</p>
-                                            </div>
-                                          </div>
-                                        </div>
-                                      </div>
-                                    ))}
-                                  </div>
-                                ) : (
-                                  <p className="text-gray-500">No assign history found.</p>
-                                )}
-                              </div>
-                            </div>
-                          </td>
-                        </tr>
-                      )}
-                    </>
-                  ))
-                ) : (
-                  <tr>
-                    <td className="p-4 text-center text-gray-500" colSpan={8}>
-                      {loading ? "Loading..." : "No tickets found"}
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-        </div>
+        {view === "calendar" ? (
+          <FollowUpCalendar />
+        ) : view === "board" ? (
+          <>
+            <input
+              type="text"
+              placeholder="Search tickets..."
+              value={filters.search}
+              onChange={(e) => setFilter("search", e.target.value)}
+              className="w-full max-w-md mb-4 border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
+            />
+            <TicketBoard search={filters.search} />
+          </>
+        ) : (
+          <>
+            {showFilterPanel && <TicketFilterPanel filters={filters} onChange={setFilters} />}
+            <SlaEscalations />
+            <BulkTicketActions tickets={[...selectedTickets.values()]} onClear={() => setSelectedTickets(new Map())} />
+            <DataTable
+              columns={columns}
+              data={tickets}
+              rowKey={(ticket) => ticket.id!}
+              loading={loading}
+              emptyMessage="No tickets found"
+              search={{ value: filters.search, onChange: (value) => setFilter("search", value) }}
+              searchPlaceholder="Search tickets..."
+              toolbar={
+                <>
+                  <button
+                    onClick={handleRefresh}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2"
+                  >
+                    <i className="fas fa-sync-alt"></i> Refresh
+                  </button>
 
-        {/* Pagination Controls */}
-        {entriesPerPage !== -1 && totalPages > 1 && (
-          <div className="flex items-center justify-between mt-4">
-            <div className="flex items-center space-x-2">
-              <button
-                onClick={goToPrevious}
-                disabled={currentPage === 1}
-                className="flex items-center px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                <ChevronLeft className="w-4 h-4 mr-1" />
-                Previous
-              </button>
-              
-              <div className="flex items-center space-x-1">
-                {/* First page */}
-                {currentPage > 3 && (
-                  <>
+                  {/* Status Filter Button */}
+                  <div className="relative">
                     <button
-                      onClick={() => goToPage(1)}
-                      className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
+                      ref={filterButtonRef}
+                      onClick={toggleDropdown}
+                      className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50 flex items-center space-x-2"
                     >
-                      1
+                      <Filter className="w-4 h-4" />
+                      <span>Filter: {statusFilter === "ALL" ? statusFilter : statusFilterLabel(filters.status)}</span>
                     </button>
-                    {currentPage > 4 && (
-                      <span className="px-2 py-2 text-sm text-gray-500">...</span>
-                    )}
-                  </>
-                )}
 
-                {/* Page numbers around current page */}
-                {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                  let pageNum;
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
+                    {showFilterDropdown &&
+                      createPortal(
+                        <>
+                          {/* Backdrop */}
+                          <div
+                            className="fixed inset-0 z-[9998]"
+                            onClick={() => setShowFilterDropdown(false)}
+                          />
+                          {/* Dropdown */}
+                          <div
+                            className="absolute bg-white border rounded-lg shadow-lg min-w-[150px] z-[9999]"
+                            style={{
+                              top: dropdownPosition.top,
+                              left: dropdownPosition.left,
+                              position: "absolute",
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {statusOptions.map((status) => (
+                              <button
+                                key={status}
+                                onClick={() => {
+                                  setFilter("status", status === "ALL" ? "" : status);
+                                  setShowFilterDropdown(false);
+                                }}
+                                className={`block w-full text-left px-4 py-2 hover:bg-gray-50 first:rounded-t-lg last:rounded-b-lg ${
+                                  statusFilter === status ? "bg-blue-50 text-blue-600" : ""
+                                }`}
+                              >
+                                {status === "ALL" ? "All" : TICKET_STATUS_LABELS[status]}
+                              </button>
+                            ))}
+                          </div>
+                        </>,
+                        document.body
+                      )}
+                  </div>
 
-                  if (pageNum < 1 || pageNum > totalPages) return null;
+                  <MoreFiltersButton
+                    open={showFilterPanel}
+                    count={panelFilterCount}
+                    onToggle={() => setShowFilterPanel(!showFilterPanel)}
+                  />
 
-                  return (
-                    <button
-                      key={pageNum}
-                      onClick={() => goToPage(pageNum)}
-                      className={`px-3 py-2 text-sm font-medium rounded-lg ${
-                        currentPage === pageNum
-                          ? 'text-blue-600 bg-blue-50 border border-blue-300'
-                          : 'text-gray-500 bg-white border border-gray-300 hover:bg-gray-50 hover:text-gray-700'
-                      }`}
-                    >
-                      {pageNum}
-                    </button>
-                  );
-                })}
+                  <button
+                    onClick={() => setSaveViewOpen(true)}
+                    className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50 flex items-center gap-2"
+                  >
+                    <Bookmark className="w-4 h-4" /> Save View
+                  </button>
 
-                {/* Last page */}
-                {currentPage < totalPages - 2 && (
-                  <>
-                    {currentPage < totalPages - 3 && (
-                      <span className="px-2 py-2 text-sm text-gray-500">...</span>
-                    )}
+                  <Can permission="ticket.assign">
                     <button
-                      onClick={() => goToPage(totalPages)}
-                      className="px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
+                      onClick={handleOpenAssignModal}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
                     >
-                      {totalPages}
+                      Re-Assign
                     </button>
-                  </>
-                )}
-              </div>
+                  </Can>
 
-              <button
-                onClick={goToNext}
-                disabled={currentPage === totalPages}
-                className="flex items-center px-3 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Next
-                <ChevronRight className="w-4 h-4 ml-1" />
-              </button>
-            </div>
-
-            
-          </div>
+                  <Link
+                    to="/home/ticket/assignment-rules"
+                    className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50"
+                  >
+                    Assignment Rules
+                  </Link>
+
+                  <Link to="/home/ticket/sla-policies" className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50">
+                    SLA Policies
+                  </Link>
+
+                  <Link to="/home/ticket/workload" className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-50">
+                    Workload
+                  </Link>
+                </>
+              }
+              sort={sort}
+              onSortChange={toggleSort}
+              pagination={{ page, size, totalElements, totalPages, onPageChange: setPage, onSizeChange: setSize }}
+              expandable={{ render: renderHistory }}
+              selection={{ selectedKeys: new Set(selectedTickets.keys()), onChange: handleSelectionChange }}
+              minWidth={1000}
+            />
+          </>
         )}
 
         <ScrollToTop />
 
+        {saveViewOpen && (
+          <SaveViewModal scope="TICKET" query={toSavedViewQuery(searchParams)} onClose={() => setSaveViewOpen(false)} />
+        )}
+
         {/* Assignment Modal with Ticket Table */}
         {assignModal && (
-          <Modal title="Assign Tickets to User" onClose={() => setAssignModal(false)} size="xl">
+          <Modal title="Assign Tickets to User" onClose={closeAssignModal} size="xl">
             <div className="space-y-4">
               {/* Search Bar for Modal Table */}
               <div>
@@ -876,23 +611,43 @@ const ShowTicketPage = () => {
                   className="w-full border rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
                 />
               </div>
-              {/* User Selection */}
+              {/* One user for every ticket, or a rule that picks per ticket */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Select User</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Assign Using</label>
                 <select
-                  value={selectedUser}
-                  onChange={(e) => setSelectedUser(e.target.value)}
+                  value={assignRuleId}
+                  onChange={(e) => setAssignRuleId(e.target.value)}
                   className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="">Select a user</option>
-                  {users.map((user) => (
-                    <option key={user.id} value={user.id}>
-                      {user.name} ({user.email}) - {user.departmentName}
+                  <option value="">A single user</option>
+                  {assignmentRules.map((rule) => (
+                    <option key={rule.id} value={rule.id}>
+                      Rule: {rule.name} ({assignmentStrategyLabel(rule.strategy)})
                     </option>
                   ))}
                 </select>
               </div>
 
+              {/* User Selection */}
+              {!assignmentRule && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Select User</label>
+                  <select
+                    value={selectedUser}
+                    onChange={(e) => setSelectedUser(e.target.value)}
+                    className="w-full border p-2 rounded focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a user</option>
+                    {users.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.name} ({user.email}) - {user.departmentName}
+                        {workload.has(user.id) && ` · ${describeLoad(workload.get(user.id))}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               
 
               {/* Ticket Selection Controls */}
@@ -909,6 +664,7 @@ const ShowTicketPage = () => {
                       else if (value === 'select-50') handleSelectCountInModal(50);
                       else if (value === 'select-100') handleSelectCountInModal(100);
                       else if (value === 'select-200') handleSelectCountInModal(200);
+                      else if (value === 'select-unassigned') handleSelectUnassignedInModal();
                       else if (value === 'select-all') handleSelectAllInModal();
                       else if (value === 'select-none') handleSelectNoneInModal();
                       // Reset dropdown to default
@@ -923,6 +679,7 @@ const ShowTicketPage = () => {
                     <option value="select-50">Select 50</option>
                     <option value="select-100">Select 100</option>
                     <option value="select-200">Select 200</option>
+                    <option value="select-unassigned">Select Unassigned</option>
                     <option value="select-all">Select All</option>
                     <option value="select-none">Select None</option>
                   </select>
@@ -930,90 +687,42 @@ const ShowTicketPage = () => {
               </div>
 
               {/* Tickets Table in Modal */}
-              <div className="max-h-70 overflow-auto border rounded">
-                <table className="w-full border-collapse">
-                  <thead className="bg-gray-100 sticky top-0">
-                    <tr className="text-center">
-                      <th className="p-2 border">
-                        <input
-                          type="checkbox"
-                          checked={selectedTicketsInModal.size === getModalFilteredTickets().length && getModalFilteredTickets().length > 0}
-                          onChange={handleSelectAllInModal}
-                          className="w-4 h-4"
-                        />
-                      </th>
-                      <th className="p-2 border">Ticket ID</th>
-                      <th className="p-2 border">Candidate</th>
-                      <th className="p-2 border">Assigned To</th>
-                      <th className="p-2 border">Status</th>
-                      <th className="p-2 border">Next Follow Up</th>
-                      <th className="p-2 border">Remarks</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {getModalFilteredTickets().length > 0 ? (
-                      getModalFilteredTickets().map((ticket) => (
-                        <tr key={ticket.id} className="text-center hover:bg-gray-50">
-                          <td className="p-2 border">
-                            <input
-                              type="checkbox"
-                              checked={selectedTicketsInModal.has(ticket.id)}
-                              onChange={() => handleSelectTicketInModal(ticket.id)}
-                              className="w-4 h-4"
-                            />
-                          </td>
-                          <td className="p-2 border font-medium">{ticket.ticketId}</td>
-                          <td className="p-2 border">{ticket.candidateName}</td>
-                          <td className="p-2 border">{ticket.assignedTo}</td>
-                          <td className="p-2 border">
-                            <span className={`px-2 py-1 rounded text-xs font-medium ${
-                              ticket.status === 'OPEN' ? 'bg-blue-100 text-blue-800' :
-                              ticket.status === 'INPROGRESS' ? 'bg-yellow-100 text-yellow-800' :
-                              ticket.status === 'PENDING' ? 'bg-orange-100 text-orange-800' :
-                              ticket.status === 'CLOSE' ? 'bg-gray-100 text-gray-800' :
-                              ticket.status === 'COMPLETED' ? 'bg-green-100 text-green-800' :
-                              'bg-gray-100 text-gray-800'
-                            }`}>
-                              {ticket.status}
-                            </span>
-                          </td>
-                          <td className="p-2 border">{ticket.nextFollowUpDate}</td>
-                          <td className="p-2 border">
-                            <div className="truncate max-w-[150px]" title={ticket.remarks}>
-                              {ticket.remarks || 'No remarks'}
-                            </div>
-                          </td>
-                        </tr>
-                      ))
-                    ) : (
-                      <tr>
-                        <td className="p-4 text-center text-gray-500" colSpan={7}>
-                          No tickets found matching your search
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
+              <DataTable
+                columns={modalColumns}
+                data={getModalFilteredTickets()}
+                rowKey={(ticket) => ticket.id!}
+                emptyMessage="No tickets found matching your search"
+                pagination={false}
+                selection={{ selectedKeys: selectedTicketsInModal, onChange: setSelectedTicketsInModal }}
+              />
 
               {/* Summary */}
-              <div className="bg-blue-50 p-3 rounded">
-                <p className="text-sm text-blue-900">
-                  <strong>Summary:</strong> {selectedTicketsInModal.size} ticket(s) selected to be assigned to the selected user
-                </p>
-              </div>
+              {assignmentRule ? (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                    Preview: {assignmentRule.name} would assign {selectedTicketsInModal.size} ticket(s) like this
+                  </h4>
+                  <AssignmentPreview plan={assignmentPlan} />
+                </div>
+              ) : (
+                <div className="bg-blue-50 p-3 rounded">
+                  <p className="text-sm text-blue-900">
+                    <strong>Summary:</strong> {selectedTicketsInModal.size} ticket(s) selected to be assigned to the selected user
+                  </p>
+                </div>
+              )}
             </div>
 
             <div className="mt-6 flex justify-end space-x-2">
               <button
-                onClick={() => setAssignModal(false)}
+                onClick={closeAssignModal}
                 className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400"
               >
                 Cancel
               </button>
               <button
                 onClick={handleAssignTickets}
-                disabled={assignLoading || !selectedUser || selectedTicketsInModal.size === 0}
+                disabled={assignLoading || (!selectedUser && !assignmentRule) || selectedTicketsInModal.size === 0}
                 className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
               >
                 {assignLoading ? "Assigning..." : "Assign Tickets"}
@@ -1023,103 +732,7 @@ const ShowTicketPage = () => {
         )}
 
         {/* Edit Modal */}
-        {editModal && (
-          <Modal title="Add Log History" onClose={() => setEditModal(false)}>
-            <div className="space-y-3">
-              <select
-                value={editForm.status}
-                onChange={(e) => setEditForm({ ...editForm, status: e.target.value })}
-                className="w-full border p-2 rounded"
-              >
-                <option value="">Select Status</option>
-                <option value="OPEN">OPEN</option>
-                <option value="INPROGRESS">INPROGRESS</option>
-                <option value="PENDING">PENDING</option>
-                <option value="CLOSED">CLOSED</option>
-                <option value="COMPLETED">COMPLETED</option>
-              </select>
-
-              <textarea
-                value={editForm.remarks}
-                onChange={(e) => setEditForm({ ...editForm, remarks: e.target.value })}
-                placeholder="Remarks"
-                className="w-full border p-2 rounded"
-                rows={4}
-              />
-
-              <input
-                type="date"
-                value={editForm.nextFollowUpDate}
-                onChange={(e) => setEditForm({ ...editForm, nextFollowUpDate: e.target.value })}
-                className="w-full border p-2 rounded"
-              />
-            </div>
-
-            <div className="mt-4 flex justify-end space-x-2">
-              <button onClick={() => setEditModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
-              <button onClick={handleAddLogHistory} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">Save</button>
-            </div>
-          </Modal>
-        )}
-
-        {/* Delete Modal */}
-        {deleteModal && selectedTicket && (
-          <Modal title="Confirm Delete" onClose={() => setDeleteModal(false)}>
-            <p>Are you sure you want to delete ticket <b>{selectedTicket.ticketId}</b>?</p>
-            <div className="mt-4 flex justify-around">
-              <button onClick={() => setDeleteModal(false)} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">Cancel</button>
-              <button onClick={handleDelete} className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700">Delete</button>
-            </div>
-          </Modal>
-        )}
-      </div>
-    </div>
-  );
-};
-
-// Updated Modal Component - Shifted left and lower
-const Modal = ({ title, children, onClose, size = "md" }: any) => {
-  // Calculate modal width and position based on size
-  const getModalClasses = () => {
-    switch (size) {
-      case 'xl':
-        return 'w-[75vw] max-w-5xl'; // Reduced from max-w-6xl
-      case 'lg':
-        return 'w-[60vw] max-w-3xl'; // Reduced from max-w-2xl  
-      default:
-        return 'w-[40vw] max-w-lg'; // Reduced from max-w-md
-    }
-  };
-
-  return (
-    <div className="fixed inset-0 z-[100]">
-      {/* Backdrop with blur effect */}
-      <div 
-        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
-        onClick={onClose}
-      ></div>
-      
-      {/* Modal Content - Positioned slightly left and lower */}
-      <div className="flex justify-center items-center h-full p-4" style={{ marginLeft: '18vw', marginTop: '1vh' }}>
-        <div className={`relative bg-white rounded-lg shadow-2xl ${getModalClasses()} max-h-[85vh] overflow-y-auto transform transition-all duration-300 ease-out`}>
-          {/* Header */}
-          <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 rounded-t-lg">
-            <div className="flex justify-between items-center">
-              <h2 className="text-lg font-bold text-gray-900">{title}</h2>
-              <button 
-                onClick={onClose} 
-                className="hover:bg-gray-100 rounded-full p-2 transition-colors duration-200"
-              >
-                <X className="w-5 h-5 text-gray-600 hover:text-gray-800" />
-              </button>
-            </div>
-          </div>
-          
-          {/* Content */}
-          <div className="p-6">
-            {children}
-          </div>
-        </div>
+        {editTicket && <TicketLogModal ticket={editTicket} onClose={() => setEditTicket(null)} />}
       </div>
     </div>
   );
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { AlertOctagon } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useBulkOperation } from "../../hooks/useBulkOperation";
+import {
+  useEscalateTicketMutation,
+  useGetSlaBreachesQuery,
+  useGetSlaPoliciesQuery,
+  useLazyGetSlaBreachesQuery,
+} from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import BulkProgressModal from "../../component/BulkProgressModal";
+import { describeBreach, needsEscalation, ticketSla, type TicketSla } from "../../utils/sla";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+// Tickets cross their limits as time passes, so the count is asked for again
+const RECHECK_INTERVAL_MS = 60_000;
+
+interface Breach {
+  ticket: TicketResponse;
+  // The policy the list shows it breaching; missing if none matches here
+  sla?: TicketSla;
+}
+
+// Banner over the ticket list for breaches nobody has escalated yet. The
+// server finds the breaches; the banner only asks how many there are and
+// pulls the tickets themselves when someone escalates. The escalation itself
+// (flag or reassign, and the assign history entry) also happens on the
+// server, one ticket at a time.
+const SlaEscalations = () => {
+  const { data: policies = [], error: policiesError } = useGetSlaPoliciesQuery();
+  // A one-item page is enough for the total, and only once there are policies to check
+  const { data: breachPage, error: breachesError } = useGetSlaBreachesQuery(
+    { page: 1, size: 1, filters: {} },
+    { skip: policies.length === 0, pollingInterval: RECHECK_INTERVAL_MS }
+  );
+  const [fetchBreaches] = useLazyGetSlaBreachesQuery();
+  const [escalateTicket] = useEscalateTicketMutation();
+  const [loading, setLoading] = useState(false);
+  const bulk = useBulkOperation();
+
+  useNotifyError(policiesError, "Failed to fetch SLA policies");
+  useNotifyError(breachesError, "Failed to fetch SLA breaches");
+
+  const breachCount = breachPage?.totalElements ?? 0;
+
+  const escalateAll = async () => {
+    setLoading(true);
+    let breaches: Breach[];
+    try {
+      // The count may be a minute old, so ask again for all of them if more
+      // have breached since
+      let page = await fetchBreaches({ page: 1, size: Math.max(breachCount, 1), filters: {} }).unwrap();
+      if (page.totalElements > page.items.length) {
+        page = await fetchBreaches({ page: 1, size: page.totalElements, filters: {} }).unwrap();
+      }
+      // The server decides what is breached; the policy to escalate by is
+      // the ticket's most pressing one, as the list shows it
+      const now = Date.now();
+      breaches = page.items.map((ticket) => ({ ticket, sla: ticketSla(ticket, policies, now) }));
+    } catch (error) {
+      notifyError(error, "Failed to fetch SLA breaches");
+      return;
+    } finally {
+      setLoading(false);
+    }
+
+    if (breaches.length === 0) {
+      toast.success("No SLA breaches left to escalate");
+      return;
+    }
+
+    await bulk.run({
+      title: "Escalating SLA breaches",
+      items: breaches,
+      key: ({ ticket }) => ticket.id!,
+      label: ({ ticket }) => `${ticket.ticketId} · ${ticket.candidateName || "N/A"}`,
+      check: ({ sla }) => {
+        if (!sla) return "No active SLA policy matches it any more";
+        return sla.policy.escalateToUserId ? null : `${sla.policy.name || "The policy"} has no escalation contact`;
+      },
+      task: ({ ticket, sla }) =>
+        escalateTicket({
+          ticketId: ticket.id,
+          slaPolicyId: sla!.policy.id,
+          action: sla!.policy.escalation || "FLAG",
+          userId: sla!.policy.escalateToUserId,
+          // Our clock may not have caught up with the server's yet
+          reason: needsEscalation(ticket, sla) ? describeBreach(sla!) : `${sla!.policy.name || "SLA"} breached`,
+          inBulk: true,
+        }).unwrap(),
+      errorMessage: "Failed to escalate ticket",
+      invalidates: ["Ticket", "AssignHistory"],
+    });
+  };
+
+  if (breachCount === 0 && bulk.results.length === 0) return null;
+
+  return (
+    <>
+      {breachCount > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex flex-wrap items-center gap-3">
+          <AlertOctagon className="w-5 h-5 text-red-600" />
+          <p className="text-sm text-red-800 flex-1">
+            <strong>{breachCount}</strong> ticket(s) have breached their SLA and haven't been escalated yet.
+          </p>
+          <Can permission="ticket.sla">
+            <button
+              onClick={escalateAll}
+              disabled={loading || bulk.running}
+              className="px-3 py-1.5 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
+            >
+              {loading ? "Loading..." : `Escalate ${breachCount}`}
+            </button>
+          </Can>
+        </div>
+      )}
+      {bulk.results.length > 0 && (
+        <BulkProgressModal title={bulk.title} results={bulk.results} running={bulk.running} onClose={bulk.reset} />
+      )}
+    </>
+  );
+};
+
+export default SlaEscalations;
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import {
+  useAddSlaPolicyMutation,
+  useDeleteSlaPolicyMutation,
+  useGetSlaPoliciesQuery,
+  useGetUsersQuery,
+  useUpdateSlaPolicyMutation,
+} from "../../store/slices/apiSlice";
+import Can from "../../component/Can";
+import DataTable, { type Column } from "../../component/DataTable";
+import Modal from "../../component/Modal";
+import TicketStatusBadge from "../../component/TicketStatusBadge";
+import { confirm } from "../../utils/confirm";
+import { INITIAL_TICKET_STATUSES, TICKET_STATUS_LABELS } from "../../utils/ticketStatus";
+import {
+  SLA_ESCALATIONS,
+  SLA_ESCALATION_LABELS,
+  SLA_METRICS,
+  SLA_METRIC_LABELS,
+  isSlaEscalation,
+  isSlaMetric,
+} from "../../utils/sla";
+import type { SlaPolicyRequest } from "../../api/models/SlaPolicyRequest";
+import type { SlaPolicyResponse } from "../../api/models/SlaPolicyResponse";
+
+const emptyPolicy: SlaPolicyRequest = {
+  name: "",
+  status: "OPEN",
+  metric: "TIME_IN_STATUS",
+  limitHours: 24,
+  warnHours: 4,
+  escalation: "FLAG",
+  escalateToUserId: undefined,
+  active: true,
+};
+
+const metricLabel = (metric?: string) => (isSlaMetric(metric) ? SLA_METRIC_LABELS[metric] : metric || "-");
+const escalationLabel = (escalation?: string) =>
+  isSlaEscalation(escalation) ? SLA_ESCALATION_LABELS[escalation] : escalation || "-";
+
+const PolicyFormModal = ({ policy, onClose }: { policy: SlaPolicyRequest; onClose: () => void }) => {
+  const [form, setForm] = useState(policy);
+  const { data: users = [], error: usersError } = useGetUsersQuery();
+  const [addPolicy, { isLoading: adding }] = useAddSlaPolicyMutation();
+  const [updatePolicy, { isLoading: updating }] = useUpdateSlaPolicyMutation();
+  const saving = adding || updating;
+
+  useNotifyError(usersError, "Failed to fetch users");
+
+  const handleSave = async () => {
+    if (!form.name?.trim()) {
+      toast.error("Policy name is required");
+      return;
+    }
+    if (!form.limitHours || form.limitHours <= 0) {
+      toast.error("The limit must be more than 0 hours");
+      return;
+    }
+    if (!form.escalateToUserId) {
+      toast.error("Pick who breaches are escalated to");
+      return;
+    }
+
+    const body: SlaPolicyRequest = { ...form, name: form.name.trim() };
+    try {
+      if (body.id) await updatePolicy(body).unwrap();
+      else await addPolicy(body).unwrap();
+      toast.success(body.id ? "SLA policy updated" : "SLA policy added");
+      onClose();
+    } catch (error) {
+      notifyError(error, "Failed to save SLA policy");
+    }
+  };
+
+  const hours = (value: string) => (value === "" ? undefined : Number(value));
+
+  return (
+    <Modal title={form.id ? "Edit SLA Policy" : "Add SLA Policy"} onClose={onClose}>
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Name</span>
+          <input
+            type="text"
+            value={form.name ?? ""}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="mt-1 w-full border rounded p-2"
+            placeholder="e.g. Open tickets picked up within a day"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Status</span>
+            <select
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value })}
+              className="mt-1 w-full border rounded p-2"
+            >
+              {INITIAL_TICKET_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {TICKET_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Measure</span>
+            <select
+              value={form.metric}
+              onChange={(e) => setForm({ ...form, metric: e.target.value })}
+              className="mt-1 w-full border rounded p-2"
+            >
+              {SLA_METRICS.map((metric) => (
+                <option key={metric} value={metric}>
+                  {SLA_METRIC_LABELS[metric]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Limit (hours)</span>
+            <input
+              type="number"
+              min={1}
+              value={form.limitHours ?? ""}
+              onChange={(e) => setForm({ ...form, limitHours: hours(e.target.value) })}
+              className="mt-1 w-full border rounded p-2"
+            />
+          </label>
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Warn before (hours)</span>
+            <input
+              type="number"
+              min={0}
+              value={form.warnHours ?? ""}
+              onChange={(e) => setForm({ ...form, warnHours: hours(e.target.value) })}
+              className="mt-1 w-full border rounded p-2"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          {form.metric === "FOLLOW_UP_OVERDUE"
+            ? "Counts from the end of the ticket's follow up day."
+            : "Counts from when the ticket entered the status."}
+        </p>
+
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">On breach</span>
+          <select
+            value={form.escalation}
+            onChange={(e) => setForm({ ...form, escalation: e.target.value })}
+            className="mt-1 w-full border rounded p-2"
+          >
+            {SLA_ESCALATIONS.map((escalation) => (
+              <option key={escalation} value={escalation}>
+                {SLA_ESCALATION_LABELS[escalation]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Escalation contact</span>
+          <select
+            value={form.escalateToUserId ?? ""}
+            onChange={(e) =>
+              setForm({ ...form, escalateToUserId: e.target.value ? Number(e.target.value) : undefined })
+            }
+            className="mt-1 w-full border rounded p-2"
+          >
+            <option value="">Select the department head</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name} ({user.email}) - {user.departmentName}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={form.active !== false}
+            onChange={(e) => setForm({ ...form, active: e.target.checked })}
+          />
+          <span className="text-sm text-gray-700">Active</span>
+        </label>
+      </div>
+
+      <div className="mt-6 flex justify-end space-x-3">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-300 rounded hover:bg-gray-400">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+// How long tickets may sit in a status before they count as breached, and
+// who hears about it
+const SlaPoliciesPage = () => {
+  const { data: policies = [], isLoading: loading, error } = useGetSlaPoliciesQuery();
+  const [deletePolicy] = useDeleteSlaPolicyMutation();
+  const [editing, setEditing] = useState<SlaPolicyRequest | null>(null);
+
+  useNotifyError(error, "Failed to fetch SLA policies");
+
+  const handleDelete = async (policy: SlaPolicyResponse) => {
+    const confirmed = await confirm({
+      title: "Delete SLA Policy",
+      message: <>Are you sure you want to delete <b>{policy.name}</b>?</>,
+      confirmLabel: "Delete",
+      tone: "danger",
+    });
+    if (!confirmed) return;
+
+    try {
+      await deletePolicy(policy.id!).unwrap();
+      toast.success("SLA policy deleted");
+    } catch (error) {
+      notifyError(error, "Failed to delete SLA policy");
+    }
+  };
+
+  const columns: Column<SlaPolicyResponse>[] = [
+    { id: "name", header: "Name", cell: (p) => p.name, sortable: true, sortValue: (p) => p.name },
+    { id: "status", header: "Status", cell: (p) => <TicketStatusBadge status={p.status} />, sortable: true, sortValue: (p) => p.status },
+    { id: "metric", header: "Measure", cell: (p) => metricLabel(p.metric) },
+    { id: "limit", header: "Limit", cell: (p) => `${p.limitHours ?? "-"}h`, sortable: true, sortValue: (p) => p.limitHours },
+    { id: "escalation", header: "On Breach", cell: (p) => escalationLabel(p.escalation) },
+    { id: "contact", header: "Escalates To", cell: (p) => p.escalateToName || "-" },
+    {
+      id: "active",
+      header: "Active",
+      cell: (p) =>
+        p.active !== false ? (
+          <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+        ) : (
+          <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-600">Paused</span>
+        ),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      hideable: false,
+      cell: (p) => (
+        <Can permission="ticket.sla">
+          <div className="flex justify-center space-x-3">
+            <button onClick={() => setEditing(p)} className="text-blue-600 hover:text-blue-900">
+              <i className="fas fa-edit"></i>
+            </button>
+            <button onClick={() => handleDelete(p)} className="text-red-600 hover:text-red-900">
+              <i className="fas fa-trash"></i>
+            </button>
+          </div>
+        </Can>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/ticket/show" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to tickets
+        </Link>
+        <div className="flex justify-between items-center mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">SLA Policies</h1>
+          <Can permission="ticket.sla">
+            <button
+              onClick={() => setEditing(emptyPolicy)}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center"
+            >
+              <i className="fas fa-plus mr-2"></i> Add
+            </button>
+          </Can>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={policies}
+          rowKey={(p) => p.id!}
+          loading={loading}
+          emptyMessage="No SLA policies yet"
+          searchPlaceholder="Search policies..."
+          getSearchText={(p) => `${p.name} ${p.status} ${p.escalateToName ?? ""}`}
+        />
+
+        {editing && <PolicyFormModal policy={editing} onClose={() => setEditing(null)} />}
+      </div>
+    </div>
+  );
+};
+
+export default SlaPoliciesPage;
@@ -0,0 +1,316 @@
+import { useState, type DragEvent } from "react";
+import { Link } from "react-router-dom";
+import { ChevronLeft, ChevronRight, Calendar, User } from "lucide-react";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useDebouncedValue } from "../../hooks/useDebouncedValue";
+import { usePermission } from "../../hooks/usePermission";
+import { useWindowedList } from "../../hooks/useWindowedList";
+import { useGetTicketPageQuery, useGetTicketStatusCountQuery } from "../../store/slices/apiSlice";
+import TicketLogModal from "../../component/TicketLogModal";
+import {
+  TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  nextTicketStatuses,
+  toTicketStatus,
+  type TicketStatus,
+} from "../../utils/ticketStatus";
+import { formatDate } from "../../utils/date";
+import { followUpState } from "../../utils/followUp";
+import { defaultTicketFilters } from "../../utils/ticketFilters";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+// Cards are windowed, so each one takes exactly this much room (gap included)
+const CARD_HEIGHT = 112;
+const BOARD_PAGE_SIZE = 50;
+
+const columnAccent: Record<TicketStatus, string> = {
+  OPEN: "border-blue-500",
+  INPROGRESS: "border-yellow-500",
+  PENDING: "border-orange-500",
+  COMPLETED: "border-green-500",
+  CLOSED: "border-gray-400",
+};
+
+// Unrecognised legacy values count as fresh tickets when working out the
+// moves a card allows, as in the log modal
+const boardStatus = (ticket: TicketResponse): TicketStatus => toTicketStatus(ticket.status) ?? "OPEN";
+
+const TicketCard = ({
+  ticket,
+  onDragStart,
+  onDragEnd,
+}: {
+  ticket: TicketResponse;
+  onDragStart: (ticket: TicketResponse, event: DragEvent) => void;
+  onDragEnd: () => void;
+}) => (
+  <div
+    draggable
+    onDragStart={(event) => onDragStart(ticket, event)}
+    onDragEnd={onDragEnd}
+    className="h-[104px] p-3 bg-white rounded-lg shadow-sm border cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow overflow-hidden"
+  >
+    <div className="flex justify-between items-center gap-2">
+      <Link to={`/home/ticket/${ticket.id}`} className="text-sm font-semibold text-blue-600 hover:underline truncate">
+        {ticket.ticketId}
+      </Link>
+      {ticket.nextFollowUpDate && (
+        <span
+          className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+            followUpState(ticket) === "overdue" ? "text-red-600 font-medium" : "text-gray-500"
+          }`}
+        >
+          <Calendar className="w-3 h-3" /> {formatDate(ticket.nextFollowUpDate)}
+        </span>
+      )}
+    </div>
+    <p className="mt-1 text-gray-900 truncate">{ticket.candidateName || "N/A"}</p>
+    <p className="mt-1 flex items-center gap-1 text-xs text-gray-500 truncate">
+      <User className="w-3 h-3 shrink-0" /> {ticket.assignedTo || "Unassigned"}
+    </p>
+    <p className="mt-1 text-xs text-gray-400 truncate" title={ticket.remarks}>
+      {ticket.remarks || "No remarks"}
+    </p>
+  </div>
+);
+
+const ColumnCards = ({
+  tickets,
+  hasMore,
+  onLoadMore,
+  onDragStart,
+  onDragEnd,
+}: {
+  tickets: TicketResponse[];
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onDragStart: (ticket: TicketResponse, event: DragEvent) => void;
+  onDragEnd: () => void;
+}) => {
+  const { containerRef, onScroll, start, end, offset, totalHeight } = useWindowedList({
+    count: tickets.length,
+    itemHeight: CARD_HEIGHT,
+    onEndReached: hasMore ? onLoadMore : undefined,
+  });
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto px-2 pb-2">
+      {tickets.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">No tickets</p>
+      ) : (
+        <div style={{ height: totalHeight, position: "relative" }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {tickets.slice(start, end).map((ticket) => (
+              <div key={ticket.id} style={{ height: CARD_HEIGHT }} className="pt-2">
+                <TicketCard ticket={ticket} onDragStart={onDragStart} onDragEnd={onDragEnd} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface DropTarget {
+  ticket: TicketResponse;
+  status: TicketStatus;
+}
+
+interface BoardColumnProps {
+  status: TicketStatus;
+  search: string;
+  // From the status-count endpoint; used while no search narrows the column
+  statusCount: number | undefined;
+  collapsed: boolean;
+  hovered: boolean;
+  // Another column is being dragged from and this one won't take the card
+  refusing: boolean;
+  onToggle: () => void;
+  onDragOver: (event: DragEvent) => void;
+  onDragLeave: (event: DragEvent) => void;
+  onDrop: (event: DragEvent) => void;
+  onDragStart: (ticket: TicketResponse, event: DragEvent) => void;
+  onDragEnd: () => void;
+}
+
+// One status column, paged from the server. Later pages are fetched as the
+// column scrolls by asking for a larger first page, so the cached result
+// stays a single list.
+const BoardColumn = ({
+  status,
+  search,
+  statusCount,
+  collapsed,
+  hovered,
+  refusing,
+  onToggle,
+  onDragOver,
+  onDragLeave,
+  onDrop,
+  onDragStart,
+  onDragEnd,
+}: BoardColumnProps) => {
+  const [limit, setLimit] = useState(BOARD_PAGE_SIZE);
+  // A collapsed column only needs its count, which the status counts give
+  // unless a search narrows it
+  const { data, isFetching, error } = useGetTicketPageQuery(
+    { page: 1, size: limit, filters: { ...defaultTicketFilters, status, search } },
+    { skip: collapsed && !search }
+  );
+
+  useNotifyError(error, "Failed to fetch tickets");
+
+  const tickets = data?.items ?? [];
+  const count = search ? data?.totalElements : statusCount;
+  const hasMore = !!data && tickets.length < data.totalElements;
+  const loadMore = () => {
+    if (!isFetching) setLimit(tickets.length + BOARD_PAGE_SIZE);
+  };
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={onToggle}
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        onDrop={onDrop}
+        className={`shrink-0 w-12 flex flex-col items-center gap-3 py-3 rounded-lg border-t-4 ${columnAccent[status]} ${
+          hovered ? "bg-blue-100" : "bg-gray-100 hover:bg-gray-200"
+        }`}
+        title={`Expand ${TICKET_STATUS_LABELS[status]}`}
+      >
+        <ChevronRight className="w-4 h-4 text-gray-500" />
+        <span className="text-xs font-semibold text-gray-700">{count ?? "–"}</span>
+        <span className="text-sm font-semibold text-gray-700 [writing-mode:vertical-rl]">
+          {TICKET_STATUS_LABELS[status]}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <section
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+      className={`shrink-0 w-72 flex flex-col rounded-lg border-t-4 ${columnAccent[status]} transition-colors ${
+        hovered ? "bg-blue-100" : refusing ? "bg-gray-100 opacity-50" : "bg-gray-100"
+      }`}
+    >
+      <header className="flex items-center justify-between px-3 py-2">
+        <h3 className="font-semibold text-gray-800">
+          {TICKET_STATUS_LABELS[status]}
+          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-white text-gray-600">{count ?? "–"}</span>
+        </h3>
+        <button onClick={onToggle} className="p-1 rounded hover:bg-gray-200" title={`Collapse ${TICKET_STATUS_LABELS[status]}`}>
+          <ChevronLeft className="w-4 h-4 text-gray-500" />
+        </button>
+      </header>
+      {!data && isFetching ? (
+        <div className="flex-1 flex justify-center pt-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <ColumnCards
+          tickets={tickets}
+          hasMore={hasMore}
+          onLoadMore={loadMore}
+          onDragStart={onDragStart}
+          onDragEnd={onDragEnd}
+        />
+      )}
+    </section>
+  );
+};
+
+// Tickets as one column per status. Dropping a card on another column opens
+// the log dialog for that move; columns the workflow doesn't allow refuse the
+// drop.
+const TicketBoard = ({ search }: { search: string }) => {
+  const { data: statusCounts, error } = useGetTicketStatusCountQuery();
+  const canReopen = usePermission("ticket.reopen");
+  const [collapsed, setCollapsed] = useState<Set<TicketStatus>>(new Set());
+  const [dragging, setDragging] = useState<TicketResponse | null>(null);
+  const [hovered, setHovered] = useState<TicketStatus | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const debouncedSearch = useDebouncedValue(search.trim(), 300);
+
+  useNotifyError(error, "Failed to fetch ticket status count");
+
+  const canDropOn = (status: TicketStatus) =>
+    !!dragging &&
+    status !== boardStatus(dragging) &&
+    nextTicketStatuses(dragging.status, { canReopen }).includes(status);
+
+  const toggleColumn = (status: TicketStatus) =>
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (next.has(status)) next.delete(status);
+      else next.add(status);
+      return next;
+    });
+
+  const handleDragStart = (ticket: TicketResponse, event: DragEvent) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", String(ticket.id));
+    setDragging(ticket);
+  };
+
+  const handleDragEnd = () => {
+    setDragging(null);
+    setHovered(null);
+  };
+
+  const handleDragOver = (status: TicketStatus, event: DragEvent) => {
+    if (!canDropOn(status)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setHovered(status);
+  };
+
+  // dragleave also fires when moving onto a card inside the column
+  const handleDragLeave = (event: DragEvent) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setHovered(null);
+  };
+
+  const handleDrop = (status: TicketStatus, event: DragEvent) => {
+    event.preventDefault();
+    if (dragging && canDropOn(status)) setDropTarget({ ticket: dragging, status });
+    handleDragEnd();
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-2 h-[70vh]">
+        {TICKET_STATUSES.map((status) => (
+          <BoardColumn
+            key={status}
+            status={status}
+            search={debouncedSearch}
+            statusCount={statusCounts?.[status]}
+            collapsed={collapsed.has(status)}
+            hovered={hovered === status}
+            refusing={!!dragging && !canDropOn(status) && status !== boardStatus(dragging)}
+            onToggle={() => toggleColumn(status)}
+            onDragOver={(event) => handleDragOver(status, event)}
+            onDragLeave={handleDragLeave}
+            onDrop={(event) => handleDrop(status, event)}
+            onDragStart={handleDragStart}
+            onDragEnd={handleDragEnd}
+          />
+        ))}
+      </div>
+
+      {dropTarget && (
+        <TicketLogModal
+          ticket={dropTarget.ticket}
+          initialStatus={dropTarget.status}
+          onClose={() => setDropTarget(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default TicketBoard;
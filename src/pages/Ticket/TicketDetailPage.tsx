@@ -0,0 +1,136 @@
+import { useState, type ReactNode } from "react";
+import { Link, useParams } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { ArrowLeft, Calendar, ClipboardList, Link2, Timer, User, Users } from "lucide-react";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useNow } from "../../hooks/useNow";
+import { useGetSlaPoliciesQuery, useGetTicketQuery } from "../../store/slices/apiSlice";
+import { AppError } from "../../api/AppError";
+import TicketStatusBadge from "../../component/TicketStatusBadge";
+import TicketTimeline from "../../component/TicketTimeline";
+import TicketComments from "../../component/TicketComments";
+import TicketLogModal from "../../component/TicketLogModal";
+import SlaBadge from "../../component/SlaBadge";
+import { formatDate } from "../../utils/date";
+import { ticketSla } from "../../utils/sla";
+
+const Detail = ({ icon, label, children }: { icon: ReactNode; label: string; children: ReactNode }) => (
+  <div>
+    <dt className="flex items-center text-sm font-medium text-gray-500">
+      {icon} {label}
+    </dt>
+    <dd className="mt-1 text-gray-900">{children}</dd>
+  </div>
+);
+
+// Everything about one ticket on a page of its own, so it can be linked to
+const TicketDetailPage = () => {
+  const { id } = useParams();
+  const ticketId = Number(id);
+  const validId = Number.isInteger(ticketId) && ticketId > 0;
+
+  const { data: ticket, isLoading, error } = useGetTicketQuery(ticketId, { skip: !validId });
+  const { data: slaPolicies = [] } = useGetSlaPoliciesQuery();
+  const now = useNow();
+  const [logModal, setLogModal] = useState(false);
+  const notFound = !validId || (!!error && AppError.from(error).status === 404);
+
+  useNotifyError(notFound ? undefined : error, "Failed to fetch ticket");
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const backLink = (
+    <Link to="/home/ticket/show" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+      <ArrowLeft className="w-4 h-4" /> All tickets
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (notFound || !ticket) {
+    return (
+      <div className="p-4 min-h-screen bg-gray-50">
+        {backLink}
+        <div className="mt-6 bg-white rounded-lg shadow p-10 text-center text-gray-600">
+          {notFound ? "This ticket doesn't exist or has been deleted." : "The ticket couldn't be loaded."}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 min-h-screen bg-gray-50">
+      {backLink}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl font-bold">Ticket {ticket.ticketId}</h1>
+          <TicketStatusBadge status={ticket.status} />
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={copyLink}
+            className="flex items-center gap-2 px-4 py-2 border rounded bg-white hover:bg-gray-50"
+          >
+            <Link2 className="w-4 h-4" /> Copy link
+          </button>
+          <button
+            onClick={() => setLogModal(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Add Log
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <dl className="bg-white rounded-lg shadow p-6 space-y-5 h-fit">
+          <Detail icon={<User className="w-4 h-4 mr-2 text-blue-600" />} label="Candidate">
+            {ticket.candidateName || "N/A"}
+          </Detail>
+          <Detail icon={<Users className="w-4 h-4 mr-2 text-blue-600" />} label="Assigned To">
+            {ticket.assignedTo || "Unassigned"}
+          </Detail>
+          <Detail icon={<Calendar className="w-4 h-4 mr-2 text-blue-600" />} label="Next Follow Up">
+            {ticket.nextFollowUpDate ? formatDate(ticket.nextFollowUpDate) : "Not scheduled"}
+          </Detail>
+          <Detail icon={<Timer className="w-4 h-4 mr-2 text-blue-600" />} label="SLA">
+            <SlaBadge ticket={ticket} sla={ticketSla(ticket, slaPolicies, now)} />
+          </Detail>
+          <Detail icon={<ClipboardList className="w-4 h-4 mr-2 text-blue-600" />} label="Latest Remarks">
+            <span className="whitespace-pre-line">{ticket.remarks || "No remarks"}</span>
+          </Detail>
+        </dl>
+
+        <div className="lg:col-span-2 space-y-6">
+          <section className="bg-white rounded-lg shadow p-6">
+            <h2 className="font-semibold text-gray-800 mb-4">Comments</h2>
+            <TicketComments ticketId={ticketId} />
+          </section>
+
+          <section className="bg-white rounded-lg shadow p-6">
+            <h2 className="font-semibold text-gray-800 mb-4">Activity</h2>
+            <TicketTimeline ticketId={ticketId} />
+          </section>
+        </div>
+      </div>
+
+      {logModal && <TicketLogModal ticket={ticket} onClose={() => setLogModal(false)} />}
+    </div>
+  );
+};
+
+export default TicketDetailPage;
@@ -0,0 +1,104 @@
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { useGetUsersQuery, type TicketPageFilters } from "../../store/slices/apiSlice";
+import {
+  ASSIGNEE_ME,
+  FOLLOW_UP_PRESETS,
+  followUpPresetFilters,
+  isFollowUpPresetActive,
+  resolveDateFilter,
+} from "../../utils/ticketFilters";
+
+type DateKey = "followUpFrom" | "followUpTo" | "createdFrom" | "createdTo";
+
+// The filters beyond search and status. Every change goes straight to the URL.
+const TicketFilterPanel = ({
+  filters,
+  onChange,
+}: {
+  filters: TicketPageFilters;
+  onChange: (changes: Partial<TicketPageFilters>) => void;
+}) => {
+  const { data: users = [], error: usersError } = useGetUsersQuery();
+
+  useNotifyError(usersError, "Failed to fetch users");
+
+  // Relative dates from a preset or saved view show as the day they stand for;
+  // picking a day replaces them with that fixed date
+  const dateInput = (key: DateKey, label: string) => (
+    <label className="block">
+      <span className="text-xs font-medium text-gray-600">{label}</span>
+      <input
+        type="date"
+        value={resolveDateFilter(filters[key])}
+        onChange={(e) => onChange({ [key]: e.target.value })}
+        className="mt-1 w-full border rounded p-2 text-sm"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-white border rounded-lg shadow-sm grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Assigned To</span>
+        <select
+          value={filters.assignedTo}
+          onChange={(e) => onChange({ assignedTo: e.target.value })}
+          className="mt-1 w-full border rounded p-2 text-sm"
+        >
+          <option value="">Anyone</option>
+          <option value={ASSIGNEE_ME}>Me</option>
+          {users.map((user) => (
+            <option key={user.id} value={user.name}>
+              {user.name}
+            </option>
+          ))}
+          {/* A link can name someone who isn't in the list (any more) */}
+          {filters.assignedTo && filters.assignedTo !== ASSIGNEE_ME && !users.some((u) => u.name === filters.assignedTo) && (
+            <option value={filters.assignedTo}>{filters.assignedTo}</option>
+          )}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Candidate</span>
+        <input
+          type="text"
+          value={filters.candidate}
+          onChange={(e) => onChange({ candidate: e.target.value })}
+          placeholder="Candidate name"
+          className="mt-1 w-full border rounded p-2 text-sm"
+        />
+      </label>
+
+      <div>
+        <div className="grid grid-cols-2 gap-2">
+          {dateInput("followUpFrom", "Follow up from")}
+          {dateInput("followUpTo", "Follow up to")}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-1">
+          {FOLLOW_UP_PRESETS.map((preset) => {
+            const active = isFollowUpPresetActive(filters, preset);
+            return (
+              <button
+                key={preset.label}
+                onClick={() => onChange(followUpPresetFilters(preset))}
+                className={`px-2 py-0.5 text-xs rounded-full border ${
+                  active ? "bg-blue-600 text-white border-blue-600" : "hover:bg-gray-50"
+                }`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 content-start">
+        {dateInput("createdFrom", "Created from")}
+        {dateInput("createdTo", "Created to")}
+      </div>
+    </div>
+  );
+};
+
+export default TicketFilterPanel;
@@ -0,0 +1,324 @@
+import { useMemo, useState, type DragEvent } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "react-hot-toast";
+import { Calendar } from "lucide-react";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import { usePermission } from "../../hooks/usePermission";
+import { useWindowedList } from "../../hooks/useWindowedList";
+import {
+  useAssignTicketsMutation,
+  useGetTicketCountByUserQuery,
+  useGetTicketPageQuery,
+  useGetUsersQuery,
+} from "../../store/slices/apiSlice";
+import DataTable, { type Column } from "../../component/DataTable";
+import TicketStatusBadge from "../../component/TicketStatusBadge";
+import { confirm } from "../../utils/confirm";
+import { formatDate } from "../../utils/date";
+import { followUpState } from "../../utils/followUp";
+import { defaultTicketFilters } from "../../utils/ticketFilters";
+import { INITIAL_TICKET_STATUSES, OPEN_STATUS_FILTER, TICKET_STATUS_LABELS } from "../../utils/ticketStatus";
+import { THROUGHPUT_DAYS, buildWorkload, throughputSince, type UserWorkload } from "../../utils/workload";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+
+// Lane cards are windowed, so each one takes exactly this much room (gap included)
+const CARD_HEIGHT = 84;
+const LANE_PAGE_SIZE = 50;
+
+const workloadKey = ({ user }: UserWorkload) => user?.id ?? "unassigned";
+const workloadName = ({ user }: UserWorkload) => user?.name ?? "Unassigned";
+
+// One user's open tickets, oldest follow up first, paged from the server as
+// the lane scrolls
+const LaneCards = ({
+  assignee,
+  draggable,
+  onDragStart,
+  onDragEnd,
+}: {
+  assignee: string;
+  draggable: boolean;
+  onDragStart: (ticket: TicketResponse, event: DragEvent) => void;
+  onDragEnd: () => void;
+}) => {
+  const [limit, setLimit] = useState(LANE_PAGE_SIZE);
+  const { data, isFetching, error } = useGetTicketPageQuery({
+    page: 1,
+    size: limit,
+    sort: { field: "nextFollowUpDate", direction: "asc" },
+    filters: { ...defaultTicketFilters, status: OPEN_STATUS_FILTER, assignedTo: assignee },
+  });
+  const tickets = data?.items ?? [];
+  const hasMore = !!data && tickets.length < data.totalElements;
+  const { containerRef, onScroll, start, end, offset, totalHeight } = useWindowedList({
+    count: tickets.length,
+    itemHeight: CARD_HEIGHT,
+    onEndReached: hasMore && !isFetching ? () => setLimit(tickets.length + LANE_PAGE_SIZE) : undefined,
+  });
+
+  useNotifyError(error, "Failed to fetch tickets");
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto px-2 pb-2">
+      {tickets.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-6">No open tickets</p>
+      ) : (
+        <div style={{ height: totalHeight, position: "relative" }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {tickets.slice(start, end).map((ticket) => {
+              // Assignment goes by candidate, so a ticket without one can't move
+              const movable = draggable && ticket.candidateId != null;
+              return (
+                <div key={ticket.id} style={{ height: CARD_HEIGHT }} className="pt-2">
+                  <div
+                    draggable={movable}
+                    onDragStart={(event) => onDragStart(ticket, event)}
+                    onDragEnd={onDragEnd}
+                    title={draggable && !movable ? "No candidate on this ticket to re-assign" : undefined}
+                    className={`h-[76px] p-2 bg-white rounded-lg shadow-sm border overflow-hidden ${
+                      movable ? "cursor-grab active:cursor-grabbing" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <Link
+                        to={`/home/ticket/${ticket.id}`}
+                        className="text-sm font-semibold text-blue-600 hover:underline truncate"
+                      >
+                        {ticket.ticketId}
+                      </Link>
+                      <TicketStatusBadge status={ticket.status} />
+                    </div>
+                    <p className="mt-1 text-sm text-gray-900 truncate">{ticket.candidateName || "N/A"}</p>
+                    {ticket.nextFollowUpDate && (
+                      <p
+                        className={`flex items-center gap-1 text-xs ${
+                          followUpState(ticket) === "overdue" ? "text-red-600 font-medium" : "text-gray-500"
+                        }`}
+                      >
+                        <Calendar className="w-3 h-3" /> {formatDate(ticket.nextFollowUpDate)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface Dragging {
+  ticket: TicketResponse;
+  from: UserWorkload;
+}
+
+// Open, overdue and recently finished tickets per user, and lanes of each
+// user's open tickets. Admins can drag a ticket to another lane to re-assign it.
+const WorkloadPage = () => {
+  const { data: users = [], isLoading: usersLoading, error: usersError } = useGetUsersQuery();
+  const {
+    data: counts = [],
+    isLoading: countsLoading,
+    error: countsError,
+  } = useGetTicketCountByUserQuery(throughputSince());
+  const [assignTickets] = useAssignTicketsMutation();
+  const canRebalance = usePermission("ticket.rebalance");
+  const [department, setDepartment] = useState("");
+  const [dragging, setDragging] = useState<Dragging | null>(null);
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  useNotifyError(usersError, "Failed to fetch users");
+  useNotifyError(countsError, "Failed to fetch ticket counts");
+
+  const departments = useMemo(
+    () => [...new Set(users.map((user) => user.departmentName).filter((name): name is string => !!name))].sort(),
+    [users]
+  );
+
+  const workload = useMemo(() => buildWorkload(users, counts), [users, counts]);
+  const shown = department ? workload.filter(({ user }) => user?.departmentName === department) : workload;
+  const maxOpen = Math.max(1, ...shown.map(({ open }) => open));
+
+  const handleDragStart = (from: UserWorkload, ticket: TicketResponse, event: DragEvent) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", String(ticket.id));
+    setDragging({ ticket, from });
+  };
+
+  const handleDragEnd = () => {
+    setDragging(null);
+    setHovered(null);
+  };
+
+  // Only real users can receive tickets
+  const canDropOn = (target: UserWorkload) => !!dragging && !!target.user && target.user !== dragging.from.user;
+
+  const handleDrop = async (target: UserWorkload, event: DragEvent) => {
+    event.preventDefault();
+    const drag = dragging;
+    handleDragEnd();
+    const candidateId = drag?.ticket.candidateId;
+    if (!drag || !target.user || !canDropOn(target) || candidateId == null) return;
+
+    const confirmed = await confirm({
+      title: "Re-assign Ticket",
+      message: (
+        <>
+          Move <b>{drag.ticket.ticketId}</b> from {workloadName(drag.from)} to <b>{target.user.name}</b>?
+        </>
+      ),
+      confirmLabel: "Re-assign",
+    });
+    if (!confirmed) return;
+
+    try {
+      await assignTickets({ userId: target.user.id, candidateIds: [candidateId] }).unwrap();
+      toast.success(`${drag.ticket.ticketId} re-assigned to ${target.user.name}`);
+    } catch (error) {
+      notifyError(error, "Failed to assign tickets");
+    }
+  };
+
+  const columns: Column<UserWorkload>[] = [
+    {
+      id: "user",
+      header: "User",
+      cell: (w) => (
+        <div>
+          <p className="font-medium text-gray-900">{workloadName(w)}</p>
+          {w.user && <p className="text-xs text-gray-500">{w.user.email}</p>}
+        </div>
+      ),
+      sortable: true,
+      sortValue: workloadName,
+    },
+    {
+      id: "department",
+      header: "Department",
+      cell: (w) => w.user?.departmentName ?? "-",
+      sortable: true,
+      sortValue: (w) => w.user?.departmentName,
+    },
+    {
+      id: "open",
+      header: "Open",
+      cell: (w) => (
+        <div className="flex items-center gap-2 min-w-[120px]">
+          <div className="flex-1 h-2 rounded-full bg-gray-200 overflow-hidden">
+            <div className="h-full bg-blue-600" style={{ width: `${(w.open / maxOpen) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right font-medium">{w.open}</span>
+        </div>
+      ),
+      sortable: true,
+      sortValue: (w) => w.open,
+    },
+    ...INITIAL_TICKET_STATUSES.map(
+      (status): Column<UserWorkload> => ({
+        id: status,
+        header: TICKET_STATUS_LABELS[status],
+        cell: (w) => w.byStatus[status],
+        sortable: true,
+        sortValue: (w) => w.byStatus[status],
+      })
+    ),
+    {
+      id: "overdue",
+      header: "Overdue",
+      cell: (w) => <span className={w.overdue ? "text-red-600 font-semibold" : "text-gray-500"}>{w.overdue}</span>,
+      sortable: true,
+      sortValue: (w) => w.overdue,
+    },
+    {
+      id: "finished",
+      header: `Done (${THROUGHPUT_DAYS}d)`,
+      cell: (w) => w.finishedRecently,
+      sortable: true,
+      sortValue: (w) => w.finishedRecently,
+    },
+  ];
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <Link to="/home/ticket/show" className="text-sm text-blue-600 hover:underline">
+          &larr; Back to tickets
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-4 mt-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">Team Workload</h1>
+          <select
+            value={department}
+            onChange={(e) => setDepartment(e.target.value)}
+            className="border rounded-lg px-3 py-2 bg-white"
+          >
+            <option value="">All departments</option>
+            {departments.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <DataTable
+          columns={columns}
+          data={shown}
+          rowKey={workloadKey}
+          loading={usersLoading || countsLoading}
+          emptyMessage="No users found"
+          pagination={false}
+        />
+
+        <h2 className="mt-8 mb-1 text-lg font-semibold text-gray-800">Rebalance</h2>
+        <p className="mb-3 text-sm text-gray-500">
+          {canRebalance
+            ? "Drag a ticket onto another user to re-assign it."
+            : "Open tickets per user. Only admins can rebalance them."}
+        </p>
+        <div className="flex gap-4 overflow-x-auto pb-2 h-[60vh]">
+          {shown.map((w) => {
+            // Tickets that match no user have no assignee to list them by
+            if (!w.user) return null;
+            const key = w.user.id ?? -1;
+            return (
+              <section
+                key={workloadKey(w)}
+                onDragOver={(event) => {
+                  if (!canDropOn(w)) return;
+                  event.preventDefault();
+                  event.dataTransfer.dropEffect = "move";
+                  setHovered(key);
+                }}
+                onDragLeave={(event) => {
+                  if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setHovered(null);
+                }}
+                onDrop={(event) => handleDrop(w, event)}
+                className={`shrink-0 w-64 flex flex-col rounded-lg transition-colors ${
+                  hovered === key ? "bg-blue-100" : dragging && !canDropOn(w) ? "bg-gray-100 opacity-60" : "bg-gray-100"
+                }`}
+              >
+                <header className="px-3 py-2">
+                  <h3 className="font-semibold text-gray-800 truncate">{workloadName(w)}</h3>
+                  <p className="text-xs text-gray-500">
+                    {w.open} open{w.overdue > 0 && <span className="text-red-600"> · {w.overdue} overdue</span>}
+                  </p>
+                </header>
+                <LaneCards
+                  assignee={w.user.email || w.user.name || ""}
+                  draggable={canRebalance}
+                  onDragStart={(ticket, event) => handleDragStart(w, ticket, event)}
+                  onDragEnd={handleDragEnd}
+                />
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkloadPage;
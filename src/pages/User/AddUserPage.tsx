@@ -1,7 +1,15 @@
-import  { useEffect, useState } from "react";
-import axios from "axios";
+import  { useState } from "react";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useNotifyError } from "../../hooks/useNotifyError";
+import {
+  useAddUserMutation,
+  useGetCompaniesQuery,
+  useGetDepartmentsQuery,
+  useGetMenusWithSubmenusQuery,
+  useGetRolesQuery,
+  useLazyGetSubMenusByMenuQuery,
+} from "../../store/slices/apiSlice";
 import { UserPlus } from "lucide-react";
 
 interface Company {
@@ -34,10 +42,21 @@ const AddUserPage = () => {
   const [password, setPassword] = useState("");
 
   // dropdown data
-  const [companies, setCompanies] = useState<Company[]>([]);
-  const [departments, setDepartments] = useState<Department[]>([]);
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [menus, setMenus] = useState<Menu[]>([]);
+  const { data: companyData, error: companyError } = useGetCompaniesQuery();
+  const { data: departmentData, error: departmentError } = useGetDepartmentsQuery();
+  const { data: roleData, error: roleError } = useGetRolesQuery();
+  const { data: menuData, error: menuError } = useGetMenusWithSubmenusQuery();
+  const [fetchSubMenusByMenu] = useLazyGetSubMenusByMenuQuery();
+  const [addUser] = useAddUserMutation();
+  // Submenus fetched on demand for menus that came back without them
+  const [loadedSubmenus, setLoadedSubmenus] = useState<Record<number, SubMenu[]>>({});
+
+  const companies = (companyData ?? []) as Company[];
+  const departments = (departmentData ?? []) as Department[];
+  const roles = (roleData ?? []) as Role[];
+  const menus = ((menuData ?? []) as Menu[]).map((menu) =>
+    loadedSubmenus[menu.id] ? { ...menu, submenulist: loadedSubmenus[menu.id] } : menu
+  );
 
   // selected values
   const [companyId, setCompanyId] = useState<number | "">("");
@@ -47,94 +66,21 @@ const AddUserPage = () => {
 
   const [loading, setLoading] = useState(false);
 
-  // fetch companies
-  const fetchCompanies = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/company/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1 || res.data.code === 200) {
-        setCompanies(res.data.data || []);
-      }
-    } catch {
-      toast.error("Failed to fetch companies");
-    }
-  };
-
-  // fetch departments
-  const fetchDepartments = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/department/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1 || res.data.code === 200) {
-        setDepartments(res.data.data || []);
-      }
-    } catch {
-      toast.error("Failed to fetch departments");
-    }
-  };
-
-  // fetch roles
-  const fetchRoles = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/role/get-all`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1 || res.data.code === 200) {
-        setRoles(res.data.data || []);
-      }
-    } catch {
-      toast.error("Failed to fetch roles");
-    }
-  };
-
-  // fetch menus
-  const fetchMenus = async () => {
-    try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(`${API_BASE}/menu/get-all-menus-with-submenus`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      if (res.data.code === 1 || res.data.code === 200) {
-        setMenus(res.data.data || []);
-      }
-    } catch {
-      toast.error("Failed to fetch menus");
-    }
-  };
+  useNotifyError(companyError, "Failed to fetch companies");
+  useNotifyError(departmentError, "Failed to fetch departments");
+  useNotifyError(roleError, "Failed to fetch roles");
+  useNotifyError(menuError, "Failed to fetch menus");
 
   // fetch submenus dynamically
   const fetchSubMenus = async (menuId: number) => {
     try {
-      const token = sessionStorage.getItem("token");
-      const res = await axios.get(
-        `${API_BASE}/sub-menu/get-subMenu-by-menu?menuId=${menuId}`,
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
-
-      if (res.data.code === 1 || res.data.code === 200) {
-        setMenus((prev) =>
-          prev.map((menu) =>
-            menu.id === menuId ? { ...menu, submenulist: res.data.data } : menu
-          )
-        );
-      }
-    } catch {
-      toast.error("Failed to fetch submenus");
+      const data = await fetchSubMenusByMenu(menuId, true).unwrap();
+      setLoadedSubmenus((prev) => ({ ...prev, [menuId]: data as SubMenu[] }));
+    } catch (error) {
+      notifyError(error, "Failed to fetch submenus");
     }
   };
 
-  useEffect(() => {
-    fetchCompanies();
-    fetchDepartments();
-    fetchRoles();
-    fetchMenus();
-  }, []);
-
   // handle menu + submenu selection
   const handleMenuToggle = (menuId: number) => {
     setSelectedMenus((prev) => {
@@ -180,32 +126,24 @@ const AddUserPage = () => {
       password,
       departmentId,
       companyId,
-      roleId,
+      roleId: roleId || undefined,
       menuList,
     };
 
     try {
       setLoading(true);
-      const token = sessionStorage.getItem("token");
-      const res = await axios.post(`${API_BASE}/auth/signup`, body, {
-        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
-      });
-
-      if (res.data.code === 1 || res.data.code === 200) {
-        toast.success("User added successfully!");
-        setName("");
-        setEmail("");
-        setPhone("");
-        setPassword("");
-        setCompanyId("");
-        setDepartmentId("");
-        setRoleId("");
-        setSelectedMenus({});
-      } else {
-        toast.error(res.data.message || "Failed to add user");
-      }
-    } catch {
-      toast.error("Failed to add user");
+      await addUser(body).unwrap();
+      toast.success("User added successfully!");
+      setName("");
+      setEmail("");
+      setPhone("");
+      setPassword("");
+      setCompanyId("");
+      setDepartmentId("");
+      setRoleId("");
+      setSelectedMenus({});
+    } catch (error) {
+      notifyError(error, "Failed to add user");
     } finally {
       setLoading(false);
     }
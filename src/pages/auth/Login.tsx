@@ -1,8 +1,12 @@
 import { useState } from "react";
-import axios from "axios";
 import { toast } from "react-hot-toast";
 import { useNavigate } from "react-router-dom";
 import { Eye, EyeOff, Lock, Mail, Loader2, Shield } from "lucide-react";
+import { useAppDispatch } from "../../store/hooks";
+import { login } from "../../store/slices/authSlice";
+import { AuthControllerService } from "../../api/generated/services/AuthControllerService";
+import { unwrap } from "../../api/request";
+import { notifyError } from "../../utils/notify";
 
 const Login = () => {
   const [email, setEmail] = useState("");
@@ -12,6 +16,7 @@ const Login = () => {
   const [showPassword, setShowPassword] = useState(false);
 
   const navigate = useNavigate();
+  const dispatch = useAppDispatch();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -23,20 +28,12 @@ const Login = () => {
 
     setLoading(true);
     try {
-      const response = await axios.post(
-        `${import.meta.env.VITE_API_BASE}/auth/login`,
-        { email, password }
-      );
-
-      const apiResponseData = response?.data?.data; 
+      const apiResponseData = await unwrap(AuthControllerService.login({ email, password }), "Login failed");
       const tokenWithBearer = apiResponseData?.token;
 
       if (tokenWithBearer && apiResponseData) {
-        const rawToken = tokenWithBearer.replace(/^Bearer\s+/i, "");
-
         // Save token + user
-        sessionStorage.setItem("token", rawToken);
-        sessionStorage.setItem("user", JSON.stringify(apiResponseData));
+        dispatch(login(tokenWithBearer, apiResponseData));
 
         console.log("Login successful, user data:", apiResponseData);
 
@@ -50,9 +47,8 @@ const Login = () => {
       } else {
         toast.error("Invalid login credentials - No token received");
       }
-    } catch (error: any) {
-      console.error("Login failed:", error);
-      toast.error(error?.response?.data?.message || "Login failed");
+    } catch (error) {
+      notifyError(error, "Login failed");
     } finally {
       setLoading(false);
     }
@@ -1,7 +1,7 @@
 import  { useState } from "react";
-import axios from "axios";
 import { toast } from "react-hot-toast";
-import { API_BASE } from "../../utils/api";
+import { notifyError } from "../../utils/notify";
+import { useAddMenuMutation } from "../../store/slices/apiSlice";
 
 interface MenuFormData {
   name: string;
@@ -15,6 +15,7 @@ const AddMenuPage = () => {
     url: "",
     image: "",
   });
+  const [addMenu] = useAddMenuMutation();
   const [loading, setLoading] = useState(false);
 
   const iconOptions = [
@@ -48,30 +49,11 @@ const AddMenuPage = () => {
 
     setLoading(true);
     try {
-      const token = sessionStorage.getItem("token");
-      const response = await axios.post(
-        `${API_BASE}/menu/add`,
-        {
-          id: 0,
-          ...formData,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-
-      if (response.data.code === 1) {
-        toast.success(response.data.message || "Menu added successfully!");
-        resetForm();
-      } else {
-        toast.error(response.data.message || "Failed to add menu");
-      }
-    } catch (error: any) {
-      console.error("Add menu failed:", error);
-      toast.error(error?.response?.data?.message || "Failed to add menu");
+      const { message } = await addMenu({ id: 0, ...formData }).unwrap();
+      toast.success(message || "Menu added successfully!");
+      resetForm();
+    } catch (error) {
+      notifyError(error, "Failed to add menu");
     } finally {
       setLoading(false);
     }
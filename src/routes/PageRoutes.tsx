@@ -1,9 +1,13 @@
 import  { type JSX } from "react";
-import { Routes, Route, Navigate } from "react-router-dom";
+import { Routes, Route, Navigate, Outlet, useLocation } from "react-router-dom";
 import Login from "../pages/auth/Login";
 import Dashboard from "../pages/Dashboard/dashboard";
 import DashboardHome from "../pages/Dashboard/DashboardHome";
-import { setAuthToken } from "../api/apiClient";
+import { useAppSelector } from "../store/hooks";
+import { useSessionExpiry } from "../hooks/useSessionExpiry";
+import SessionExpiredModal from "../component/SessionExpiredModal";
+import { useMenuAccess } from "../hooks/useMenuAccess";
+import ForbiddenPage from "../pages/Error/ForbiddenPage";
 import AddMenuPage from "../pages/menu/AddMenuPage";
 import ShowMenuPage from "../pages/menu/ShowMenuPage";
 import AddSubMenuPage from "../pages/SubMenu/AddSubMenuPage";
@@ -18,21 +22,52 @@ import AddUserPage from "../pages/User/AddUserPage";
 import ShowUserPage from "../pages/User/ShowUserPage";
 import AddCandidatePage from "../pages/Candidate/AddCandidatePage";
 import ShowCandidatePage from "../pages/Candidate/ShowCandidatePage";
+import PipelineSettingsPage from "../pages/Candidate/PipelineSettingsPage";
+import DuplicateCandidatesPage from "../pages/Candidate/DuplicateCandidatesPage";
+import ImportCandidatesPage from "../pages/Candidate/ImportCandidatesPage";
 import AddTicketPage from "../pages/Ticket/AddTicketPage";
 import ShowTicketPage from "../pages/Ticket/ShowTicketPage";
+import TicketDetailPage from "../pages/Ticket/TicketDetailPage";
+import AssignmentRulesPage from "../pages/Ticket/AssignmentRulesPage";
+import SlaPoliciesPage from "../pages/Ticket/SlaPoliciesPage";
+import WorkloadPage from "../pages/Ticket/WorkloadPage";
 
 // ProtectedRoute wrapper
 const ProtectedRoute: React.FC<{ children: JSX.Element }> = ({ children }) => {
-  const token = sessionStorage.getItem("token");
+  const token = useAppSelector((state) => state.auth.token);
+  useSessionExpiry();
 
   if (!token) {
     return <Navigate to="/" replace />;
   }
 
-  
-  setAuthToken(token);
+  // An expired token keeps the page mounted behind the re-login prompt
+  return (
+    <>
+      {children}
+      <SessionExpiredModal />
+    </>
+  );
+};
+
+// Only lets through the /home pages granted by the user's menulist
+const MenuRoute: React.FC = () => {
+  const location = useLocation();
+  const { canAccess, ready } = useMenuAccess();
+
+  if (!ready) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!canAccess(location.pathname)) {
+    return <ForbiddenPage />;
+  }
 
-  return children;
+  return <Outlet />;
 };
 
 const PageRoutes: React.FC = () => {
@@ -52,39 +87,49 @@ const PageRoutes: React.FC = () => {
       >
         {/* Default dashboard home */}
         <Route index element={<DashboardHome />} />
-        
-        {/* Menu routes */}
-        <Route path="menu-list/add" element={<AddMenuPage />} />
-        <Route path="menu-list/show" element={<ShowMenuPage />} />
-        
-        {/* Sub Menu routes (placeholder for now) */}
-        <Route path="sub-menu-list/add" element={<AddSubMenuPage />} />
-        <Route path="sub-menu-list/show" element={<ShowSubMenuPage />} />
-        
-        {/* User routes (placeholder for now) */}
-        <Route path="user/add" element={<AddUserPage />} />
-        <Route path="user/show" element={<ShowUserPage />} />
-        
-        {/* Company routes (placeholder for now) */}
-        <Route path="company/add" element={<AddCompanyPage/>} />
-        <Route path="company/show" element={<ShowCompanyPage /> } />
-        
-        {/* Role routes (placeholder for now) */}
-        <Route path="role/add" element={<AddRolePage />} />
-        <Route path="role/show" element={<ShowRolePage />} />
-        
-        {/* Department routes (placeholder for now) */}
-        <Route path="department/add" element={<AddDepartmentPage />} />
-        <Route path="department/show" element={<ShowDepartmentPage />} />
-
-        {/* Candidate routes (placeholder for now) */}
-        <Route path="candidate/add" element={<AddCandidatePage />} />
-        <Route path="candidate/show" element={<ShowCandidatePage />} />
-
-        {/* Ticket routes (placeholder for now) */}
-        <Route path="ticket/add" element={<AddTicketPage />} />
-        <Route path="ticket/show" element={<ShowTicketPage />} />
 
+        {/* Everything below requires a matching menu/submenu grant */}
+        <Route element={<MenuRoute />}>
+
+          {/* Menu routes */}
+          <Route path="menu-list/add" element={<AddMenuPage />} />
+          <Route path="menu-list/show" element={<ShowMenuPage />} />
+
+          {/* Sub Menu routes (placeholder for now) */}
+          <Route path="sub-menu-list/add" element={<AddSubMenuPage />} />
+          <Route path="sub-menu-list/show" element={<ShowSubMenuPage />} />
+
+          {/* User routes (placeholder for now) */}
+          <Route path="user/add" element={<AddUserPage />} />
+          <Route path="user/show" element={<ShowUserPage />} />
+
+          {/* Company routes (placeholder for now) */}
+          <Route path="company/add" element={<AddCompanyPage/>} />
+          <Route path="company/show" element={<ShowCompanyPage /> } />
+
+          {/* Role routes (placeholder for now) */}
+          <Route path="role/add" element={<AddRolePage />} />
+          <Route path="role/show" element={<ShowRolePage />} />
+
+          {/* Department routes (placeholder for now) */}
+          <Route path="department/add" element={<AddDepartmentPage />} />
+          <Route path="department/show" element={<ShowDepartmentPage />} />
+
+          {/* Candidate routes (placeholder for now) */}
+          <Route path="candidate/add" element={<AddCandidatePage />} />
+          <Route path="candidate/show" element={<ShowCandidatePage />} />
+          <Route path="candidate/pipeline" element={<PipelineSettingsPage />} />
+          <Route path="candidate/duplicates" element={<DuplicateCandidatesPage />} />
+          <Route path="candidate/import" element={<ImportCandidatesPage />} />
+
+          {/* Ticket routes (placeholder for now) */}
+          <Route path="ticket/add" element={<AddTicketPage />} />
+          <Route path="ticket/show" element={<ShowTicketPage />} />
+          <Route path="ticket/:id" element={<TicketDetailPage />} />
+          <Route path="ticket/assignment-rules" element={<AssignmentRulesPage />} />
+          <Route path="ticket/sla-policies" element={<SlaPoliciesPage />} />
+          <Route path="ticket/workload" element={<WorkloadPage />} />
+        </Route>
       </Route>
 
       {/* Fallback */}
@@ -0,0 +1,644 @@
+import { createApi, fakeBaseQuery, type QueryReturnValue } from "@reduxjs/toolkit/query/react";
+import { AppError, type SerializedAppError } from "../../api/AppError";
+import { apiRequest, unwrap, unwrapResult, type ApiResult, type ResponseDto } from "../../api/request";
+import {
+  toFilterParam,
+  toNumberParam,
+  toPageResult,
+  toSortParam,
+  type PageQuery,
+  type PageResult,
+  type SpringPage,
+} from "../../api/pagination";
+import { AuthControllerService } from "../../api/generated/services/AuthControllerService";
+import { CompanyControllerService } from "../../api/generated/services/CompanyControllerService";
+import { DepartmentControllerService } from "../../api/generated/services/DepartmentControllerService";
+import { MenuControllerService } from "../../api/generated/services/MenuControllerService";
+import { RoleControllerService } from "../../api/generated/services/RoleControllerService";
+import { SubMenuControllerService } from "../../api/generated/services/SubMenuControllerService";
+import { AssignmentRuleService } from "../../api/services/AssignmentRuleService";
+import { CandidateService } from "../../api/services/CandidateService";
+import { PipelineService } from "../../api/services/PipelineService";
+import { LogHistoryService } from "../../api/services/LogHistoryService";
+import { NotificationService } from "../../api/services/NotificationService";
+import { TicketCommentService } from "../../api/services/TicketCommentService";
+import { TicketAssignmentService } from "../../api/services/TicketAssignmentService";
+import { SlaPolicyService } from "../../api/services/SlaPolicyService";
+import { SavedViewService } from "../../api/services/SavedViewService";
+import { TicketService } from "../../api/services/TicketService";
+import { UserService } from "../../api/services/UserService";
+import type { CompanyResponse } from "../../api/generated/models/CompanyResponse";
+import type { DepartmentResponse } from "../../api/generated/models/DepartmentResponse";
+import type { MenuListResponse } from "../../api/generated/models/MenuListResponse";
+import type { RoleResponse } from "../../api/generated/models/RoleResponse";
+import type { SubMenuListResponse } from "../../api/generated/models/SubMenuListResponse";
+import type { UserDetailResponse } from "../../api/generated/models/UserDetailResponse";
+import type { AssignmentRuleResponse } from "../../api/models/AssignmentRuleResponse";
+import type { CandidateResponse } from "../../api/models/CandidateResponse";
+import type { CandidateStageHistoryResponse } from "../../api/models/CandidateStageHistoryResponse";
+import type { PipelineResponse } from "../../api/models/PipelineResponse";
+import type { SlaPolicyResponse } from "../../api/models/SlaPolicyResponse";
+import type { SavedViewResponse } from "../../api/models/SavedViewResponse";
+import type { TicketResponse } from "../../api/models/TicketResponse";
+import type { TicketStatusCountResponse } from "../../api/models/TicketStatusCountResponse";
+import type { TicketUserCountResponse } from "../../api/models/TicketUserCountResponse";
+import type { LogHistoryResponse } from "../../api/models/LogHistoryResponse";
+import type { AssignHistoryResponse } from "../../api/models/AssignHistoryResponse";
+import type { TicketCommentResponse } from "../../api/models/TicketCommentResponse";
+import type { NotificationResponse } from "../../api/models/NotificationResponse";
+import type { CompanyRequest } from "../../api/generated/models/CompanyRequest";
+import type { DepartmentRequest } from "../../api/generated/models/DepartmentRequest";
+import type { MenuListRequest } from "../../api/generated/models/MenuListRequest";
+import type { RoleRequest } from "../../api/generated/models/RoleRequest";
+import type { SubMenuListRequest } from "../../api/generated/models/SubMenuListRequest";
+import type { UserDetailRequest } from "../../api/generated/models/UserDetailRequest";
+import type { AssignmentRuleRequest } from "../../api/models/AssignmentRuleRequest";
+import type { CandidateRequest } from "../../api/models/CandidateRequest";
+import type { CandidateMergeRequest } from "../../api/models/CandidateMergeRequest";
+import type { CandidateStageChangeRequest } from "../../api/models/CandidateStageChangeRequest";
+import type { PipelineRequest } from "../../api/models/PipelineRequest";
+import type { LogHistoryRequest } from "../../api/models/LogHistoryRequest";
+import type { TicketCommentRequest } from "../../api/models/TicketCommentRequest";
+import type { SlaPolicyRequest } from "../../api/models/SlaPolicyRequest";
+import type { SavedViewRequest } from "../../api/models/SavedViewRequest";
+import type { TicketAssignRequest } from "../../api/models/TicketAssignRequest";
+import type { TicketEscalationRequest } from "../../api/models/TicketEscalationRequest";
+import type { TicketRequest } from "../../api/models/TicketRequest";
+
+// Resolve a service call into the { data } / { error } pair queryFn expects.
+// Errors are stored serialized; AppError.from turns them back into AppError.
+const query = async <T>(
+  request: PromiseLike<ResponseDto<T>>,
+  fallbackMessage: string
+): Promise<QueryReturnValue<T, SerializedAppError, undefined>> => {
+  try {
+    return { data: await unwrap(request, fallbackMessage) };
+  } catch (error) {
+    return { error: AppError.from(error, fallbackMessage).toJSON() };
+  }
+};
+
+// Paged lists come back as a Spring Page; pages work with PageResult instead
+const pageQuery = async <T>(
+  request: PromiseLike<ResponseDto<SpringPage<T>>>,
+  args: PageQuery<Record<string, string>>,
+  fallbackMessage: string
+): Promise<QueryReturnValue<PageResult<T>, SerializedAppError, undefined>> => {
+  const result = await query(request, fallbackMessage);
+  return result.error ? { error: result.error } : { data: toPageResult(result.data as SpringPage<T>, args) };
+};
+
+export type TicketPageFilters = {
+  search: string;
+  status: string;
+  assignedTo: string;
+  candidate: string;
+  followUpFrom: string;
+  followUpTo: string;
+  createdFrom: string;
+  createdTo: string;
+};
+export type CandidatePageFilters = {
+  search: string;
+  stage: string;
+  experienceMin: string;
+  experienceMax: string;
+  currentCtcMin: string;
+  currentCtcMax: string;
+  expectedCtcMin: string;
+  expectedCtcMax: string;
+  noticePeriod: string;
+  skills: string;
+  skillsMatch: string;
+  status: string;
+  hasResume: string;
+};
+export type CandidateDuplicateLookup = {
+  email?: string;
+  phone?: string;
+  linkedInProfile?: string;
+  excludeId?: number;
+};
+
+// Mutations resolve to the whole { data, message } result so pages can show
+// the server's success message
+const mutation = async <T>(
+  request: PromiseLike<ResponseDto<T>>,
+  fallbackMessage: string
+): Promise<QueryReturnValue<ApiResult<T>, SerializedAppError, undefined>> => {
+  try {
+    return { data: await unwrapResult(request, fallbackMessage) };
+  } catch (error) {
+    return { error: AppError.from(error, fallbackMessage).toJSON() };
+  }
+};
+
+// The calls a bulk run makes for each item leave the cache alone; the run
+// invalidates once when it ends (see useBulkOperation), so every mounted list
+// refetches once rather than once per item
+export type InBulk<T> = T & { inBulk?: boolean };
+
+const withoutInBulk = <T extends object>(arg: InBulk<T>): T => {
+  const request = { ...arg };
+  delete request.inBulk;
+  return request;
+};
+
+// Server state shared by the list pages. Every list is cached under one tag
+// per entity; mutations invalidate that tag so the next Show page visit only
+// refetches what actually changed.
+export const apiSlice = createApi({
+  reducerPath: "api",
+  baseQuery: fakeBaseQuery<SerializedAppError>(),
+  tagTypes: [
+    "Company",
+    "Role",
+    "Department",
+    "User",
+    "Candidate",
+    "CandidateStageHistory",
+    "Pipeline",
+    "Ticket",
+    "LogHistory",
+    "AssignHistory",
+    "TicketComment",
+    "Notification",
+    "AssignmentRule",
+    "SlaPolicy",
+    "SavedView",
+    "Menu",
+    "SubMenu",
+  ],
+  // Lists change rarely; keep them around while the user hops between Add and Show pages
+  keepUnusedDataFor: 300,
+  endpoints: (builder) => ({
+    // Companies
+    getCompanies: builder.query<CompanyResponse[], void>({
+      queryFn: () => query(CompanyControllerService.getAll5(), "Failed to fetch companies"),
+      providesTags: ["Company"],
+    }),
+    addCompany: builder.mutation({
+      queryFn: (company: CompanyRequest) => mutation(CompanyControllerService.addCompany(company), "Failed to add company"),
+      invalidatesTags: ["Company"],
+    }),
+    updateCompany: builder.mutation({
+      // The generator named the company update after the department endpoint it was copied from
+      queryFn: (company: CompanyRequest) =>
+        mutation(CompanyControllerService.updateDepartment2(company), "Failed to update company"),
+      invalidatesTags: ["Company"],
+    }),
+    deleteCompany: builder.mutation({
+      queryFn: (id: number) => mutation(CompanyControllerService.deleteDepartment2(id), "Failed to delete company"),
+      invalidatesTags: ["Company", "User"],
+    }),
+
+    // Roles
+    getRoles: builder.query<RoleResponse[], void>({
+      queryFn: () => query(RoleControllerService.getAll1(), "Failed to fetch roles"),
+      providesTags: ["Role"],
+    }),
+    addRole: builder.mutation({
+      queryFn: (role: RoleRequest) => mutation(RoleControllerService.addRole(role), "Failed to add role"),
+      invalidatesTags: ["Role"],
+    }),
+    updateRole: builder.mutation({
+      queryFn: (role: RoleRequest) => mutation(RoleControllerService.updateRole(role), "Failed to update role"),
+      // Users list their role by name
+      invalidatesTags: ["Role", "User"],
+    }),
+    deleteRole: builder.mutation({
+      queryFn: (id: number) => mutation(RoleControllerService.deleteRole(id), "Failed to delete role"),
+      invalidatesTags: ["Role", "User"],
+    }),
+
+    // Departments
+    getDepartments: builder.query<DepartmentResponse[], void>({
+      queryFn: () => query(DepartmentControllerService.getAll2(), "Failed to fetch departments"),
+      providesTags: ["Department"],
+    }),
+    addDepartment: builder.mutation({
+      queryFn: (department: DepartmentRequest) =>
+        mutation(DepartmentControllerService.addDepartment(department), "Failed to add department"),
+      invalidatesTags: ["Department"],
+    }),
+    updateDepartment: builder.mutation({
+      queryFn: (department: DepartmentRequest) =>
+        mutation(DepartmentControllerService.updateDepartment(department), "Failed to update department"),
+      invalidatesTags: ["Department", "User"],
+    }),
+    deleteDepartment: builder.mutation({
+      queryFn: (id: number) => mutation(DepartmentControllerService.deleteDepartment(id), "Failed to delete department"),
+      invalidatesTags: ["Department", "User"],
+    }),
+
+    // Users
+    getUsers: builder.query<UserDetailResponse[], void>({
+      queryFn: () => query(UserService.getAllUsers(), "Failed to fetch users"),
+      providesTags: ["User"],
+    }),
+    getUser: builder.query({
+      queryFn: (id: number) => query(UserService.getUserById(id), "Failed to fetch user details"),
+      providesTags: (_result, _error, id) => [{ type: "User", id }],
+    }),
+    addUser: builder.mutation({
+      queryFn: (user: UserDetailRequest) => mutation(AuthControllerService.signup(user), "Failed to add user"),
+      invalidatesTags: ["User"],
+    }),
+    deleteUser: builder.mutation({
+      queryFn: (id: number) => mutation(UserService.deleteUser(id), "Failed to delete user"),
+      invalidatesTags: ["User"],
+    }),
+
+    // Candidates
+    getCandidates: builder.query<CandidateResponse[], void>({
+      queryFn: () => query(CandidateService.getAllCandidates(), "Failed to fetch candidates"),
+      providesTags: ["Candidate"],
+    }),
+    getCandidatePage: builder.query<PageResult<CandidateResponse>, PageQuery<CandidatePageFilters>>({
+      queryFn: (args) =>
+        pageQuery(
+          CandidateService.getCandidatePage(
+            args.page - 1,
+            args.size,
+            toSortParam(args.sort),
+            toFilterParam(args.filters.search),
+            toFilterParam(args.filters.stage),
+            toNumberParam(args.filters.experienceMin),
+            toNumberParam(args.filters.experienceMax),
+            toNumberParam(args.filters.currentCtcMin),
+            toNumberParam(args.filters.currentCtcMax),
+            toNumberParam(args.filters.expectedCtcMin),
+            toNumberParam(args.filters.expectedCtcMax),
+            toFilterParam(args.filters.noticePeriod),
+            toFilterParam(args.filters.skills),
+            toFilterParam(args.filters.skillsMatch),
+            toFilterParam(args.filters.status),
+            args.filters.hasResume ? args.filters.hasResume === "yes" : undefined
+          ),
+          args,
+          "Failed to fetch candidates"
+        ),
+      providesTags: ["Candidate"],
+    }),
+    getCandidate: builder.query({
+      queryFn: (id: number) => query(CandidateService.getCandidateById(id), "Failed to fetch candidate"),
+      providesTags: (_result, _error, id) => [{ type: "Candidate", id }],
+    }),
+    addCandidate: builder.mutation({
+      queryFn: (candidate: CandidateRequest) =>
+        mutation(CandidateService.addCandidate(candidate), "Failed to add candidate"),
+      invalidatesTags: ["Candidate"],
+    }),
+    updateCandidate: builder.mutation({
+      queryFn: (candidate: CandidateRequest) =>
+        mutation(CandidateService.updateCandidate(candidate), "Failed to update candidate"),
+      // Tickets list the candidate's name and contact details
+      invalidatesTags: ["Candidate", "Ticket"],
+    }),
+    deleteCandidate: builder.mutation({
+      queryFn: (id: number) => mutation(CandidateService.deleteCandidate(id), "Failed to delete candidate"),
+      invalidatesTags: ["Candidate", "Ticket"],
+    }),
+    uploadResume: builder.mutation({
+      queryFn: ({ candidateId, file }: { candidateId: number; file: Blob }) =>
+        mutation(CandidateService.uploadResume(candidateId, { file }), "Failed to upload resume"),
+      invalidatesTags: ["Candidate"],
+    }),
+    importCandidates: builder.mutation({
+      queryFn: (candidatesFile: Blob) =>
+        mutation(CandidateService.importCandidates({ candidatesFile }), "Bulk upload failed"),
+      invalidatesTags: ["Candidate"],
+    }),
+    findDuplicateCandidates: builder.query<CandidateResponse[], CandidateDuplicateLookup>({
+      queryFn: ({ email, phone, linkedInProfile, excludeId }) =>
+        query(
+          CandidateService.findDuplicates(email, phone, linkedInProfile, excludeId),
+          "Failed to check for duplicates"
+        ),
+      providesTags: ["Candidate"],
+    }),
+    findCandidatesByEmails: builder.query<CandidateResponse[], string[]>({
+      queryFn: (emails) => query(CandidateService.findByEmails(emails), "Failed to find candidates"),
+      providesTags: ["Candidate"],
+    }),
+    mergeCandidates: builder.mutation({
+      queryFn: (merge: CandidateMergeRequest) =>
+        mutation(CandidateService.mergeCandidates(merge), "Failed to merge candidates"),
+      // The duplicate's tickets and stage history now belong to the survivor
+      invalidatesTags: ["Candidate", "Ticket", "CandidateStageHistory"],
+    }),
+    changeCandidateStage: builder.mutation({
+      queryFn: (change: CandidateStageChangeRequest) =>
+        mutation(CandidateService.changeStage(change), "Failed to change stage"),
+      invalidatesTags: (_result, _error, change) => [
+        "Candidate",
+        { type: "CandidateStageHistory", id: change.candidateId },
+      ],
+    }),
+    getCandidateStageHistory: builder.query<CandidateStageHistoryResponse[], number>({
+      queryFn: (candidateId) =>
+        query(CandidateService.getStageHistory(candidateId), "Failed to fetch stage history"),
+      providesTags: (_result, _error, candidateId) => [{ type: "CandidateStageHistory", id: candidateId }],
+    }),
+    getPipeline: builder.query<PipelineResponse, number>({
+      queryFn: (companyId) => query(PipelineService.getPipeline(companyId), "Failed to fetch pipeline"),
+      providesTags: (_result, _error, companyId) => [{ type: "Pipeline", id: companyId }],
+    }),
+    updatePipeline: builder.mutation({
+      queryFn: (pipeline: PipelineRequest) =>
+        mutation(PipelineService.updatePipeline(pipeline), "Failed to update pipeline"),
+      invalidatesTags: (_result, _error, pipeline) => [{ type: "Pipeline", id: pipeline.companyId }],
+    }),
+
+    // Tickets
+    getTickets: builder.query<TicketResponse[], void>({
+      queryFn: () => query(TicketService.getAllTickets(), "Failed to fetch tickets"),
+      providesTags: ["Ticket"],
+    }),
+    getTicketPage: builder.query<PageResult<TicketResponse>, PageQuery<TicketPageFilters>>({
+      queryFn: (args) =>
+        pageQuery(
+          TicketService.getTicketPage(
+            args.page - 1,
+            args.size,
+            toSortParam(args.sort),
+            toFilterParam(args.filters.search),
+            toFilterParam(args.filters.status),
+            toFilterParam(args.filters.assignedTo),
+            toFilterParam(args.filters.candidate),
+            toFilterParam(args.filters.followUpFrom),
+            toFilterParam(args.filters.followUpTo),
+            toFilterParam(args.filters.createdFrom),
+            toFilterParam(args.filters.createdTo)
+          ),
+          args,
+          "Failed to fetch tickets"
+        ),
+      providesTags: ["Ticket"],
+    }),
+    getSlaBreaches: builder.query<PageResult<TicketResponse>, PageQuery>({
+      queryFn: (args) =>
+        pageQuery(TicketService.getSlaBreaches(args.page - 1, args.size), args, "Failed to fetch SLA breaches"),
+      providesTags: ["Ticket", "SlaPolicy"],
+    }),
+    getTicket: builder.query<TicketResponse, number>({
+      queryFn: (id) => query(TicketService.getTicketById(id), "Failed to fetch ticket"),
+      providesTags: (_result, _error, id) => [{ type: "Ticket", id }],
+    }),
+    getTicketStatusCount: builder.query<TicketStatusCountResponse, void>({
+      queryFn: () => query(TicketService.getTicketStatusCount(), "Failed to fetch ticket status count"),
+      providesTags: ["Ticket"],
+    }),
+    // Keyed by the "YYYY-MM-DD" day recent throughput counts from
+    getTicketCountByUser: builder.query<TicketUserCountResponse[], string>({
+      queryFn: (finishedSince) =>
+        query(TicketService.getTicketCountByUser(finishedSince), "Failed to fetch ticket counts"),
+      providesTags: ["Ticket"],
+    }),
+    addTicket: builder.mutation({
+      queryFn: (ticket: TicketRequest) => mutation(TicketService.addTicket(ticket), "Failed to add ticket"),
+      invalidatesTags: ["Ticket"],
+    }),
+    deleteTicket: builder.mutation({
+      queryFn: (id: number) => mutation(TicketService.deleteTicket(id), "Failed to delete ticket"),
+      invalidatesTags: ["Ticket"],
+    }),
+    getLogHistory: builder.query<LogHistoryResponse[], number>({
+      queryFn: (ticketId) => query(LogHistoryService.getByTicketId(ticketId), "Failed to fetch log history"),
+      providesTags: (_result, _error, ticketId) => [{ type: "LogHistory", id: ticketId }],
+    }),
+    addLogHistory: builder.mutation({
+      queryFn: (log: InBulk<LogHistoryRequest>) =>
+        mutation(LogHistoryService.addLogHistory(withoutInBulk(log)), "Failed to add log history"),
+      // A log entry carries the ticket's new status and follow-up date
+      invalidatesTags: (_result, _error, log) => (log.inBulk ? [] : ["Ticket", { type: "LogHistory", id: log.ticketId }]),
+    }),
+    getTicketComments: builder.query<TicketCommentResponse[], number>({
+      queryFn: (ticketId) => query(TicketCommentService.getByTicketId(ticketId), "Failed to fetch comments"),
+      providesTags: (_result, _error, ticketId) => [{ type: "TicketComment", id: ticketId }],
+    }),
+    addTicketComment: builder.mutation({
+      queryFn: (comment: TicketCommentRequest) =>
+        mutation(TicketCommentService.addComment(comment), "Failed to add comment"),
+      invalidatesTags: (_result, _error, comment) => [{ type: "TicketComment", id: comment.ticketId }],
+    }),
+    updateTicketComment: builder.mutation({
+      queryFn: (comment: TicketCommentRequest) =>
+        mutation(TicketCommentService.updateComment(comment), "Failed to update comment"),
+      invalidatesTags: (_result, _error, comment) => [{ type: "TicketComment", id: comment.ticketId }],
+    }),
+    deleteTicketComment: builder.mutation({
+      queryFn: ({ id }: { id: number; ticketId: number }) =>
+        mutation(TicketCommentService.deleteComment(id), "Failed to delete comment"),
+      invalidatesTags: (_result, _error, { ticketId }) => [{ type: "TicketComment", id: ticketId }],
+    }),
+    getNotifications: builder.query<NotificationResponse[], void>({
+      queryFn: () => query(NotificationService.getMyNotifications(), "Failed to fetch notifications"),
+      providesTags: ["Notification"],
+    }),
+    markNotificationRead: builder.mutation({
+      queryFn: (id: number) => mutation(NotificationService.markRead(id), "Failed to update notification"),
+      invalidatesTags: ["Notification"],
+    }),
+    markAllNotificationsRead: builder.mutation({
+      queryFn: () => mutation(NotificationService.markAllRead(), "Failed to update notifications"),
+      invalidatesTags: ["Notification"],
+    }),
+    getAssignHistory: builder.query<AssignHistoryResponse[], number>({
+      queryFn: (ticketId) =>
+        query(TicketAssignmentService.getAssignHistory(ticketId), "Failed to fetch assign history"),
+      providesTags: (_result, _error, ticketId) => [{ type: "AssignHistory", id: ticketId }],
+    }),
+    assignTickets: builder.mutation({
+      queryFn: (assignment: TicketAssignRequest) =>
+        mutation(TicketAssignmentService.assignTickets(assignment), "Failed to assign tickets"),
+      invalidatesTags: ["Ticket", "AssignHistory"],
+    }),
+    escalateTicket: builder.mutation({
+      queryFn: (escalation: InBulk<TicketEscalationRequest>) =>
+        mutation(TicketAssignmentService.escalateTicket(withoutInBulk(escalation)), "Failed to escalate ticket"),
+      invalidatesTags: (_result, _error, escalation) =>
+        escalation.inBulk ? [] : ["Ticket", { type: "AssignHistory", id: escalation.ticketId }],
+    }),
+    getSlaPolicies: builder.query<SlaPolicyResponse[], void>({
+      queryFn: () => query(SlaPolicyService.getAllPolicies(), "Failed to fetch SLA policies"),
+      providesTags: ["SlaPolicy"],
+    }),
+    addSlaPolicy: builder.mutation({
+      queryFn: (policy: SlaPolicyRequest) => mutation(SlaPolicyService.addPolicy(policy), "Failed to add SLA policy"),
+      invalidatesTags: ["SlaPolicy"],
+    }),
+    updateSlaPolicy: builder.mutation({
+      queryFn: (policy: SlaPolicyRequest) =>
+        mutation(SlaPolicyService.updatePolicy(policy), "Failed to update SLA policy"),
+      invalidatesTags: ["SlaPolicy"],
+    }),
+    deleteSlaPolicy: builder.mutation({
+      queryFn: (id: number) => mutation(SlaPolicyService.deletePolicy(id), "Failed to delete SLA policy"),
+      invalidatesTags: ["SlaPolicy"],
+    }),
+    getAssignmentRules: builder.query<AssignmentRuleResponse[], void>({
+      queryFn: () => query(AssignmentRuleService.getAllRules(), "Failed to fetch assignment rules"),
+      providesTags: ["AssignmentRule"],
+    }),
+    addAssignmentRule: builder.mutation({
+      queryFn: (rule: AssignmentRuleRequest) =>
+        mutation(AssignmentRuleService.addRule(rule), "Failed to add assignment rule"),
+      invalidatesTags: ["AssignmentRule"],
+    }),
+    updateAssignmentRule: builder.mutation({
+      queryFn: (rule: AssignmentRuleRequest) =>
+        mutation(AssignmentRuleService.updateRule(rule), "Failed to update assignment rule"),
+      invalidatesTags: ["AssignmentRule"],
+    }),
+    deleteAssignmentRule: builder.mutation({
+      queryFn: (id: number) => mutation(AssignmentRuleService.deleteRule(id), "Failed to delete assignment rule"),
+      invalidatesTags: ["AssignmentRule"],
+    }),
+    getSavedViews: builder.query<SavedViewResponse[], string>({
+      queryFn: (scope) => query(SavedViewService.getAllViews(scope), "Failed to fetch saved views"),
+      providesTags: ["SavedView"],
+    }),
+    addSavedView: builder.mutation({
+      queryFn: (view: SavedViewRequest) => mutation(SavedViewService.addView(view), "Failed to save view"),
+      invalidatesTags: ["SavedView"],
+    }),
+    deleteSavedView: builder.mutation({
+      queryFn: (id: number) => mutation(SavedViewService.deleteView(id), "Failed to delete saved view"),
+      invalidatesTags: ["SavedView"],
+    }),
+
+    // Menus
+    getMenus: builder.query<MenuListResponse[], void>({
+      queryFn: () => query(MenuControllerService.getAllMenus(), "Failed to fetch menus"),
+      providesTags: ["Menu"],
+    }),
+    getMenusWithSubmenus: builder.query<MenuListResponse[], void>({
+      queryFn: () => query(MenuControllerService.getAllMenusWithSubmenus(), "Failed to fetch menus"),
+      providesTags: ["Menu", "SubMenu"],
+    }),
+    getMenu: builder.query({
+      queryFn: (id: number) => query(MenuControllerService.getMenuById(id), "Failed to fetch menu details"),
+      providesTags: (_result, _error, id) => [{ type: "Menu", id }],
+    }),
+    addMenu: builder.mutation({
+      queryFn: (menu: MenuListRequest) => mutation(MenuControllerService.addMenu(menu), "Failed to add menu"),
+      invalidatesTags: ["Menu"],
+    }),
+    updateMenu: builder.mutation({
+      // MenuControllerService.editMenu never fills the {id} path segment
+      queryFn: (menu: MenuListRequest) =>
+        mutation(apiRequest({ method: "PUT", url: `/menu/edit/${menu.id}`, data: menu }), "Failed to update menu"),
+      invalidatesTags: ["Menu"],
+    }),
+    getSubMenus: builder.query<SubMenuListResponse[], void>({
+      queryFn: () => query(SubMenuControllerService.getAllSubMenu(), "Failed to fetch submenus"),
+      providesTags: ["SubMenu"],
+    }),
+    getSubMenusByMenu: builder.query({
+      queryFn: (menuId: number) => query(SubMenuControllerService.getSubmenuByMenu(menuId), "Failed to fetch submenus"),
+      providesTags: ["SubMenu"],
+    }),
+    getSubMenu: builder.query({
+      queryFn: (id: number) => query(SubMenuControllerService.getSubMenuById(id), "Failed to fetch submenu details"),
+      providesTags: (_result, _error, id) => [{ type: "SubMenu", id }],
+    }),
+    addSubMenu: builder.mutation({
+      queryFn: (submenu: SubMenuListRequest) =>
+        mutation(SubMenuControllerService.addSubMenu(submenu), "Failed to add submenu"),
+      invalidatesTags: ["SubMenu"],
+    }),
+    updateSubMenu: builder.mutation({
+      // Same unfilled {id} problem as editMenu
+      queryFn: (submenu: SubMenuListRequest) =>
+        mutation(
+          apiRequest({ method: "PUT", url: `/sub-menu/edit/${submenu.id}`, data: submenu }),
+          "Failed to update submenu"
+        ),
+      invalidatesTags: ["SubMenu"],
+    }),
+    deleteSubMenu: builder.mutation({
+      queryFn: (id: number) =>
+        mutation(apiRequest({ method: "DELETE", url: `/sub-menu/${id}` }), "Failed to delete submenu"),
+      invalidatesTags: ["SubMenu"],
+    }),
+  }),
+});
+
+export const {
+  useGetCompaniesQuery,
+  useAddCompanyMutation,
+  useUpdateCompanyMutation,
+  useDeleteCompanyMutation,
+  useGetRolesQuery,
+  useAddRoleMutation,
+  useUpdateRoleMutation,
+  useDeleteRoleMutation,
+  useGetDepartmentsQuery,
+  useAddDepartmentMutation,
+  useUpdateDepartmentMutation,
+  useDeleteDepartmentMutation,
+  useGetUsersQuery,
+  useLazyGetUserQuery,
+  useAddUserMutation,
+  useDeleteUserMutation,
+  useGetCandidatesQuery,
+  useGetCandidatePageQuery,
+  useLazyGetCandidateQuery,
+  useAddCandidateMutation,
+  useUpdateCandidateMutation,
+  useDeleteCandidateMutation,
+  useUploadResumeMutation,
+  useImportCandidatesMutation,
+  useFindDuplicateCandidatesQuery,
+  useLazyFindDuplicateCandidatesQuery,
+  useLazyFindCandidatesByEmailsQuery,
+  useMergeCandidatesMutation,
+  useChangeCandidateStageMutation,
+  useGetCandidateStageHistoryQuery,
+  useGetPipelineQuery,
+  useUpdatePipelineMutation,
+  useGetTicketsQuery,
+  useGetTicketPageQuery,
+  useGetTicketQuery,
+  useGetTicketStatusCountQuery,
+  useGetTicketCountByUserQuery,
+  useAddTicketMutation,
+  useDeleteTicketMutation,
+  useGetLogHistoryQuery,
+  useAddLogHistoryMutation,
+  useGetTicketCommentsQuery,
+  useAddTicketCommentMutation,
+  useUpdateTicketCommentMutation,
+  useDeleteTicketCommentMutation,
+  useGetNotificationsQuery,
+  useMarkNotificationReadMutation,
+  useMarkAllNotificationsReadMutation,
+  useGetAssignHistoryQuery,
+  useAssignTicketsMutation,
+  useEscalateTicketMutation,
+  useGetSlaPoliciesQuery,
+  useGetSlaBreachesQuery,
+  useLazyGetSlaBreachesQuery,
+  useAddSlaPolicyMutation,
+  useUpdateSlaPolicyMutation,
+  useDeleteSlaPolicyMutation,
+  useGetAssignmentRulesQuery,
+  useAddAssignmentRuleMutation,
+  useUpdateAssignmentRuleMutation,
+  useDeleteAssignmentRuleMutation,
+  useGetSavedViewsQuery,
+  useAddSavedViewMutation,
+  useDeleteSavedViewMutation,
+  useGetMenusQuery,
+  useGetMenusWithSubmenusQuery,
+  useLazyGetMenuQuery,
+  useAddMenuMutation,
+  useUpdateMenuMutation,
+  useGetSubMenusQuery,
+  useLazyGetSubMenusByMenuQuery,
+  useLazyGetSubMenuQuery,
+  useAddSubMenuMutation,
+  useUpdateSubMenuMutation,
+  useDeleteSubMenuMutation,
+} = apiSlice;
@@ -0,0 +1,121 @@
+import { createSlice, createAsyncThunk, type Dispatch, type PayloadAction } from "@reduxjs/toolkit";
+import { getAuthToken, setAuthToken } from "../../api/apiClient";
+import { AppError } from "../../api/AppError";
+import { apiRequest, unwrap } from "../../api/request";
+import { apiSlice } from "./apiSlice";
+import { decodeJwt, getUserIdFromClaims } from "../../utils/jwt";
+import type { UserDetailResponse } from "../../api/generated/models/UserDetailResponse";
+
+export const USER_STORAGE_KEY = "user";
+
+interface AuthState {
+  token: string | null;
+  user: UserDetailResponse | null;
+  loading: boolean;
+  error: string | null;
+  // Token is past its exp claim (or the API answered 401). The session is
+  // kept so the page underneath survives until the user signs in again.
+  sessionExpired: boolean;
+}
+
+const readStoredUser = (): UserDetailResponse | null => {
+  const stored = sessionStorage.getItem(USER_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as UserDetailResponse;
+  } catch (error) {
+    console.error("Error parsing stored user data:", error);
+    sessionStorage.removeItem(USER_STORAGE_KEY);
+    return null;
+  }
+};
+
+// Refresh the logged in user's details using the id carried in the token
+export const fetchCurrentUser = createAsyncThunk<
+  UserDetailResponse,
+  void,
+  { state: { auth: AuthState }; rejectValue: string }
+>("auth/fetchCurrentUser", async (_, { getState, rejectWithValue }) => {
+  const token = getAuthToken();
+  if (!token) return rejectWithValue("No authentication token found");
+
+  const userId = getUserIdFromClaims(decodeJwt(token));
+  if (!userId) return rejectWithValue("Unable to get user ID from token");
+
+  try {
+    const fetched = await unwrap(
+      apiRequest<UserDetailResponse>({ url: `/auth/getById/${userId}` }),
+      "Failed to fetch user data"
+    );
+
+    // getById does not return the menu list, keep the one from login
+    const previous = getState().auth.user;
+    const user = { ...previous, ...fetched, menulist: fetched.menulist ?? previous?.menulist };
+    sessionStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+    return user;
+  } catch (error) {
+    return rejectWithValue(AppError.from(error, "Failed to fetch user data").message);
+  }
+});
+
+const authSlice = createSlice({
+  name: "auth",
+  initialState: {
+    token: getAuthToken(),
+    user: readStoredUser(),
+    loading: false,
+    error: null,
+    sessionExpired: false,
+  } as AuthState,
+  reducers: {
+    sessionStarted: (state, action: PayloadAction<{ token: string; user: UserDetailResponse }>) => {
+      state.token = action.payload.token;
+      state.user = action.payload.user;
+      state.error = null;
+      state.sessionExpired = false;
+    },
+    sessionExpired: (state) => {
+      state.sessionExpired = true;
+    },
+    sessionEnded: (state) => {
+      state.token = null;
+      state.user = null;
+      state.loading = false;
+      state.error = null;
+      state.sessionExpired = false;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchCurrentUser.pending, (state) => {
+        state.loading = true;
+      })
+      .addCase(fetchCurrentUser.fulfilled, (state, action) => {
+        state.loading = false;
+        state.user = action.payload;
+      })
+      .addCase(fetchCurrentUser.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload || action.error.message || "Failed to fetch user data";
+      });
+  },
+});
+
+export const { sessionExpired } = authSlice.actions;
+
+// Persist the session and publish it to the store
+export const login = (token: string, user: UserDetailResponse) => (dispatch: Dispatch) => {
+  setAuthToken(token);
+  sessionStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+  dispatch(authSlice.actions.sessionStarted({ token: getAuthToken() as string, user }));
+};
+
+export const logout = () => (dispatch: Dispatch) => {
+  sessionStorage.clear();
+  dispatch(authSlice.actions.sessionEnded());
+  // Cached lists belong to the user that fetched them
+  dispatch(apiSlice.util.resetApiState());
+};
+
+export default authSlice.reducer;
@@ -0,0 +1,76 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
+import { AppError } from "../../api/AppError";
+import { apiRequest, unwrapResult } from "../../api/request";
+
+interface PermissionState {
+  // null means the role has no mapping saved and department defaults apply
+  byRoleId: Record<number, string[] | null>;
+  loadingRoleIds: number[];
+  error: string | null;
+}
+
+export const fetchRolePermissions = createAsyncThunk<string[] | null, number, { rejectValue: string }>(
+  "permission/fetchRolePermissions",
+  async (roleId, { rejectWithValue }) => {
+    try {
+      const { data } = await unwrapResult(
+        apiRequest<string[] | null>({ url: `/role/permissions/${roleId}` }),
+        "Failed to fetch role permissions"
+      );
+      return data ?? null;
+    } catch (error) {
+      const appError = AppError.from(error, "Failed to fetch role permissions");
+      // A role nobody has configured yet is not an error
+      if (appError.status === 404) return null;
+      return rejectWithValue(appError.message);
+    }
+  }
+);
+
+export const saveRolePermissions = createAsyncThunk<
+  string[],
+  { roleId: number; permissions: string[] },
+  { rejectValue: string }
+>("permission/saveRolePermissions", async ({ roleId, permissions }, { rejectWithValue }) => {
+  try {
+    const { data } = await unwrapResult(
+      apiRequest<string[] | null>({ method: "PUT", url: "/role/permissions/update", data: { roleId, permissions } }),
+      "Failed to save role permissions"
+    );
+    return data ?? permissions;
+  } catch (error) {
+    return rejectWithValue(AppError.from(error, "Failed to save role permissions").message);
+  }
+});
+
+const permissionSlice = createSlice({
+  name: "permission",
+  initialState: {
+    byRoleId: {},
+    loadingRoleIds: [],
+    error: null,
+  } as PermissionState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRolePermissions.pending, (state, action) => {
+        state.loadingRoleIds.push(action.meta.arg);
+      })
+      .addCase(fetchRolePermissions.fulfilled, (state, action) => {
+        state.loadingRoleIds = state.loadingRoleIds.filter((id) => id !== action.meta.arg);
+        state.byRoleId[action.meta.arg] = action.payload;
+        state.error = null;
+      })
+      .addCase(fetchRolePermissions.rejected, (state, action) => {
+        state.loadingRoleIds = state.loadingRoleIds.filter((id) => id !== action.meta.arg);
+        // Fall back to department defaults rather than retrying forever
+        state.byRoleId[action.meta.arg] = null;
+        state.error = action.payload || action.error.message || "Failed to fetch role permissions";
+      })
+      .addCase(saveRolePermissions.fulfilled, (state, action) => {
+        state.byRoleId[action.meta.arg.roleId] = action.payload;
+      });
+  },
+});
+
+export default permissionSlice.reducer;
@@ -1,10 +1,17 @@
 import { configureStore } from "@reduxjs/toolkit";
 import menuReducer from "./slices/menuSlice";
+import authReducer from "./slices/authSlice";
+import permissionReducer from "./slices/permissionSlice";
+import { apiSlice } from "./slices/apiSlice";
 
 export const store = configureStore({
   reducer: {
-    menu: menuReducer
+    menu: menuReducer,
+    auth: authReducer,
+    permission: permissionReducer,
+    [apiSlice.reducerPath]: apiSlice.reducer,
   },
+  middleware: (getDefaultMiddleware) => getDefaultMiddleware().concat(apiSlice.middleware),
 });
 
 export type RootState = ReturnType<typeof store.getState>;
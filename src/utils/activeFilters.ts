@@ -0,0 +1,13 @@
+// A filter narrowing a list, shown as a chip above it. Search has its own box
+// and never becomes one.
+export interface ActiveFilter<F> {
+  label: string;
+  // What clearing this filter resets
+  clear: Partial<F>;
+}
+
+// A range filter with one end or both: "3 – 5", "from 3", "up to 5"
+export const describeRange = (from: string, to: string, format: (value: string) => string = (value) => value) => {
+  if (from && to) return `${format(from)} – ${format(to)}`;
+  return from ? `from ${format(from)}` : `up to ${format(to)}`;
+};
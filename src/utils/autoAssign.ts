@@ -0,0 +1,133 @@
+import type { AssignmentRuleResponse } from "../api/models/AssignmentRuleResponse";
+import type { CandidateResponse } from "../api/models/CandidateResponse";
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+
+export const ASSIGNMENT_STRATEGIES = ["ROUND_ROBIN", "LEAST_OPEN", "SKILL_MATCH"] as const;
+
+export type AssignmentStrategy = (typeof ASSIGNMENT_STRATEGIES)[number];
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  ROUND_ROBIN: "Round robin",
+  LEAST_OPEN: "Fewest open tickets",
+  SKILL_MATCH: "Skill match",
+};
+
+export const ASSIGNMENT_STRATEGY_HINTS: Record<AssignmentStrategy, string> = {
+  ROUND_ROBIN: "Takes turns through the department, picking up where the last assignment stopped.",
+  LEAST_OPEN: "Gives each ticket to whoever in the department has the fewest tickets still open.",
+  SKILL_MATCH:
+    "Gives each ticket to the user whose skills overlap most with the candidate's. Ties and candidates nobody matches go to the user with the fewest open tickets.",
+};
+
+export const isAssignmentStrategy = (value: string | null | undefined): value is AssignmentStrategy =>
+  (ASSIGNMENT_STRATEGIES as readonly string[]).includes(value ?? "");
+
+export const assignmentStrategyLabel = (strategy: string | null | undefined) =>
+  isAssignmentStrategy(strategy) ? ASSIGNMENT_STRATEGY_LABELS[strategy] : strategy || "-";
+
+export interface PlannedAssignment {
+  candidate: CandidateResponse;
+  // Missing when the rule has nobody to hand the ticket to
+  user?: UserDetailResponse;
+  reason: string;
+}
+
+interface PlanContext {
+  users: UserDetailResponse[];
+  // Open tickets per user id; users missing from it have none
+  openLoad: Map<number, number>;
+}
+
+// Skills are free text ("Java, Spring Boot; SQL"); compare them as lowercase
+// tokens
+export const parseSkills = (skills: string | null | undefined) => [
+  ...new Set(
+    (skills ?? "")
+      .split(/[,;|/\n]/)
+      .map((skill) => skill.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+];
+
+// Users a rule hands tickets to, in a stable order so round robin can resume
+export const ruleUsers = (rule: AssignmentRuleResponse, users: UserDetailResponse[]) =>
+  users
+    .filter((user) => user.id != null && (!rule.departmentId || user.departmentId === rule.departmentId))
+    .sort((a, b) => a.id! - b.id!);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Who each candidate's ticket would go to under `rule`. Nothing is saved;
+// every pick counts towards the load of the ones after it, so a batch spreads
+// out the same way single assignments would.
+export const planAssignments = (
+  rule: AssignmentRuleResponse,
+  candidates: CandidateResponse[],
+  { users, openLoad }: PlanContext
+): PlannedAssignment[] => {
+  const pool = ruleUsers(rule, users);
+  if (!isAssignmentStrategy(rule.strategy)) {
+    return candidates.map((candidate) => ({ candidate, reason: `Unknown strategy "${rule.strategy ?? ""}"` }));
+  }
+  if (pool.length === 0) {
+    return candidates.map((candidate) => ({ candidate, reason: "Nobody in the rule's department" }));
+  }
+
+  const load = new Map(pool.map((user) => [user.id!, openLoad.get(user.id!) ?? 0]));
+  const skillsByUser = new Map(
+    (rule.userSkills ?? []).map(({ userId, skills }) => [userId, new Set(parseSkills(skills))])
+  );
+  let cursor = pool.findIndex((user) => user.id === rule.lastAssignedUserId);
+
+  // Ties go to whoever comes first in the pool
+  const leastLoaded = (options: UserDetailResponse[]) =>
+    options.reduce((best, user) => (load.get(user.id!)! < load.get(best.id!)! ? user : best));
+
+  const pick = (candidate: CandidateResponse): { user: UserDetailResponse; reason: string } => {
+    switch (rule.strategy as AssignmentStrategy) {
+      case "ROUND_ROBIN":
+        cursor = (cursor + 1) % pool.length;
+        return { user: pool[cursor], reason: "Next in rotation" };
+      case "LEAST_OPEN": {
+        const user = leastLoaded(pool);
+        return { user, reason: `Fewest open tickets (${load.get(user.id!)})` };
+      }
+      case "SKILL_MATCH": {
+        const wanted = parseSkills(candidate.skills);
+        const matches = pool.map((user) => ({
+          user,
+          matched: wanted.filter((skill) => skillsByUser.get(user.id)?.has(skill)),
+        }));
+        const best = Math.max(...matches.map(({ matched }) => matched.length));
+        if (best === 0) {
+          const user = leastLoaded(pool);
+          return { user, reason: `No skill match; fewest open tickets (${load.get(user.id!)})` };
+        }
+        const user = leastLoaded(matches.filter(({ matched }) => matched.length === best).map((m) => m.user));
+        const matched = matches.find((m) => m.user === user)!.matched;
+        return { user, reason: `Matches ${plural(matched.length, "skill")}: ${matched.join(", ")}` };
+      }
+    }
+  };
+
+  return candidates.map((candidate) => {
+    const { user, reason } = pick(candidate);
+    load.set(user.id!, load.get(user.id!)! + 1);
+    return { candidate, user, reason };
+  });
+};
+
+// The assign endpoint takes one user at a time; the candidates `plan` hands
+// each user, for one request per user
+export const candidateIdsByUser = (plan: PlannedAssignment[]) => {
+  const byUser = new Map<number, number[]>();
+  for (const { user, candidate } of plan) {
+    if (user?.id == null || candidate.id == null) continue;
+    byUser.set(user.id, [...(byUser.get(user.id) ?? []), candidate.id]);
+  }
+  return byUser;
+};
+
+// Where round robin should resume after `plan` has been committed
+export const lastPlannedUserId = (plan: PlannedAssignment[]) =>
+  [...plan].reverse().find((planned) => planned.user)?.user?.id;
@@ -0,0 +1,172 @@
+import type { CandidateResponse } from "../api/models/CandidateResponse";
+
+// The fields that identify a person; two candidates sharing any of them are
+// treated as the same person entered twice
+export const DUPLICATE_FIELDS = ["email", "phone", "linkedInProfile"] as const;
+export type DuplicateField = (typeof DUPLICATE_FIELDS)[number];
+
+export const DUPLICATE_FIELD_LABELS: Record<DuplicateField, string> = {
+  email: "Email",
+  phone: "Phone",
+  linkedInProfile: "LinkedIn",
+};
+
+type Identity = Partial<Record<DuplicateField, string | null>>;
+export type DuplicateLookup = Partial<Record<DuplicateField, string>>;
+
+// Compare phones on their last 10 digits so +91 / 0 prefixes and spacing
+// don't hide a match
+const PHONE_DIGITS = 10;
+const MIN_PHONE_DIGITS = 7;
+
+const normalizers: Record<DuplicateField, (value: string) => string> = {
+  email: (value) => value.trim().toLowerCase(),
+  phone: (value) => value.replace(/\D/g, "").slice(-PHONE_DIGITS),
+  linkedInProfile: (value) =>
+    value
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\//, "")
+      .replace(/^(www\.|[a-z]{2}\.)/, "")
+      .replace(/[?#].*$/, "")
+      .replace(/\/+$/, ""),
+};
+
+// Partially typed values would match far too much while the user is typing
+const usable: Record<DuplicateField, (normalized: string) => boolean> = {
+  email: (value) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value),
+  phone: (value) => value.length >= MIN_PHONE_DIGITS,
+  linkedInProfile: (value) => /^linkedin\.com\/in\/[^/]+/.test(value),
+};
+
+export const normalizeIdentity = (field: DuplicateField, value: string | null | undefined) => {
+  const normalized = value ? normalizers[field](value) : "";
+  return usable[field](normalized) ? normalized : "";
+};
+
+// What to ask the server about: only the fields complete enough to match on
+export const duplicateLookup = (candidate: Identity) => {
+  const lookup: Identity = {};
+  for (const field of DUPLICATE_FIELDS) {
+    if (normalizeIdentity(field, candidate[field])) lookup[field] = candidate[field]?.trim();
+  }
+  return Object.keys(lookup).length ? (lookup as DuplicateLookup) : undefined;
+};
+
+export const matchingFields = (a: Identity, b: Identity) =>
+  DUPLICATE_FIELDS.filter((field) => {
+    const value = normalizeIdentity(field, a[field]);
+    return !!value && value === normalizeIdentity(field, b[field]);
+  });
+
+// Set on the duplicates report when a bulk import sends the user there
+export const AFTER_IMPORT_PARAM = "imported";
+
+// Navigation state from the bulk import: the identities it uploaded, so the
+// report only checks what the import may have duplicated
+export interface ImportedIdentities {
+  imported: DuplicateLookup[];
+}
+
+export const importedIdentities = (state: unknown): DuplicateLookup[] | undefined => {
+  const imported = (state as Partial<ImportedIdentities> | null)?.imported;
+  return Array.isArray(imported) ? imported : undefined;
+};
+
+export interface DuplicateGroup {
+  candidates: CandidateResponse[];
+  // Every field that links at least two of the candidates
+  fields: DuplicateField[];
+}
+
+// Candidates that share an email, phone or LinkedIn URL, directly or through
+// another candidate in the same group
+export const findDuplicateGroups = (candidates: CandidateResponse[]): DuplicateGroup[] => {
+  const parent = candidates.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const fieldsByRoot = new Map<number, Set<DuplicateField>>();
+  const firstSeen = new Map<string, number>();
+  const links: { index: number; field: DuplicateField }[] = [];
+  candidates.forEach((candidate, index) => {
+    for (const field of DUPLICATE_FIELDS) {
+      const value = normalizeIdentity(field, candidate[field]);
+      if (!value) continue;
+      const key = `${field}:${value}`;
+      const other = firstSeen.get(key);
+      if (other === undefined) {
+        firstSeen.set(key, index);
+      } else {
+        parent[root(index)] = root(other);
+        links.push({ index, field });
+      }
+    }
+  });
+  for (const { index, field } of links) {
+    const fields = fieldsByRoot.get(root(index)) ?? new Set<DuplicateField>();
+    fields.add(field);
+    fieldsByRoot.set(root(index), fields);
+  }
+
+  const groups = new Map<number, CandidateResponse[]>();
+  candidates.forEach((candidate, index) => {
+    const group = groups.get(root(index)) ?? [];
+    group.push(candidate);
+    groups.set(root(index), group);
+  });
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([groupRoot, group]) => ({
+      candidates: group,
+      fields: DUPLICATE_FIELDS.filter((field) => fieldsByRoot.get(groupRoot)?.has(field)),
+    }));
+};
+
+// Groups from what the server matched for each identity checked. A match
+// with more than one record is a set of duplicates; sets sharing a record
+// are the same group.
+export const groupMatches = (matches: CandidateResponse[][]): DuplicateGroup[] => {
+  let groups: CandidateResponse[][] = [];
+  for (const match of matches) {
+    if (match.length < 2) continue;
+    const ids = new Set(match.map((candidate) => candidate.id));
+    const overlapping = groups.filter((group) => group.some((candidate) => ids.has(candidate.id)));
+    const merged = new Map([...overlapping.flat(), ...match].map((candidate) => [candidate.id, candidate]));
+    groups = [...groups.filter((group) => !overlapping.includes(group)), [...merged.values()]];
+  }
+  return groups.map((candidates) => ({
+    candidates,
+    fields: DUPLICATE_FIELDS.filter((field) =>
+      candidates.some((a, i) => candidates.slice(i + 1).some((b) => matchingFields(a, b).includes(field)))
+    ),
+  }));
+};
+
+// Fields the merge dialog lets the user pick a winner for
+export const MERGE_FIELDS = [
+  { key: "name", label: "Name" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "experience", label: "Experience" },
+  { key: "currentCTC", label: "Current CTC" },
+  { key: "expectedCTC", label: "Expected CTC" },
+  { key: "noticePeriod", label: "Notice Period" },
+  { key: "skills", label: "Skills" },
+  { key: "linkedInProfile", label: "LinkedIn" },
+  { key: "notes", label: "Notes" },
+] as const;
+export type MergeField = (typeof MERGE_FIELDS)[number]["key"];
+
+// Which record each field is taken from: the survivor's value unless it is
+// blank and the duplicate has one
+export const defaultMergeWinners = (survivor: CandidateResponse, duplicate: CandidateResponse) =>
+  Object.fromEntries(
+    MERGE_FIELDS.map(({ key }) => [key, !survivor[key]?.trim() && duplicate[key]?.trim() ? "duplicate" : "survivor"])
+  ) as Record<MergeField, "survivor" | "duplicate">;
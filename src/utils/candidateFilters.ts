@@ -0,0 +1,104 @@
+import type { CandidatePageFilters } from "../store/slices/apiSlice";
+import type { PipelineStage } from "../api/models/PipelineStage";
+import { describeRange, type ActiveFilter } from "./activeFilters";
+import { stageLabel } from "./pipeline";
+
+// Every filter the candidate list keeps in the URL, by the param it's stored under
+export const defaultCandidateFilters: CandidatePageFilters = {
+  search: "",
+  stage: "",
+  experienceMin: "",
+  experienceMax: "",
+  currentCtcMin: "",
+  currentCtcMax: "",
+  expectedCtcMin: "",
+  expectedCtcMax: "",
+  noticePeriod: "",
+  skills: "",
+  skillsMatch: "",
+  status: "",
+  hasResume: "",
+};
+
+// Notice periods are free text on the candidate, so the server sorts them
+// into these buckets by the number of days they work out to
+export const NOTICE_PERIOD_BUCKETS = [
+  { key: "IMMEDIATE", label: "Immediate" },
+  { key: "UP_TO_15", label: "Up to 15 days" },
+  { key: "UP_TO_30", label: "Up to 30 days" },
+  { key: "UP_TO_60", label: "Up to 60 days" },
+  { key: "UP_TO_90", label: "Up to 90 days" },
+  { key: "OVER_90", label: "More than 90 days" },
+] as const;
+
+// Skills are matched all together unless `skillsMatch` says "any"
+export const SKILLS_MATCH_ANY = "any";
+
+export const HAS_RESUME_OPTIONS = [
+  { value: "yes", label: "With resume" },
+  { value: "no", label: "Without resume" },
+] as const;
+
+export const splitSkills = (skills: string) =>
+  skills
+    .split(",")
+    .map((skill) => skill.trim())
+    .filter(Boolean);
+
+// The filters with a Min and Max param
+export type CandidateRangeFilter = "experience" | "currentCtc" | "expectedCtc";
+
+// The two ends of a range in the order they were typed; a minimum above the
+// maximum would match nothing
+export const isInvertedRange = (filters: CandidatePageFilters, range: CandidateRangeFilter) => {
+  const min = filters[`${range}Min`];
+  const max = filters[`${range}Max`];
+  return min !== "" && max !== "" && Number(min) > Number(max);
+};
+
+const withUnit = (unit: string) => (value: string) => `${value} ${unit}`;
+
+export const describeCandidateFilters = (
+  filters: CandidatePageFilters,
+  stages: PipelineStage[]
+): ActiveFilter<CandidatePageFilters>[] => {
+  const active: ActiveFilter<CandidatePageFilters>[] = [];
+  if (filters.stage) {
+    active.push({ label: `Stage: ${stageLabel(stages, filters.stage)}`, clear: { stage: "" } });
+  }
+  if (filters.experienceMin || filters.experienceMax) {
+    active.push({
+      label: `Experience: ${describeRange(filters.experienceMin, filters.experienceMax, withUnit("yrs"))}`,
+      clear: { experienceMin: "", experienceMax: "" },
+    });
+  }
+  if (filters.currentCtcMin || filters.currentCtcMax) {
+    active.push({
+      label: `Current CTC: ${describeRange(filters.currentCtcMin, filters.currentCtcMax, withUnit("LPA"))}`,
+      clear: { currentCtcMin: "", currentCtcMax: "" },
+    });
+  }
+  if (filters.expectedCtcMin || filters.expectedCtcMax) {
+    active.push({
+      label: `Expected CTC: ${describeRange(filters.expectedCtcMin, filters.expectedCtcMax, withUnit("LPA"))}`,
+      clear: { expectedCtcMin: "", expectedCtcMax: "" },
+    });
+  }
+  if (filters.noticePeriod) {
+    const bucket = NOTICE_PERIOD_BUCKETS.find((b) => b.key === filters.noticePeriod);
+    active.push({ label: `Notice: ${bucket?.label ?? filters.noticePeriod}`, clear: { noticePeriod: "" } });
+  }
+  const skills = splitSkills(filters.skills);
+  if (skills.length) {
+    const joiner = filters.skillsMatch === SKILLS_MATCH_ANY ? " or " : " and ";
+    active.push({ label: `Skills: ${skills.join(joiner)}`, clear: { skills: "", skillsMatch: "" } });
+  }
+  if (filters.status) {
+    active.push({ label: `Status: ${filters.status}`, clear: { status: "" } });
+  }
+  if (filters.hasResume) {
+    const option = HAS_RESUME_OPTIONS.find((o) => o.value === filters.hasResume);
+    active.push({ label: option?.label ?? `Resume: ${filters.hasResume}`, clear: { hasResume: "" } });
+  }
+  return active;
+};
@@ -0,0 +1,101 @@
+import { XLSX_TYPE, isBlankRow, writeXlsx, type SheetRows } from "./spreadsheet";
+
+// Candidate fields a spreadsheet column can be mapped to. Required matches the
+// add form; aliases are header spellings recognised when guessing the mapping.
+export const IMPORT_FIELDS = [
+  { key: "name", label: "Name", required: true, aliases: ["full name", "candidate name", "candidate"] },
+  { key: "email", label: "Email", required: true, aliases: ["email id", "email address", "e-mail", "mail"] },
+  { key: "phone", label: "Phone", required: true, aliases: ["phone number", "mobile", "mobile number", "contact", "contact number"] },
+  { key: "experience", label: "Experience", required: true, aliases: ["exp", "total experience", "years of experience"] },
+  { key: "currentCTC", label: "Current CTC", required: true, aliases: ["ctc", "current salary"] },
+  { key: "expectedCTC", label: "Expected CTC", required: true, aliases: ["ectc", "expected salary"] },
+  { key: "noticePeriod", label: "Notice Period", required: true, aliases: ["notice"] },
+  { key: "skills", label: "Skills", required: true, aliases: ["skill set", "key skills", "technologies"] },
+  { key: "linkedInProfile", label: "LinkedIn", required: true, aliases: ["linkedin profile", "linkedin url"] },
+  { key: "notes", label: "Notes", required: false, aliases: ["remarks", "comments", "comment"] },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"];
+export type ImportValues = Record<ImportField, string>;
+
+// Spreadsheet column index per field; undefined leaves the field empty
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  // 1-based row number in the file, counting the header, so users can find it
+  line: number;
+  values: ImportValues;
+  skipped: boolean;
+}
+
+export type RowErrors = Partial<Record<ImportField, string>>;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+// Digits with an optional leading +, allowing the spaces, dashes, dots and
+// brackets people type between groups
+const PHONE_PATTERN = /^\+?[\d\s\-().]+$/;
+const PHONE_DIGITS = { min: 7, max: 15 };
+// A plain amount, optionally with the unit the sample file uses ("7 LPA")
+const CTC_PATTERN = /^\d[\d,]*(\.\d+)?\s*(lpa|lakhs?|l|k)?$/i;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+// Match headers on the field key, label or a known alias, ignoring case and
+// separators. Each column is used for one field at most.
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const index = headers.findIndex((header, i) => !used.has(i) && names.includes(normalizeHeader(header)));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+};
+
+const emptyValues = () =>
+  Object.fromEntries(IMPORT_FIELDS.map(({ key }) => [key, ""])) as ImportValues;
+
+// The first row is the header; every other non-blank row becomes an import row
+export const toImportRows = (rows: SheetRows, mapping: ColumnMapping): ImportRow[] =>
+  rows.slice(1).flatMap((cells, index) => {
+    if (isBlankRow(cells)) return [];
+    const values = emptyValues();
+    for (const { key } of IMPORT_FIELDS) {
+      const column = mapping[key];
+      if (column !== undefined) values[key] = (cells[column] ?? "").trim();
+    }
+    return [{ line: index + 2, values, skipped: false }];
+  });
+
+export const validateImportRow = (values: ImportValues): RowErrors => {
+  const errors: RowErrors = {};
+  for (const { key, label, required } of IMPORT_FIELDS) {
+    if (required && !values[key].trim()) errors[key] = `${label} is required`;
+  }
+
+  const { email, phone, currentCTC, expectedCTC } = values;
+  if (email && !EMAIL_PATTERN.test(email.trim())) errors.email = "Not a valid email address";
+  if (phone) {
+    const digits = phone.replace(/\D/g, "").length;
+    if (!PHONE_PATTERN.test(phone.trim()) || digits < PHONE_DIGITS.min || digits > PHONE_DIGITS.max) {
+      errors.phone = `Use ${PHONE_DIGITS.min}-${PHONE_DIGITS.max} digits, optionally starting with +`;
+    }
+  }
+  if (currentCTC && !CTC_PATTERN.test(currentCTC.trim())) errors.currentCTC = "Must be a number, e.g. 5 or 5 LPA";
+  if (expectedCTC && !CTC_PATTERN.test(expectedCTC.trim())) errors.expectedCTC = "Must be a number, e.g. 7 or 7 LPA";
+  return errors;
+};
+
+export const hasErrors = (errors: RowErrors) => Object.keys(errors).length > 0;
+
+// The clean rows as the .xlsx workbook the bulk import endpoint takes, headed
+// by the field keys like the sample format file
+export const toImportFile = (rows: ImportValues[], name: string) => {
+  const header = IMPORT_FIELDS.map(({ key }) => key);
+  const cells = rows.map((values) => IMPORT_FIELDS.map(({ key }) => values[key].trim()));
+  return new File([writeXlsx([header, ...cells])], name, { type: XLSX_TYPE });
+};
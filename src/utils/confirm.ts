@@ -0,0 +1,46 @@
+import type { ReactNode } from "react";
+
+export interface ConfirmOptions {
+  title: string;
+  message: ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  // "danger" paints the confirm button red, for deletes
+  tone?: "danger" | "default";
+}
+
+export interface ConfirmRequest extends ConfirmOptions {
+  id: number;
+  settle: (confirmed: boolean) => void;
+}
+
+// Open confirmations, rendered by <ConfirmDialogHost /> in App. Kept outside
+// React so handlers can simply `await confirm(...)`.
+let requests: ConfirmRequest[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+// Ask the user to confirm an action. Resolves true on confirm and false on
+// cancel, Esc or a backdrop click.
+export const confirm = (options: ConfirmOptions) =>
+  new Promise<boolean>((resolve) => {
+    const id = nextId++;
+    const settle = (confirmed: boolean) => {
+      requests = requests.filter((request) => request.id !== id);
+      emit();
+      resolve(confirmed);
+    };
+    requests = [...requests, { ...options, id, settle }];
+    emit();
+  });
+
+export const subscribeToConfirms = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getConfirmRequests = () => requests;
@@ -0,0 +1,46 @@
+// The backend sends dates as ISO strings ("2025-01-31" or
+// "2025-01-31T10:15:00"). Anything unparseable is shown as it came.
+export const parseDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+
+  // A bare date means that day where the user is; `new Date` would read it
+  // as UTC midnight and show the day before west of Greenwich
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (dateOnly) return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const toTimestamp = (value: string | null | undefined) => parseDate(value)?.getTime();
+
+// "YYYY-MM-DD" in local time, the format of <input type="date"> and of the
+// backend's date fields. Keys compare correctly as plain strings.
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const dateKeyOf = (value: string | null | undefined) => {
+  const date = parseDate(value);
+  return date ? toDateKey(date) : undefined;
+};
+
+export const todayKey = () => toDateKey(new Date());
+
+// Calendar days, so a shift across a DST change still lands on the same time
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(date.getDate() + days);
+  return next;
+};
+
+export const formatDate = (value: string | null | undefined) =>
+  parseDate(value)?.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" }) ?? value ?? "";
+
+export const formatDateTime = (value: string | null | undefined) =>
+  parseDate(value)?.toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }) ?? value ?? "";
@@ -0,0 +1,29 @@
+// Save a blob through a temporary link, the way the browser saves any file
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const raw = value == null ? "" : String(value);
+  // A leading apostrophe makes Excel show the text instead of evaluating it
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Rows as CSV text, quoting only the cells that need it and defusing any
+// that would run as a formula
+export const toCsv = (rows: unknown[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+export const downloadCsv = (rows: unknown[][], filename: string) =>
+  // The BOM makes Excel read the file as UTF-8
+  downloadBlob(new Blob(["\uFEFF", toCsv(rows)], { type: "text/csv;charset=utf-8;" }), filename);
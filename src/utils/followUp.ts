@@ -0,0 +1,17 @@
+import type { TicketResponse } from "../api/models/TicketResponse";
+import { dateKeyOf, todayKey } from "./date";
+import { FINAL_TICKET_STATUSES, toTicketStatus } from "./ticketStatus";
+
+export type FollowUpState = "overdue" | "today" | "upcoming";
+
+// Where a ticket's next follow up stands. Finished tickets and tickets
+// without a date have nothing to follow up.
+export const followUpState = (ticket: TicketResponse, today = todayKey()): FollowUpState | undefined => {
+  const status = toTicketStatus(ticket.status);
+  if (status && FINAL_TICKET_STATUSES.includes(status)) return undefined;
+
+  const due = dateKeyOf(ticket.nextFollowUpDate);
+  if (!due) return undefined;
+  if (due < today) return "overdue";
+  return due === today ? "today" : "upcoming";
+};
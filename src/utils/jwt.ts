@@ -0,0 +1,58 @@
+// Claims the backend puts in the JWT. Older tokens carry the user id in
+// different places, so every id-bearing claim is optional.
+export interface JwtClaims {
+  sub?: string;
+  iat?: number;
+  exp?: number;
+  id?: number;
+  userId?: number;
+  UserAuthDetails?: {
+    id?: number;
+    email?: string;
+    departmentId?: number;
+  };
+}
+
+// Decode the payload segment of a JWT. Returns null for anything that is not
+// a well-formed token instead of throwing.
+export const decodeJwt = (token: string): JwtClaims | null => {
+  try {
+    const rawToken = token.replace(/^Bearer\s+/i, "");
+    const payload = rawToken.split(".")[1];
+    if (!payload) return null;
+
+    // JWTs use base64url; atob only understands plain base64
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    return JSON.parse(atob(padded)) as JwtClaims;
+  } catch (error) {
+    console.error("Error decoding token:", error);
+    return null;
+  }
+};
+
+// Resolve the user id from whichever claim the token carries it in
+export const getUserIdFromClaims = (claims: JwtClaims | null): number | null => {
+  if (!claims) return null;
+
+  if (claims.UserAuthDetails?.id) return claims.UserAuthDetails.id;
+  if (claims.id) return claims.id;
+  if (claims.userId) return claims.userId;
+  if (claims.sub) {
+    const parsed = parseInt(claims.sub);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  return null;
+};
+
+// Expiry of the token in epoch milliseconds, or null when it has no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const claims = decodeJwt(token);
+  return claims?.exp ? claims.exp * 1000 : null;
+};
+
+export const isTokenExpired = (token: string, now: number = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+};
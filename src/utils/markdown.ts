@@ -0,0 +1,89 @@
+import { MENTION_PATTERN } from "./mentions";
+
+// The small slice of markdown comments use: paragraphs, bullet and numbered
+// lists, quotes, **bold**, *italic*, `code`, [links](https://...) and
+// mentions. Parsed into a tree and rendered as React elements, never as HTML.
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "mention"; userId: number; name: string };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; lines: MarkdownInline[][] }
+  | { type: "quote"; lines: MarkdownInline[][] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`]+)`/.source,
+    /\*\*(.+?)\*\*/.source,
+    MENTION_PATTERN.source,
+    // Only web links; anything else stays text
+    /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/.source,
+    /(?:\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_)/.source,
+  ].join("|"),
+  "g"
+);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push({ type: "text", text: text.slice(last, index) });
+    const [, code, strong, mentionName, mentionId, linkText, href, star, underscore] = match;
+
+    if (code !== undefined) nodes.push({ type: "code", text: code });
+    else if (strong !== undefined) nodes.push({ type: "strong", children: parseInline(strong) });
+    else if (mentionId !== undefined) nodes.push({ type: "mention", userId: Number(mentionId), name: mentionName });
+    else if (href !== undefined) nodes.push({ type: "link", href, children: parseInline(linkText) });
+    else nodes.push({ type: "em", children: parseInline(star ?? underscore) });
+
+    last = index + match[0].length;
+  }
+  if (last < text.length) nodes.push({ type: "text", text: text.slice(last) });
+  return nodes;
+};
+
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  // Consecutive lines of the same kind make up one block
+  const append = (type: "paragraph" | "quote", line: string) => {
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === type) previous.lines.push(parseInline(line));
+    else blocks.push({ type, lines: [parseInline(line)] });
+  };
+  const appendItem = (ordered: boolean, item: string) => {
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === "list" && previous.ordered === ordered) previous.items.push(parseInline(item));
+    else blocks.push({ type: "list", ordered, items: [parseInline(item)] });
+  };
+
+  let blank = false;
+  for (const line of source.replace(/\r\n?/g, "\n").split("\n")) {
+    if (!line.trim()) {
+      blank = true;
+      continue;
+    }
+    // A blank line ends the block, even between two paragraphs
+    if (blank) blocks.push({ type: "paragraph", lines: [] });
+    blank = false;
+
+    const bullet = BULLET.exec(line);
+    const numbered = NUMBERED.exec(line);
+    const quote = QUOTE.exec(line);
+    if (bullet) appendItem(false, bullet[1]);
+    else if (numbered) appendItem(true, numbered[1]);
+    else if (quote) append("quote", quote[1]);
+    else append("paragraph", line);
+  }
+  // Drop the separators that no line followed into
+  return blocks.filter((block) => block.type !== "paragraph" || block.lines.length > 0);
+};
@@ -0,0 +1,20 @@
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+
+// Mentions are stored in the comment text as `@[Name](userId)`, so the name
+// shown stays readable even where the text isn't rendered
+export const MENTION_PATTERN = /@\[([^\]]+)\]\((\d+)\)/g;
+
+export const mentionToken = (user: Pick<UserDetailResponse, "id" | "name">) =>
+  `@[${(user.name ?? "").replace(/[[\]]/g, "")}](${user.id})`;
+
+export const mentionedUserIds = (body: string) => [
+  ...new Set([...body.matchAll(MENTION_PATTERN)].map((match) => Number(match[2]))),
+];
+
+// The "@jan" being typed just before the caret, if any. Only counts after
+// whitespace or at the start, so email addresses don't open the picker.
+export const activeMention = (text: string, caret: number) => {
+  const match = /(^|\s)@([^\s@[\]()]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
@@ -0,0 +1,51 @@
+import type { MenuListResponse } from "../api/generated/models/MenuListResponse";
+
+// Menu and submenu urls are stored by admins, so tolerate stray slashes and
+// casing differences
+const normalizeSegment = (segment?: string) => (segment ?? "").trim().replace(/^\/+|\/+$/g, "").toLowerCase();
+
+// Paths (relative to /home) the user is granted. A menu with submenus grants
+// "<menu>/<submenu>" for each of them, a menu without submenus grants "<menu>".
+// This mirrors how the sidebar builds its links.
+export const buildAllowedRoutes = (menulist: MenuListResponse[] = []): Set<string> => {
+  const allowed = new Set<string>();
+
+  for (const menu of menulist) {
+    const menuUrl = normalizeSegment(menu.url);
+    if (!menuUrl) continue;
+
+    if (menu.submenulist && menu.submenulist.length > 0) {
+      for (const sub of menu.submenulist) {
+        const subUrl = normalizeSegment(sub.url);
+        if (subUrl) allowed.add(`${menuUrl}/${subUrl}`);
+      }
+    } else {
+      allowed.add(menuUrl);
+    }
+  }
+
+  return allowed;
+};
+
+// Strip the /home prefix so a pathname can be looked up in the allowed set
+export const toMenuPath = (pathname: string): string =>
+  normalizeSegment(pathname.replace(/^\/?home(\/|$)/i, ""));
+
+// Pages that have no menu entry of their own. They are open to whoever is
+// granted the list they are reached from.
+const DETAIL_ROUTES: { pattern: RegExp; grantedBy: string }[] = [
+  { pattern: /^ticket\/\d+$/, grantedBy: "ticket/show" },
+  { pattern: /^ticket\/assignment-rules$/, grantedBy: "ticket/show" },
+  { pattern: /^ticket\/sla-policies$/, grantedBy: "ticket/show" },
+  { pattern: /^ticket\/workload$/, grantedBy: "ticket/show" },
+  { pattern: /^candidate\/pipeline$/, grantedBy: "candidate/show" },
+  { pattern: /^candidate\/duplicates$/, grantedBy: "candidate/show" },
+  { pattern: /^candidate\/import$/, grantedBy: "candidate/add" },
+];
+
+// The dashboard landing page is open to every logged in user
+export const isPathAllowed = (pathname: string, allowed: Set<string>): boolean => {
+  const path = toMenuPath(pathname);
+  if (path === "" || allowed.has(path)) return true;
+  return DETAIL_ROUTES.some(({ pattern, grantedBy }) => pattern.test(path) && allowed.has(grantedBy));
+};
@@ -0,0 +1,14 @@
+import { toast } from "react-hot-toast";
+import { AppError } from "../api/AppError";
+
+// The one way pages report a failed call: normalize it, log the original and
+// toast the message. Cancelled requests (e.g. dropped on logout) stay silent,
+// and the same message is only shown once at a time.
+export const notifyError = (error: unknown, fallbackMessage: string): AppError => {
+  const appError = AppError.from(error, fallbackMessage);
+  if (appError.isCancelled) return appError;
+
+  console.error(appError.message, appError.cause ?? appError);
+  toast.error(appError.message, { id: `error:${appError.message}` });
+  return appError;
+};
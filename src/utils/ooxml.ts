@@ -0,0 +1,149 @@
+// Office Open XML files (.xlsx, .docx) are zip archives of XML parts. The zip
+// is unpacked with the browser's DecompressionStream and the parts are read
+// with DOMParser, so no library is needed to get at their text. Writing stores
+// the parts uncompressed, which every reader accepts.
+
+// Not a zip, or one this reader can't unpack
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+// Part path -> reader for its text; parts are only unpacked when read
+export type ZipEntries = Map<string, () => Promise<string>>;
+
+export const decompress = async (bytes: Uint8Array, format: CompressionFormat) =>
+  new Uint8Array(
+    await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format))).arrayBuffer()
+  );
+
+export const readZip = (buffer: ArrayBuffer): ZipEntries => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipError("Not a zip archive");
+
+  const entries: ZipEntries = new Map();
+  let offset = view.getUint32(end + 16, true);
+  for (let n = view.getUint16(end + 10, true); n > 0; n--) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new ZipError("Damaged zip directory");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, async () => {
+      if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new ZipError("Damaged zip entry");
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === STORED) return decoder.decode(data);
+      if (method === DEFLATED) return decoder.decode(await decompress(data, "deflate-raw"));
+      throw new ZipError("Unsupported zip compression method");
+    });
+  }
+  return entries;
+};
+
+// ---- Writing ----
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01, the earliest date a zip can hold; the parts carry no real time
+const DOS_DATE = (1 << 5) | 1;
+const UTF8_NAMES = 0x0800;
+
+// Part path -> text, written in order
+export const writeZip = (parts: [name: string, text: string][]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const entries = parts.map(([name, text]) => {
+    const data = encoder.encode(text);
+    return { name: encoder.encode(name), data, crc: crc32(data), offset: 0 };
+  });
+  const localSize = entries.reduce((sum, { name, data }) => sum + 30 + name.length + data.length, 0);
+  const directorySize = entries.reduce((sum, { name }) => sum + 46 + name.length, 0);
+  const buffer = new ArrayBuffer(localSize + directorySize + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let offset = 0;
+  for (const entry of entries) {
+    entry.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, UTF8_NAMES, true);
+    view.setUint16(offset + 8, STORED, true);
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  for (const entry of entries) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_NAMES, true);
+    view.setUint16(offset + 10, STORED, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    view.setUint32(offset + 42, entry.offset, true);
+    bytes.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, directorySize, true);
+  view.setUint32(offset + 16, localSize, true);
+  return buffer;
+};
+
+export const escapeXml = (text: string) =>
+  text.replace(/[&<>"]/g, (char) => `&${{ "&": "amp", "<": "lt", ">": "gt", '"': "quot" }[char]};`);
+
+export const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+// Elements by local name, whatever prefix the writer gave the namespace
+export const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", name));
+
+export const child = (parent: Element, name: string) => elements(parent, name)[0];
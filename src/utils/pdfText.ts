@@ -0,0 +1,404 @@
+import { decompress } from "./ooxml";
+
+// Best-effort plain text of a PDF, read in the browser. It follows the page
+// tree, inflates the content streams and decodes the shown strings through
+// each font's ToUnicode map. That is enough for the resumes word processors
+// and online builders export; scanned resumes have no text to find.
+
+// Password protected; the content can't be read without decrypting it
+export class PdfEncryptedError extends Error {
+  constructor() {
+    super("The PDF is password protected");
+    this.name = "PdfEncryptedError";
+  }
+}
+
+interface PdfObject {
+  dict: string;
+  // Still encoded; see decodeStream
+  stream?: Uint8Array;
+}
+
+interface PdfFont {
+  cmap?: CMap;
+  // Type0 fonts use multi-byte codes that mean nothing without a ToUnicode map
+  composite: boolean;
+}
+
+interface CMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "op"; value: string }
+  | { kind: "[" | "]" };
+
+// Guards against ranges in broken or hostile ToUnicode maps
+const MAX_CMAP_RANGE = 0x10000;
+// Kerning in a TJ array wider than this (thousandths of an em) is a word gap
+const WORD_GAP = 250;
+
+// PDFs are binary; one char per byte keeps offsets and keywords intact
+const toBinaryString = (bytes: Uint8Array) => {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+const toBytes = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const refsIn = (text: string) => [...text.matchAll(/(\d+)\s+\d+\s+R\b/g)].map((match) => Number(match[1]));
+
+const parseObjects = (source: string) => {
+  const objects = new Map<number, PdfObject>();
+  const pattern = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const start = pattern.lastIndex;
+    const endObj = source.indexOf("endobj", start);
+    const streamAt = source.indexOf("stream", start);
+
+    if (streamAt < 0 || (endObj >= 0 && endObj < streamAt)) {
+      objects.set(Number(match[1]), { dict: source.slice(start, endObj < 0 ? undefined : endObj) });
+      if (endObj >= 0) pattern.lastIndex = endObj;
+      continue;
+    }
+
+    const dict = source.slice(start, streamAt);
+    let dataStart = streamAt + "stream".length;
+    if (source[dataStart] === "\r") dataStart++;
+    if (source[dataStart] === "\n") dataStart++;
+    // Trust a direct /Length only when endstream really follows it
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    let dataEnd = length ? dataStart + Number(length[1]) : -1;
+    if (dataEnd < 0 || !/^\s*endstream/.test(source.slice(dataEnd, dataEnd + 20))) {
+      dataEnd = source.indexOf("endstream", dataStart);
+      if (dataEnd < 0) break;
+      while (dataEnd > dataStart && /[\r\n]/.test(source[dataEnd - 1])) dataEnd--;
+    }
+    objects.set(Number(match[1]), { dict, stream: toBytes(source.slice(dataStart, dataEnd)) });
+    pattern.lastIndex = dataEnd;
+  }
+  return objects;
+};
+
+const decodeStream = async ({ dict, stream }: PdfObject) => {
+  if (!stream) return undefined;
+  const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1].match(/\/\w+/g) ?? [];
+  if (filters.length === 0) return toBinaryString(stream);
+  // Text lives in Flate streams; images and exotic filters are left alone
+  if (filters.length > 1 || filters[0] !== "/FlateDecode") return undefined;
+  try {
+    return toBinaryString(await decompress(stream, "deflate"));
+  } catch {
+    return undefined;
+  }
+};
+
+// Object streams pack many small objects, often the fonts, into one stream
+const unpackObjectStreams = async (objects: Map<number, PdfObject>) => {
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(object.dict)) continue;
+    const decoded = await decodeStream(object);
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1]);
+    if (decoded === undefined || Number.isNaN(first)) continue;
+    const header = decoded.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      const end = i + 3 < header.length ? first + header[i + 3] : undefined;
+      if (!objects.has(header[i])) objects.set(header[i], { dict: decoded.slice(first + header[i + 1], end) });
+    }
+  }
+};
+
+// The value of /key in a dictionary: a nested << >> dictionary, an array, or
+// the dictionary of the object it refers to
+const entry = (objects: Map<number, PdfObject>, dict: string, key: string): string | undefined => {
+  const at = dict.search(new RegExp(`/${key}(?![\\w])`));
+  if (at < 0) return undefined;
+  let i = at + key.length + 1;
+  while (/\s/.test(dict[i] ?? "")) i++;
+
+  if (dict.startsWith("<<", i)) {
+    let depth = 0;
+    for (let j = i; j < dict.length - 1; j++) {
+      if (dict.startsWith("<<", j)) {
+        depth++;
+        j++;
+      } else if (dict.startsWith(">>", j)) {
+        depth--;
+        j++;
+        if (depth === 0) return dict.slice(i, j + 1);
+      }
+    }
+    return undefined;
+  }
+  if (dict[i] === "[") return dict.slice(i, dict.indexOf("]", i) + 1);
+  const ref = dict.slice(i).match(/^(\d+)\s+\d+\s+R/);
+  return ref ? objects.get(Number(ref[1]))?.dict : undefined;
+};
+
+const utf16 = (hex: string) => {
+  if (hex.length <= 2) return String.fromCharCode(parseInt(hex || "0", 16));
+  let text = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return text;
+};
+
+const parseCMap = (source: string): CMap => {
+  const codespace = source.match(/begincodespacerange\s*<([0-9a-f]+)>/i)?.[1];
+  const map = new Map<number, string>();
+
+  for (const [, block] of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      map.set(parseInt(code, 16), utf16(unicode));
+    }
+  }
+  for (const [, block] of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const from = parseInt(low, 16);
+      const to = Math.min(parseInt(high, 16), from + MAX_CMAP_RANGE);
+      if (target.startsWith("[")) {
+        [...target.matchAll(/<([0-9a-f]*)>/gi)].forEach(([, unicode], offset) => map.set(from + offset, utf16(unicode)));
+        continue;
+      }
+      const base = utf16(target.slice(1, -1));
+      for (let code = from; code <= to; code++) {
+        const last = base.charCodeAt(base.length - 1) + code - from;
+        map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+      }
+    }
+  }
+  return { codeLength: codespace ? Math.max(1, codespace.length / 2) : 2, map };
+};
+
+const readFonts = async (objects: Map<number, PdfObject>, resources: string | undefined) => {
+  const fonts = new Map<string, PdfFont>();
+  const fontDict = resources && entry(objects, resources, "Font");
+  if (!fontDict) return fonts;
+
+  for (const [, name, ref] of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(ref));
+    if (!font) continue;
+    const toUnicode = font.dict.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/)?.[1];
+    const cmapObject = toUnicode ? objects.get(Number(toUnicode)) : undefined;
+    const cmapSource = cmapObject && (await decodeStream(cmapObject));
+    fonts.set(name, {
+      cmap: cmapSource ? parseCMap(cmapSource) : undefined,
+      composite: /\/Subtype\s*\/Type0\b/.test(font.dict),
+    });
+  }
+  return fonts;
+};
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+const DELIMITERS = "()<>[]{}/%";
+
+const isRegular = (char: string | undefined) => !!char && !/\s/.test(char) && !DELIMITERS.includes(char);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "%") {
+      while (i < source.length && source[i] !== "\n" && source[i] !== "\r") i++;
+    } else if (char === "(") {
+      let depth = 1;
+      let value = "";
+      i++;
+      while (i < source.length && depth > 0) {
+        const c = source[i++];
+        if (c === "\\") {
+          const next = source[i++];
+          if (next in ESCAPES) value += ESCAPES[next];
+          else if (/[0-7]/.test(next)) {
+            let octal = next;
+            while (octal.length < 3 && /[0-7]/.test(source[i])) octal += source[i++];
+            value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          } else if (next === "\r") {
+            if (source[i] === "\n") i++;
+          } else if (next !== "\n") value += next;
+        } else {
+          if (c === "(") depth++;
+          if (c === ")") depth--;
+          if (depth > 0) value += c;
+        }
+      }
+      tokens.push({ kind: "string", value });
+    } else if (source.startsWith("<<", i) || source.startsWith(">>", i)) {
+      i += 2;
+    } else if (char === "<") {
+      const end = source.indexOf(">", i);
+      const hex = source.slice(i + 1, end < 0 ? undefined : end).replace(/[^0-9a-f]/gi, "");
+      let value = "";
+      for (let j = 0; j < hex.length; j += 2) value += String.fromCharCode(parseInt(hex.slice(j, j + 2).padEnd(2, "0"), 16));
+      tokens.push({ kind: "string", value });
+      i = end < 0 ? source.length : end + 1;
+    } else if (char === "[" || char === "]") {
+      tokens.push({ kind: char });
+      i++;
+    } else if (char === "/") {
+      let value = "";
+      i++;
+      while (isRegular(source[i])) value += source[i++];
+      tokens.push({ kind: "name", value });
+    } else if (!isRegular(char)) {
+      i++;
+    } else {
+      let value = "";
+      while (isRegular(source[i])) value += source[i++];
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(value)) {
+        tokens.push({ kind: "number", value: Number(value) });
+      } else if (value === "ID") {
+        // Inline image data is binary; resume after its EI
+        const end = source.slice(i).search(/\sEI(\s|$)/);
+        i = end < 0 ? source.length : i + end + 3;
+      } else {
+        tokens.push({ kind: "op", value });
+      }
+    }
+  }
+  return tokens;
+};
+
+const showString = (raw: string, font: PdfFont | undefined) => {
+  if (!font?.cmap) return font?.composite ? "" : raw;
+  const { codeLength, map } = font.cmap;
+  let text = "";
+  for (let i = 0; i + codeLength <= raw.length; i += codeLength) {
+    let code = 0;
+    for (let j = 0; j < codeLength; j++) code = code * 256 + raw.charCodeAt(i + j);
+    text += map.get(code) ?? "";
+  }
+  return text;
+};
+
+// Runs the text operators of a content stream. Lines break where the text
+// position moves vertically; other moves become a space.
+const contentText = (source: string, fonts: Map<string, PdfFont>) => {
+  let text = "";
+  let operands: Token[] = [];
+  let font: PdfFont | undefined;
+  let y = 0;
+  let shownY: number | undefined;
+  let moved = false;
+  let newLine = false;
+
+  const show = (value: string) => {
+    if (!value) return;
+    if (text && (newLine || (shownY !== undefined && Math.abs(y - shownY) > 1))) text += "\n";
+    else if (moved) text += " ";
+    text += value;
+    shownY = y;
+    moved = false;
+    newLine = false;
+  };
+  const number = (index: number) => {
+    const token = operands.at(index);
+    return token?.kind === "number" ? token.value : 0;
+  };
+  const lastString = () => {
+    const token = [...operands].reverse().find((t) => t.kind === "string");
+    return token?.kind === "string" ? token.value : "";
+  };
+
+  for (const token of tokenize(source)) {
+    if (token.kind !== "op") {
+      operands.push(token);
+      continue;
+    }
+    switch (token.value) {
+      case "Tf": {
+        const name = operands.find((t) => t.kind === "name");
+        font = name?.kind === "name" ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case "Tm":
+        y = number(-1);
+        moved = true;
+        break;
+      case "Td":
+      case "TD":
+        y += number(-1);
+        moved = true;
+        break;
+      case "T*":
+        newLine = true;
+        break;
+      case "'":
+      case '"':
+        newLine = true;
+        show(showString(lastString(), font));
+        break;
+      case "Tj":
+        show(showString(lastString(), font));
+        break;
+      case "TJ":
+        show(
+          operands
+            .map((t) =>
+              t.kind === "string" ? showString(t.value, font) : t.kind === "number" && t.value < -WORD_GAP ? " " : ""
+            )
+            .join("")
+        );
+        break;
+    }
+    operands = [];
+  }
+  return text;
+};
+
+// Pages in reading order, each with the resources it inherits
+const pageTree = (objects: Map<number, PdfObject>) => {
+  const pages: { dict: string; resources?: string }[] = [];
+  const visit = (id: number, inherited: string | undefined, seen: Set<number>) => {
+    const node = objects.get(id);
+    if (!node || seen.has(id)) return;
+    seen.add(id);
+    const resources = entry(objects, node.dict, "Resources") ?? inherited;
+    const kids = entry(objects, node.dict, "Kids");
+    if (kids) refsIn(kids).forEach((kid) => visit(kid, resources, seen));
+    else pages.push({ dict: node.dict, resources });
+  };
+
+  const catalog = [...objects.values()].find((object) => /\/Type\s*\/Catalog\b/.test(object.dict));
+  const root = catalog?.dict.match(/\/Pages\s+(\d+)\s+\d+\s+R/)?.[1];
+  if (root) visit(Number(root), undefined, new Set());
+  if (pages.length) return pages;
+
+  // No usable page tree: fall back to every page object in file order
+  return [...objects.values()]
+    .filter((object) => /\/Type\s*\/Page(?![s\w])/.test(object.dict))
+    .map((object) => ({ dict: object.dict, resources: entry(objects, object.dict, "Resources") }));
+};
+
+export const extractPdfText = async (buffer: ArrayBuffer) => {
+  const source = toBinaryString(new Uint8Array(buffer));
+  if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(source)) throw new PdfEncryptedError();
+  const objects = parseObjects(source);
+  await unpackObjectStreams(objects);
+
+  const text: string[] = [];
+  for (const page of pageTree(objects)) {
+    const fonts = await readFonts(objects, page.resources);
+    const contents = page.dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] ?? "";
+    for (const id of refsIn(contents)) {
+      const object = objects.get(id);
+      const source = object && (await decodeStream(object));
+      if (source) text.push(contentText(source, fonts));
+    }
+  }
+  return text
+    .join("\n")
+    .replaceAll("\u0000", "")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+};
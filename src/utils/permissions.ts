@@ -0,0 +1,63 @@
+// Named capabilities checked by the UI. Roles are mapped to a subset of these
+// from the Role pages; see resolvePermissions for how a user's set is built.
+export const PERMISSIONS = [
+  { key: "ticket.assign", label: "Re-assign tickets", group: "Tickets" },
+  { key: "ticket.rebalance", label: "Rebalance tickets between users on the workload page", group: "Tickets" },
+  { key: "ticket.delete", label: "Delete tickets", group: "Tickets" },
+  { key: "ticket.reopen", label: "Reopen completed or closed tickets", group: "Tickets" },
+  { key: "ticket.assignment-rules", label: "Manage auto-assignment rules", group: "Tickets" },
+  { key: "ticket.sla", label: "Manage SLA policies and escalate breaches", group: "Tickets" },
+  { key: "candidate.edit", label: "Edit candidates", group: "Candidates" },
+  { key: "candidate.delete", label: "Delete candidates", group: "Candidates" },
+  { key: "candidate.import", label: "Download the candidate import template", group: "Candidates" },
+  { key: "candidate.pipeline", label: "Edit the recruiting pipeline", group: "Candidates" },
+  { key: "candidate.merge", label: "Merge duplicate candidates", group: "Candidates" },
+  { key: "company.manage", label: "Edit and delete companies", group: "Administration" },
+  { key: "company.view-all", label: "See users across companies", group: "Administration" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map((p) => p.key);
+
+// Built-in department ids
+export const SUPER_ADMIN_DEPARTMENT_ID = 1;
+export const ADMIN_DEPARTMENT_ID = 2;
+
+// What a department gets while its role has no mapping saved yet. This keeps
+// the behaviour of the old hard-coded Super Admin / Admin checks.
+const DEPARTMENT_DEFAULTS: Record<number, Permission[]> = {
+  [SUPER_ADMIN_DEPARTMENT_ID]: ALL_PERMISSIONS,
+  [ADMIN_DEPARTMENT_ID]: [
+    "ticket.assign",
+    "ticket.rebalance",
+    "ticket.delete",
+    "ticket.reopen",
+    "ticket.assignment-rules",
+    "ticket.sla",
+    "candidate.edit",
+    "candidate.delete",
+    "candidate.import",
+    "candidate.pipeline",
+    "candidate.merge",
+  ],
+};
+
+const BASELINE_PERMISSIONS: Permission[] = ["ticket.assign"];
+
+export const isPermission = (value: string): value is Permission =>
+  (ALL_PERMISSIONS as string[]).includes(value);
+
+// A saved role mapping wins. Without one, fall back to the department
+// defaults. Super Admin always keeps everything so nobody can lock the
+// administrators out of the Role pages.
+export const resolvePermissions = (
+  rolePermissions: string[] | null | undefined,
+  departmentId: number | null | undefined
+): Set<Permission> => {
+  if (departmentId === SUPER_ADMIN_DEPARTMENT_ID) return new Set(ALL_PERMISSIONS);
+
+  if (rolePermissions) return new Set(rolePermissions.filter(isPermission));
+
+  return new Set((departmentId && DEPARTMENT_DEFAULTS[departmentId]) || BASELINE_PERMISSIONS);
+};
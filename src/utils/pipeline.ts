@@ -0,0 +1,57 @@
+import type { PipelineResponse } from "../api/models/PipelineResponse";
+import type { PipelineStage } from "../api/models/PipelineStage";
+
+// Where a stage leaves the candidate: still in the running, hired, or out
+export const STAGE_KINDS = ["OPEN", "HIRED", "REJECTED"] as const;
+export type StageKind = (typeof STAGE_KINDS)[number];
+
+export const STAGE_KIND_LABELS: Record<StageKind, string> = {
+  OPEN: "In progress",
+  HIRED: "Hired",
+  REJECTED: "Rejected",
+};
+
+export const isStageKind = (value: string | undefined): value is StageKind =>
+  (STAGE_KINDS as readonly string[]).includes(value ?? "");
+
+// What a company works with until an admin edits its pipeline
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { key: "SOURCED", label: "Sourced", kind: "OPEN" },
+  { key: "SCREENED", label: "Screened", kind: "OPEN" },
+  { key: "INTERVIEW", label: "Interview", kind: "OPEN" },
+  { key: "OFFER", label: "Offer", kind: "OPEN" },
+  { key: "JOINED", label: "Joined", kind: "HIRED" },
+  { key: "REJECTED", label: "Rejected", kind: "REJECTED" },
+];
+
+export const DEFAULT_REJECTION_REASONS = [
+  "Skills mismatch",
+  "Salary expectations",
+  "Notice period too long",
+  "Did not clear interview",
+  "Candidate withdrew",
+  "Not reachable",
+  "Position filled",
+];
+
+export const pipelineStages = (pipeline: PipelineResponse | undefined) =>
+  pipeline?.stages?.length ? pipeline.stages : DEFAULT_PIPELINE_STAGES;
+
+export const rejectionReasons = (pipeline: PipelineResponse | undefined) =>
+  pipeline?.rejectionReasons?.length ? pipeline.rejectionReasons : DEFAULT_REJECTION_REASONS;
+
+export const findStage = (stages: PipelineStage[], key: string | null | undefined) =>
+  key ? stages.find((stage) => stage.key === key) : undefined;
+
+// Candidates keep the key of a stage that has since been removed; show it as
+// it was stored rather than hiding it
+export const stageLabel = (stages: PipelineStage[], key: string | null | undefined) =>
+  findStage(stages, key)?.label || key || "Not set";
+
+// Keys are derived from the first label a stage had and never change after
+export const stageKeyFor = (label: string, taken: string[]) => {
+  const base = label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "STAGE";
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+};
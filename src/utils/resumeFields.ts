@@ -0,0 +1,115 @@
+// Guesses candidate details from the plain text of a resume. These are only
+// suggestions: the add form shows each one and the user decides what to keep.
+
+export const SUGGESTION_FIELDS = [
+  { key: "name", label: "Name" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "experience", label: "Experience" },
+  { key: "skills", label: "Skills" },
+  { key: "linkedInProfile", label: "LinkedIn" },
+] as const;
+
+export type SuggestionField = (typeof SUGGESTION_FIELDS)[number]["key"];
+export type FieldSuggestions = Partial<Record<SuggestionField, string>>;
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+// An optional +country code, then 7-15 digits with the usual separators
+const PHONE_PATTERN = /(\+\d{1,3}[\s-]?)?\(?\d[\d\s\-().]{5,16}\d/g;
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/([\w%-]+)/i;
+const EXPERIENCE_PATTERNS = [
+  /(\d{1,2}(?:\.\d)?)\+?\s*(?:years?|yrs?)(?:\s+of)?(?:\s+\w+){0,3}\s+experience/i,
+  /experience\s*(?:of|:|-)?\s*(\d{1,2}(?:\.\d)?)\+?\s*(?:years?|yrs?)/i,
+];
+
+// Headings that end the skills section
+const SECTION_HEADINGS =
+  /^(experience|work experience|professional experience|employment|education|projects|certifications?|achievements|languages|interests|hobbies|summary|profile|objective|personal details)\s*:?$/i;
+const SKILLS_HEADING = /^(technical\s+|key\s+|core\s+)?skills(\s+set)?\s*:?\s*/i;
+const MAX_SKILLS = 20;
+
+// Used when the resume has no skills section
+const KNOWN_SKILLS = [
+  "Java", "Spring Boot", "Python", "Django", "JavaScript", "TypeScript", "React", "Angular", "Vue",
+  "Node.js", "Express", "HTML", "CSS", "SQL", "MySQL", "PostgreSQL", "MongoDB", "Redis", "AWS",
+  "Azure", "GCP", "Docker", "Kubernetes", "Git", "Jenkins", "Go", "C#", ".NET", "PHP", "Kotlin",
+  "Swift", "Flutter", "Android", "iOS", "Selenium", "Figma", "Power BI", "Tableau", "Excel",
+];
+
+const NOT_NAMES = /resume|curriculum|vitae|\bcv\b|biodata|profile|contact/i;
+
+const lines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+const findPhone = (text: string) =>
+  [...text.matchAll(PHONE_PATTERN)]
+    .map((match) => match[0].trim())
+    .find((phone) => {
+      const digits = phone.replace(/\D/g, "").length;
+      // Year ranges such as 2018 - 2021 look like phone numbers too
+      return digits >= 7 && digits <= 15 && !/^\d{4}\s*-\s*\d{4}$/.test(phone);
+    });
+
+// The first short line of words near the top, which is where resumes put the name
+const findName = (top: string[]) => {
+  const line = top.find(
+    (candidate) =>
+      !NOT_NAMES.test(candidate) &&
+      /^[\p{L}.' -]+$/u.test(candidate) &&
+      candidate.split(" ").length >= 2 &&
+      candidate.split(" ").length <= 4
+  );
+  if (!line) return undefined;
+  return line === line.toUpperCase() ? titleCase(line) : line;
+};
+
+const findExperience = (text: string) => {
+  for (const pattern of EXPERIENCE_PATTERNS) {
+    const years = text.match(pattern)?.[1];
+    if (years) return `${years} ${years === "1" ? "year" : "years"}`;
+  }
+  return undefined;
+};
+
+const splitSkills = (value: string) =>
+  value
+    .split(/[,;|•·\t]|\s-\s/)
+    .map((skill) => skill.replace(/^[-*–\s]+|[.\s]+$/g, "").replace(/^[^:]{1,30}:\s*/, ""))
+    .filter((skill) => skill.length > 0 && skill.length <= 40);
+
+const findSkills = (all: string[], text: string) => {
+  const start = all.findIndex((line) => SKILLS_HEADING.test(line) && line.replace(SKILLS_HEADING, "").length < 200);
+  if (start >= 0) {
+    const section = [all[start].replace(SKILLS_HEADING, "")];
+    for (const line of all.slice(start + 1)) {
+      if (SECTION_HEADINGS.test(line)) break;
+      section.push(line);
+    }
+    const skills = [...new Set(section.flatMap(splitSkills))].slice(0, MAX_SKILLS);
+    if (skills.length) return skills.join(", ");
+  }
+
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const found = KNOWN_SKILLS.filter((skill) => new RegExp(`(^|[^\\w.#+])${escape(skill)}($|[^\\w#+])`, "i").test(text));
+  return found.length ? found.join(", ") : undefined;
+};
+
+export const suggestCandidateFields = (text: string): FieldSuggestions => {
+  const all = lines(text);
+  const linkedIn = text.match(LINKEDIN_PATTERN)?.[1];
+  const suggestions: FieldSuggestions = {
+    name: findName(all.slice(0, 8)),
+    email: text.match(EMAIL_PATTERN)?.[0].toLowerCase(),
+    phone: findPhone(text),
+    experience: findExperience(text),
+    skills: findSkills(all, text),
+    linkedInProfile: linkedIn ? `https://www.linkedin.com/in/${linkedIn.replace(/\/$/, "")}` : undefined,
+  };
+  return Object.fromEntries(Object.entries(suggestions).filter(([, value]) => value)) as FieldSuggestions;
+};
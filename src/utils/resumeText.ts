@@ -0,0 +1,45 @@
+import { ZipError, elements, parseXml, readZip } from "./ooxml";
+import { PdfEncryptedError, extractPdfText } from "./pdfText";
+
+// A resume the browser can't get text out of; the message is meant for the user
+export class ResumeTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResumeTextError";
+  }
+}
+
+export const RESUME_EXTENSIONS = [".pdf", ".docx"];
+
+// Paragraph text of a .docx in document order, one paragraph per line
+const extractDocxText = async (buffer: ArrayBuffer) => {
+  const document = readZip(buffer).get("word/document.xml");
+  if (!document) throw new ResumeTextError("The file is not a valid .docx document");
+
+  let text = "";
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.localName === "t") text += child.textContent ?? "";
+      else if (child.localName === "tab") text += "\t";
+      else if (child.localName === "br" || child.localName === "cr") text += "\n";
+      else walk(child);
+      if (child.localName === "p") text += "\n";
+    }
+  };
+  const body = elements(parseXml(await document()), "body")[0];
+  if (body) walk(body);
+  return text;
+};
+
+export const extractResumeText = async (file: File) => {
+  const name = file.name.toLowerCase();
+  try {
+    if (name.endsWith(".pdf")) return await extractPdfText(await file.arrayBuffer());
+    if (name.endsWith(".docx")) return await extractDocxText(await file.arrayBuffer());
+  } catch (error) {
+    if (error instanceof PdfEncryptedError) throw new ResumeTextError("Password protected PDFs can't be read");
+    if (error instanceof ZipError) throw new ResumeTextError("The file is not a valid .docx document");
+    throw error;
+  }
+  throw new ResumeTextError(`Text can only be read from ${RESUME_EXTENSIONS.join(" and ")} resumes`);
+};
@@ -0,0 +1,23 @@
+import type { SavedViewResponse } from "../api/models/SavedViewResponse";
+
+export const SAVED_VIEW_SCOPES = ["TICKET", "CANDIDATE"] as const;
+export type SavedViewScope = (typeof SAVED_VIEW_SCOPES)[number];
+
+// The list page each scope's views open, relative to /home
+const SAVED_VIEW_PAGES: Record<SavedViewScope, string> = {
+  TICKET: "ticket/show",
+  CANDIDATE: "candidate/show",
+};
+
+// A view is the list's query string. The page number is left out so a view
+// always opens on its first page.
+export const toSavedViewQuery = (params: URLSearchParams) => {
+  const query = new URLSearchParams(params);
+  query.delete("page");
+  return query.toString();
+};
+
+export const savedViewLink = (scope: SavedViewScope, view: SavedViewResponse) => {
+  const query = view.query?.replace(/^\?/, "");
+  return `/home/${SAVED_VIEW_PAGES[scope]}${query ? `?${query}` : ""}`;
+};
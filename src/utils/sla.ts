@@ -0,0 +1,89 @@
+import type { SlaPolicyResponse } from "../api/models/SlaPolicyResponse";
+import type { TicketResponse } from "../api/models/TicketResponse";
+import { addDays, parseDate, toTimestamp } from "./date";
+import { toTicketStatus } from "./ticketStatus";
+
+export const SLA_METRICS = ["TIME_IN_STATUS", "FOLLOW_UP_OVERDUE"] as const;
+export type SlaMetric = (typeof SLA_METRICS)[number];
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  TIME_IN_STATUS: "Time in status",
+  FOLLOW_UP_OVERDUE: "Follow up overdue",
+};
+
+export const SLA_ESCALATIONS = ["FLAG", "REASSIGN"] as const;
+export type SlaEscalation = (typeof SLA_ESCALATIONS)[number];
+
+export const SLA_ESCALATION_LABELS: Record<SlaEscalation, string> = {
+  FLAG: "Flag to escalation contact",
+  REASSIGN: "Reassign to escalation contact",
+};
+
+export const isSlaMetric = (value: string | null | undefined): value is SlaMetric =>
+  (SLA_METRICS as readonly string[]).includes(value ?? "");
+
+export const isSlaEscalation = (value: string | null | undefined): value is SlaEscalation =>
+  (SLA_ESCALATIONS as readonly string[]).includes(value ?? "");
+
+export type SlaState = "ok" | "warning" | "breached";
+
+export interface TicketSla {
+  policy: SlaPolicyResponse;
+  state: SlaState;
+  dueAt: number;
+  // Negative once breached
+  remainingMs: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// When the policy's clock started for this ticket. A follow up is only
+// overdue once its whole day has passed.
+const clockStart = (ticket: TicketResponse, metric: SlaMetric) => {
+  if (metric === "TIME_IN_STATUS") return toTimestamp(ticket.statusChangedOn);
+  const followUp = parseDate(ticket.nextFollowUpDate);
+  return followUp ? addDays(followUp, 1).getTime() : undefined;
+};
+
+// The ticket's most pressing SLA: of the active policies for its status, the
+// one that falls due first. Tickets without the dates a policy needs aren't
+// measured by it.
+export const ticketSla = (
+  ticket: TicketResponse,
+  policies: SlaPolicyResponse[],
+  now = Date.now()
+): TicketSla | undefined => {
+  const status = toTicketStatus(ticket.status);
+  if (!status) return undefined;
+
+  let worst: TicketSla | undefined;
+  for (const policy of policies) {
+    if (policy.active === false || toTicketStatus(policy.status) !== status || !isSlaMetric(policy.metric)) continue;
+    const start = clockStart(ticket, policy.metric);
+    if (start === undefined) continue;
+
+    const dueAt = start + (policy.limitHours ?? 0) * HOUR;
+    const remainingMs = dueAt - now;
+    const state: SlaState =
+      remainingMs <= 0 ? "breached" : remainingMs <= (policy.warnHours ?? 0) * HOUR ? "warning" : "ok";
+    if (!worst || dueAt < worst.dueAt) worst = { policy, state, dueAt, remainingMs };
+  }
+  return worst;
+};
+
+// Breached and not escalated yet
+export const needsEscalation = (ticket: TicketResponse, sla: TicketSla | undefined) =>
+  sla?.state === "breached" && !ticket.escalatedOn;
+
+// "2d 4h", "5h 12m", "12m"
+export const formatDuration = (ms: number) => {
+  const minutes = Math.max(0, Math.floor(Math.abs(ms) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+};
+
+export const describeBreach = ({ policy, remainingMs }: TicketSla) =>
+  `${policy.name || "SLA"} breached ${formatDuration(remainingMs)} ago`;
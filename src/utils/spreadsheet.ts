@@ -0,0 +1,218 @@
+import { ZipError, child, elements, escapeXml, parseXml, readZip, writeZip, type ZipEntries } from "./ooxml";
+
+// Reads the first sheet of a .csv or .xlsx file into rows of cell text, in the
+// browser, and writes rows back out as a one-sheet .xlsx
+
+export type SheetRows = string[][];
+
+// A file the reader can't make sense of; the message is meant for the user
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+export const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx"];
+
+const extensionOf = (name: string) => `.${name.split(".").pop()?.toLowerCase() ?? ""}`;
+
+export const isBlankRow = (row: string[]) => row.every((cell) => cell.trim() === "");
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  const extension = extensionOf(file.name);
+  if (extension === ".csv") return parseCsv(await file.text());
+  if (extension === ".xlsx") {
+    try {
+      return await readXlsx(await file.arrayBuffer());
+    } catch (error) {
+      if (error instanceof ZipError) throw new SpreadsheetError("The file is not a valid .xlsx workbook");
+      throw error;
+    }
+  }
+  throw new SpreadsheetError(`Only ${SPREADSHEET_EXTENSIONS.join(" and ")} files can be imported`);
+};
+
+// ---- CSV ----
+
+// Excel writes `;` separated files in locales that use `,` as the decimal mark
+const guessDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+};
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and "" for a quote
+export const parseCsv = (input: string): SheetRows => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = guessDelimiter(text);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// ---- XLSX ----
+
+// Text of a shared or inline string, leaving out phonetic guides
+const richText = (item: Element) =>
+  elements(item, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+// "BC12" -> 54 (zero-based column of BC)
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// 54 -> "BC"
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+const cellText = (cell: Element, sharedStrings: string[]) => {
+  const value = child(cell, "v")?.textContent ?? "";
+  switch (cell.getAttribute("t")) {
+    case "s":
+      return sharedStrings[Number(value)] ?? "";
+    case "inlineStr":
+      return richText(child(cell, "is") ?? cell);
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE";
+    default:
+      return value;
+  }
+};
+
+const firstSheetPath = async (entries: ZipEntries) => {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = entries.get("xl/workbook.xml");
+  const relationships = entries.get("xl/_rels/workbook.xml.rels");
+  if (!workbook || !relationships) return fallback;
+
+  const sheet = elements(parseXml(await workbook()), "sheet")[0];
+  const id = sheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id");
+  const target = elements(parseXml(await relationships()), "Relationship")
+    .find((relationship) => relationship.getAttribute("Id") === id)
+    ?.getAttribute("Target");
+  if (!target) return fallback;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+};
+
+const readXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const entries = readZip(buffer);
+  const sheet = entries.get(await firstSheetPath(entries));
+  if (!sheet) throw new SpreadsheetError("The workbook has no sheets");
+
+  const sharedStringsPart = entries.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsPart ? elements(parseXml(await sharedStringsPart()), "si").map(richText) : [];
+
+  const rows: SheetRows = [];
+  for (const rowElement of elements(parseXml(await sheet()), "row")) {
+    // Rows and cells may be left out when empty, so place them by reference
+    const rowIndex = Number(rowElement.getAttribute("r") ?? rows.length + 1) - 1;
+    const row: string[] = [];
+    for (const cell of elements(rowElement, "c")) {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : row.length;
+      row[index] = cellText(cell, sharedStrings);
+    }
+    rows[rowIndex] = Array.from(row, (cell) => cell ?? "");
+  }
+  return Array.from(rows, (row) => row ?? []);
+};
+
+export const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// XML 1.0 has no way to write most control characters, even escaped
+const xmlText = (text: string) =>
+  escapeXml(
+    [...text]
+      .filter((char) => {
+        const code = char.charCodeAt(0);
+        return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+      })
+      .join("")
+  );
+
+// Every cell is an inline string, so values keep their exact text (leading
+// zeros, long numbers) and no shared strings part is needed
+const sheetXml = (rows: SheetRows) => {
+  const rowsXml = rows.map((row, r) => {
+    const cells = row.map(
+      (cell, c) =>
+        `<c r="${columnName(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${xmlText(cell)}</t></is></c>`
+    );
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>${rowsXml.join("")}</sheetData></worksheet>`;
+};
+
+export const writeXlsx = (rows: SheetRows, sheetName = "Sheet1"): ArrayBuffer =>
+  writeZip([
+    [
+      "[Content_Types].xml",
+      `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        "</Types>",
+    ],
+    [
+      "_rels/.rels",
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        "</Relationships>",
+    ],
+    [
+      "xl/workbook.xml",
+      `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+        `<sheets><sheet name="${xmlText(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>",
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        "</Relationships>",
+    ],
+    ["xl/worksheets/sheet1.xml", sheetXml(rows)],
+  ]);
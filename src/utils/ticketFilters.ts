@@ -0,0 +1,110 @@
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+import type { TicketPageFilters } from "../store/slices/apiSlice";
+import { describeRange, type ActiveFilter } from "./activeFilters";
+import { addDays, formatDate, toDateKey } from "./date";
+import { OPEN_STATUS_FILTER, statusFilterLabel } from "./ticketStatus";
+
+// Every filter the ticket list keeps in the URL, by the param it's stored under
+export const defaultTicketFilters: TicketPageFilters = {
+  search: "",
+  status: "",
+  assignedTo: "",
+  candidate: "",
+  followUpFrom: "",
+  followUpTo: "",
+  createdFrom: "",
+  createdTo: "",
+};
+
+// Saved views have to keep meaning the same thing tomorrow and for whoever
+// opens them, so the filters also take "me" for the assignee and dates
+// relative to today ("today", "today-1", "today+7")
+export const ASSIGNEE_ME = "me";
+
+const RELATIVE_DATE = /^today(?:([+-])(\d+))?$/;
+
+export const isRelativeDate = (value: string) => RELATIVE_DATE.test(value);
+
+export const resolveDateFilter = (value: string, today = new Date()) => {
+  const match = RELATIVE_DATE.exec(value);
+  if (!match) return value;
+  const days = match[2] ? Number(match[2]) * (match[1] === "-" ? -1 : 1) : 0;
+  return toDateKey(addDays(today, days));
+};
+
+// The filters as the server understands them
+export const resolveTicketFilters = (
+  filters: TicketPageFilters,
+  user: Pick<UserDetailResponse, "name" | "email"> | null | undefined,
+  today = new Date()
+): TicketPageFilters => ({
+  ...filters,
+  assignedTo: filters.assignedTo === ASSIGNEE_ME ? user?.email || user?.name || "" : filters.assignedTo,
+  followUpFrom: resolveDateFilter(filters.followUpFrom, today),
+  followUpTo: resolveDateFilter(filters.followUpTo, today),
+  createdFrom: resolveDateFilter(filters.createdFrom, today),
+  createdTo: resolveDateFilter(filters.createdTo, today),
+});
+
+// "me" only means something once the current user has loaded; asking before
+// then would list everyone's tickets and refetch a moment later
+export const awaitsCurrentUser = (
+  filters: Pick<TicketPageFilters, "assignedTo">,
+  user: Pick<UserDetailResponse, "name" | "email"> | null | undefined
+) => filters.assignedTo === ASSIGNEE_ME && !(user?.email || user?.name);
+
+export interface FollowUpPreset {
+  label: string;
+  from: string;
+  to: string;
+  // Set along with the dates; a finished ticket's follow up isn't due
+  status?: string;
+}
+
+export const FOLLOW_UP_PRESETS: FollowUpPreset[] = [
+  { label: "Overdue", from: "", to: "today-1", status: OPEN_STATUS_FILTER },
+  { label: "Due today", from: "today", to: "today", status: OPEN_STATUS_FILTER },
+  { label: "Next 7 days", from: "today", to: "today+7" },
+];
+
+const showDate = (value: string) => (isRelativeDate(value) ? value.replace(/([+-])/, " $1 ") : formatDate(value));
+
+// The filters a preset sets, and whether they're all in place
+export const followUpPresetFilters = ({ from, to, status }: FollowUpPreset): Partial<TicketPageFilters> => ({
+  followUpFrom: from,
+  followUpTo: to,
+  ...(status !== undefined && { status }),
+});
+
+export const isFollowUpPresetActive = (filters: TicketPageFilters, preset: FollowUpPreset) =>
+  Object.entries(followUpPresetFilters(preset)).every(([key, value]) => filters[key as keyof TicketPageFilters] === value);
+
+const describeDateRange = (from: string, to: string, presets: FollowUpPreset[] = []) =>
+  presets.find((p) => p.from === from && p.to === to)?.label ?? describeRange(from, to, showDate);
+
+export const describeTicketFilters = (filters: TicketPageFilters): ActiveFilter<TicketPageFilters>[] => {
+  const active: ActiveFilter<TicketPageFilters>[] = [];
+  if (filters.status) {
+    active.push({ label: `Status: ${statusFilterLabel(filters.status)}`, clear: { status: "" } });
+  }
+  if (filters.assignedTo) {
+    const assignee = filters.assignedTo === ASSIGNEE_ME ? "Me" : filters.assignedTo;
+    active.push({ label: `Assigned to: ${assignee}`, clear: { assignedTo: "" } });
+  }
+  if (filters.candidate) {
+    active.push({ label: `Candidate: ${filters.candidate}`, clear: { candidate: "" } });
+  }
+  if (filters.followUpFrom || filters.followUpTo) {
+    active.push({
+      label: `Follow up: ${describeDateRange(filters.followUpFrom, filters.followUpTo, FOLLOW_UP_PRESETS)}`,
+      clear: { followUpFrom: "", followUpTo: "" },
+    });
+  }
+  if (filters.createdFrom || filters.createdTo) {
+    active.push({
+      label: `Created: ${describeDateRange(filters.createdFrom, filters.createdTo)}`,
+      clear: { createdFrom: "", createdTo: "" },
+    });
+  }
+  return active;
+};
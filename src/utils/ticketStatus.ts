@@ -0,0 +1,126 @@
+// Ticket workflow. The backend stores the status as a plain string, so
+// everything that reads or writes one goes through this module.
+export const TICKET_STATUSES = ["OPEN", "INPROGRESS", "PENDING", "COMPLETED", "CLOSED"] as const;
+
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  OPEN: "Open",
+  INPROGRESS: "In Progress",
+  PENDING: "Pending",
+  COMPLETED: "Completed",
+  CLOSED: "Closed",
+};
+
+// Statuses a ticket may be created with
+export const INITIAL_TICKET_STATUSES: TicketStatus[] = ["OPEN", "INPROGRESS", "PENDING"];
+
+// Finished tickets. Moving out of one is a reopen and needs "ticket.reopen".
+export const FINAL_TICKET_STATUSES: TicketStatus[] = ["COMPLETED", "CLOSED"];
+
+// The `status` filter for tickets still being worked on
+export const OPEN_STATUS_FILTER = INITIAL_TICKET_STATUSES.join(",");
+
+const TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  OPEN: ["INPROGRESS", "PENDING", "CLOSED"],
+  INPROGRESS: ["PENDING", "COMPLETED", "CLOSED"],
+  PENDING: ["INPROGRESS", "COMPLETED", "CLOSED"],
+  COMPLETED: ["INPROGRESS"],
+  CLOSED: ["OPEN"],
+};
+
+export type TicketStatusField = "remarks" | "nextFollowUpDate";
+
+export const TICKET_STATUS_FIELD_LABELS: Record<TicketStatusField, string> = {
+  remarks: "Remarks",
+  nextFollowUpDate: "Next follow up date",
+};
+
+// Fields that must be filled in when a ticket enters the status. A pending
+// ticket needs a date to come back to it; finishing one needs a reason.
+const REQUIRED_FIELDS: Partial<Record<TicketStatus, TicketStatusField[]>> = {
+  PENDING: ["remarks", "nextFollowUpDate"],
+  COMPLETED: ["remarks"],
+  CLOSED: ["remarks"],
+};
+
+// Spellings found in older records and in the first version of the add form
+const LEGACY_STATUSES: Record<string, TicketStatus> = {
+  "IN PROGRESS": "INPROGRESS",
+  "IN_PROGRESS": "INPROGRESS",
+  "ON HOLD": "PENDING",
+  CLOSE: "CLOSED",
+  COMPLETE: "COMPLETED",
+};
+
+export const isTicketStatus = (value: string): value is TicketStatus =>
+  (TICKET_STATUSES as readonly string[]).includes(value);
+
+export const toTicketStatus = (value: string | null | undefined): TicketStatus | undefined => {
+  const normalized = value?.trim().toUpperCase();
+  if (!normalized) return undefined;
+  return isTicketStatus(normalized) ? normalized : LEGACY_STATUSES[normalized];
+};
+
+export const ticketStatusLabel = (value: string | null | undefined) => {
+  const status = toTicketStatus(value);
+  return status ? TICKET_STATUS_LABELS[status] : value ?? "";
+};
+
+// A `status` filter may list several statuses, comma separated
+const statusesIn = (filter: string) => filter.split(",").map(toTicketStatus);
+
+export const statusFilterLabel = (filter: string) =>
+  filter === OPEN_STATUS_FILTER ? "Unfinished" : filter.split(",").map(ticketStatusLabel).join(", ");
+
+export const matchesStatusFilter = (value: string | null | undefined, filter: string) =>
+  !filter || statusesIn(filter).includes(toTicketStatus(value));
+
+export const isReopen = (from: TicketStatus | undefined, to: TicketStatus) =>
+  from !== undefined && FINAL_TICKET_STATUSES.includes(from) && !FINAL_TICKET_STATUSES.includes(to);
+
+// Statuses offered when updating a ticket. Keeping the current status is
+// always allowed so a follow up can be logged without moving the ticket.
+export const nextTicketStatuses = (
+  current: string | null | undefined,
+  { canReopen = false }: { canReopen?: boolean } = {}
+): TicketStatus[] => {
+  const from = toTicketStatus(current);
+  if (!from) return [...INITIAL_TICKET_STATUSES];
+
+  const targets = TRANSITIONS[from].filter((to) => canReopen || !isReopen(from, to));
+  return [from, ...targets];
+};
+
+export const requiredTicketFields = (status: TicketStatus): TicketStatusField[] => REQUIRED_FIELDS[status] ?? [];
+
+// Checks a status change and the fields that go with it. Returns the message
+// to show, or null when the change is allowed.
+export const validateTicketTransition = (
+  current: string | null | undefined,
+  next: string,
+  fields: Partial<Record<TicketStatusField, string>>,
+  options: { canReopen?: boolean } = {}
+): string | null => {
+  const to = toTicketStatus(next);
+  if (!to) return "Select a status";
+
+  const from = toTicketStatus(current);
+  if (!nextTicketStatuses(current, options).includes(to)) {
+    if (isReopen(from, to)) return `Only an administrator can reopen a ${TICKET_STATUS_LABELS[from!].toLowerCase()} ticket`;
+    return from
+      ? `A ticket can't move from ${TICKET_STATUS_LABELS[from]} to ${TICKET_STATUS_LABELS[to]}`
+      : `A ticket can't be created as ${TICKET_STATUS_LABELS[to]}`;
+  }
+
+  // Re-logging the current status only adds a note, nothing new is required
+  if (from === to) return null;
+
+  const missing = requiredTicketFields(to).filter((field) => !fields[field]?.trim());
+  if (missing.length) {
+    const names = missing.map((field) => TICKET_STATUS_FIELD_LABELS[field].toLowerCase()).join(" and ");
+    return `Moving a ticket to ${TICKET_STATUS_LABELS[to]} requires ${names}`;
+  }
+
+  return null;
+};
@@ -0,0 +1,90 @@
+import type { AssignHistoryResponse } from "../api/models/AssignHistoryResponse";
+import type { LogHistoryResponse } from "../api/models/LogHistoryResponse";
+import { toTimestamp } from "./date";
+import { toTicketStatus } from "./ticketStatus";
+
+// One entry in a ticket's activity. A log entry records the status and
+// follow-up date the ticket had after it was saved, so the changes are worked
+// out by comparing it with the entry before.
+export type TicketTimelineEvent =
+  | {
+      kind: "log";
+      key: string;
+      at?: string;
+      by?: string;
+      status?: string;
+      // Set when the entry moved the ticket to a different status
+      previousStatus?: string;
+      statusChanged: boolean;
+      remarks?: string;
+      followUp?: string;
+      previousFollowUp?: string;
+      followUpChanged: boolean;
+    }
+  | {
+      kind: "assignment";
+      key: string;
+      at?: string;
+      by?: string;
+      to?: string;
+      // Set when an SLA breach caused the entry
+      escalation?: string;
+      reason?: string;
+    };
+
+// Oldest first. Entries without a usable date keep their relative order and
+// go last.
+const byTime = <T extends { at?: string }>(items: T[]) =>
+  items
+    .map((item, index) => ({ item, index, time: toTimestamp(item.at) }))
+    .sort((a, b) => {
+      if (a.time === undefined || b.time === undefined) {
+        if (a.time !== b.time) return a.time === undefined ? 1 : -1;
+        return a.index - b.index;
+      }
+      return a.time - b.time || a.index - b.index;
+    })
+    .map(({ item }) => item);
+
+// Old entries spell the same status several ways
+const sameStatus = (a?: string, b?: string) => (toTicketStatus(a) ?? a) === (toTicketStatus(b) ?? b);
+
+export const buildTicketTimeline = (
+  logs: LogHistoryResponse[] = [],
+  assignments: AssignHistoryResponse[] = []
+): TicketTimelineEvent[] => {
+  let previous: LogHistoryResponse | undefined;
+  const logEvents = byTime(logs.map((log) => ({ ...log, at: log.createdOn }))).map(
+    (log, index): TicketTimelineEvent => {
+      const event: TicketTimelineEvent = {
+        kind: "log",
+        key: `log-${log.id ?? index}`,
+        at: log.createdOn,
+        by: log.createdBy,
+        status: log.status,
+        previousStatus: previous?.status,
+        statusChanged: !!log.status && !sameStatus(log.status, previous?.status),
+        remarks: log.remarks,
+        followUp: log.nextFollowUpDate,
+        previousFollowUp: previous?.nextFollowUpDate,
+        followUpChanged: !!log.nextFollowUpDate && log.nextFollowUpDate !== previous?.nextFollowUpDate,
+      };
+      previous = log;
+      return event;
+    }
+  );
+
+  const assignmentEvents = assignments.map(
+    (assignment, index): TicketTimelineEvent => ({
+      kind: "assignment",
+      key: `assignment-${assignment.id ?? index}`,
+      at: assignment.createdOn,
+      by: assignment.assignBy,
+      to: assignment.assignTo,
+      escalation: assignment.escalation ?? undefined,
+      reason: assignment.reason ?? undefined,
+    })
+  );
+
+  return byTime([...logEvents, ...assignmentEvents]);
+};
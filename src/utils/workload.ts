@@ -0,0 +1,52 @@
+import type { TicketStatusCountResponse } from "../api/models/TicketStatusCountResponse";
+import type { TicketUserCountResponse } from "../api/models/TicketUserCountResponse";
+import type { UserDetailResponse } from "../api/generated/models/UserDetailResponse";
+import { addDays, toDateKey } from "./date";
+import { INITIAL_TICKET_STATUSES, TICKET_STATUSES, type TicketStatus } from "./ticketStatus";
+
+// How far back "recent throughput" looks
+export const THROUGHPUT_DAYS = 7;
+
+export interface UserWorkload {
+  // Missing for the tickets that match no user
+  user?: UserDetailResponse;
+  byStatus: Record<TicketStatus, number>;
+  open: number;
+  overdue: number;
+  // Completed or closed within the last THROUGHPUT_DAYS
+  finishedRecently: number;
+}
+
+// The day recent throughput counts from, as the count endpoint takes it
+export const throughputSince = (today = new Date()) => toDateKey(addDays(today, -THROUGHPUT_DAYS));
+
+export const openCount = (statusCounts: TicketStatusCountResponse | undefined) =>
+  INITIAL_TICKET_STATUSES.reduce((sum, status) => sum + (statusCounts?.[status] ?? 0), 0);
+
+const byStatusOf = (statusCounts: TicketStatusCountResponse | undefined) =>
+  Object.fromEntries(TICKET_STATUSES.map((status) => [status, statusCounts?.[status] ?? 0])) as Record<TicketStatus, number>;
+
+const toWorkload = (user: UserDetailResponse | undefined, count: TicketUserCountResponse | undefined): UserWorkload => ({
+  user,
+  byStatus: byStatusOf(count?.statusCounts),
+  open: openCount(count?.statusCounts),
+  overdue: count?.overdue ?? 0,
+  finishedRecently: count?.finishedSince ?? 0,
+});
+
+// The server's per-assignee counts joined to the users. Counts without a
+// user (unassigned, or a user that no longer exists) become a final entry
+// without a user, when there is anything in it.
+export const buildWorkload = (users: UserDetailResponse[], counts: TicketUserCountResponse[]): UserWorkload[] => {
+  const entries = users.map((user) => toWorkload(user, counts.find((count) => count.userId === user.id)));
+  const unmatched = toWorkload(undefined, counts.find((count) => count.userId == null));
+  return unmatched.open || unmatched.finishedRecently ? [...entries, unmatched] : entries;
+};
+
+// Open tickets per user id, for planning assignments
+export const openLoadByUser = (counts: TicketUserCountResponse[]) =>
+  new Map(counts.flatMap((count) => (count.userId == null ? [] : [[count.userId, openCount(count.statusCounts)] as const])));
+
+// "12 open · 3 overdue", for pickers that list users
+export const describeLoad = (workload: UserWorkload | undefined) =>
+  workload ? `${workload.open} open${workload.overdue ? ` · ${workload.overdue} overdue` : ""}` : "";